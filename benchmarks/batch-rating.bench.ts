@@ -0,0 +1,68 @@
+/**
+ * Batch rating benchmark.
+ * Rates one period of a synthetic league with `RatingPeriodProcessor` and with `BatchRatingProcessor`, checks that
+ * the results are identical and prints the throughput of both. Run with `npm run bench`; set BENCH_PLAYERS and
+ * BENCH_MATCHES to change the league size.
+ */
+
+import { BatchRatingProcessor } from '../src/batch-rating';
+import { RatingPeriodProcessor } from '../src/rating-period';
+import { Glicko } from '../src/glicko';
+import { SeededRandom } from '../src/utils/random';
+import { Player } from '../src/interfaces/player';
+import { GameResult } from '../src/interfaces/game-result';
+
+const PLAYERS = Number(process.env.BENCH_PLAYERS ?? 10000);
+const MATCHES = Number(process.env.BENCH_MATCHES ?? 200000);
+
+function syntheticLeague(playerCount: number, matchCount: number) {
+    const random = new SeededRandom(2024);
+    const index = (count: number) => Math.floor(random.next() * count);
+    const lastPlayed = new Date('2024-12-01T00:00:00Z');
+    const playedAt = new Date('2025-01-15T00:00:00Z');
+    const strengths: number[] = [];
+    const players: Record<string, Player> = {};
+    for (let i = 0; i < playerCount; i++) {
+        strengths.push(1500 + 300 * random.normal());
+        players[`p${i}`] = { rating: 1500 + 200 * random.normal(), rd: 50 + 250 * random.next(), lastPlayedMatch: lastPlayed };
+    }
+    const games: GameResult[] = [];
+    for (let k = 0; k < matchCount; k++) {
+        const a = index(playerCount);
+        const b = (a + 1 + index(playerCount - 1)) % playerCount;
+        const expected = 1 / (1 + Math.pow(10, (strengths[b] - strengths[a]) / 400));
+        games.push({ playerId: `p${a}`, opponentId: `p${b}`, score: random.next() < expected ? 1 : 0, datePlayed: playedAt });
+    }
+    return { players, games };
+}
+
+function time<T>(run: () => T): { value: T; ms: number } {
+    const start = process.hrtime.bigint();
+    const value = run();
+    return { value, ms: Number(process.hrtime.bigint() - start) / 1e6 };
+}
+
+describe('Batch rating benchmark', () => {
+    it(`rates ${MATCHES} matches between ${PLAYERS} players`, () => {
+        const glicko = new Glicko();
+        const { players, games } = syntheticLeague(PLAYERS, MATCHES);
+        const batch = new BatchRatingProcessor(glicko);
+        const { ids, input } = batch.toColumns(players, games);
+
+        const perMatch = time(() => new RatingPeriodProcessor(glicko).process(players, games));
+        const columnar = time(() => batch.process(input));
+
+        const rate = (ms: number) => Math.round(MATCHES / (ms / 1000)).toLocaleString('en-US');
+        console.log([
+            `League: ${PLAYERS} players, ${MATCHES} matches`,
+            `RatingPeriodProcessor: ${perMatch.ms.toFixed(1)} ms (${rate(perMatch.ms)} matches/s)`,
+            `BatchRatingProcessor:  ${columnar.ms.toFixed(1)} ms (${rate(columnar.ms)} matches/s)`,
+            `Speedup: ${(perMatch.ms / columnar.ms).toFixed(1)}x`,
+        ].join('\n'));
+
+        ids.forEach((id, i) => {
+            expect(columnar.value.ratings[i]).toBe(perMatch.value[id].precise?.rating ?? perMatch.value[id].rating);
+            expect(columnar.value.rds[i]).toBe(perMatch.value[id].precise?.rd ?? perMatch.value[id].rd);
+        });
+    });
+});
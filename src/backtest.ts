@@ -0,0 +1,97 @@
+/**
+ * Backtesting of rating configurations.
+ * Walks a chronological set of games period by period, predicts each game with `Glicko.predict` before its period
+ * is rated, and reports how good those predictions were.
+ */
+
+import { Glicko } from './glicko';
+import { GameResult } from './interfaces/game-result';
+import { BacktestOptions, BacktestReport, CalibrationBucket } from './interfaces/backtest';
+import { GlickoConfig } from './config/glicko_config';
+import { HistoryReplay } from './history-replay';
+import { MathUtils } from './utils/math-utils';
+import { InvalidConfigError } from './errors';
+
+export class Backtester {
+    private glicko: Glicko;
+
+    /**
+     * Creates a backtester for a configuration.
+     * @param {Partial<GlickoConfig>} [config] The configuration to test.
+     * @throws {InvalidConfigError} If the configuration is invalid.
+     */
+    constructor(config?: Partial<GlickoConfig>) {
+        this.glicko = new Glicko(config);
+    }
+
+    /**
+     * Backtests several configurations on the same games, e.g. to A/B config choices.
+     * @param {GameResult[]} games The historical games.
+     * @param {Record<string, Partial<GlickoConfig>>} configs Configurations keyed by a label.
+     * @param {BacktestOptions} [options] Scoring options shared by every run.
+     * @returns {Record<string, BacktestReport>} One report per label.
+     */
+    static compare(games: GameResult[], configs: Record<string, Partial<GlickoConfig>>, options?: BacktestOptions): Record<string, BacktestReport> {
+        const reports: Record<string, BacktestReport> = {};
+        for (const [label, config] of Object.entries(configs)) {
+            reports[label] = new Backtester(config).run(games, options);
+        }
+        return reports;
+    }
+
+    /**
+     * Replays the games and scores every prediction made after the burn-in periods.
+     * @param {GameResult[]} games The historical games, in any order.
+     * @param {BacktestOptions} [options] Calibration buckets and burn-in.
+     * @returns {BacktestReport} The accuracy metrics and calibration table.
+     * @throws {InvalidConfigError} If an option is out of range.
+     */
+    run(games: GameResult[], options?: BacktestOptions): BacktestReport {
+        const bucketCount = options?.calibrationBuckets ?? 10;
+        const burnInPeriods = options?.burnInPeriods ?? 0;
+        if (bucketCount < 1 || !Number.isInteger(bucketCount)) {
+            throw new InvalidConfigError('calibrationBuckets', bucketCount, "calibrationBuckets must be a positive integer.");
+        }
+        if (burnInPeriods < 0 || !Number.isInteger(burnInPeriods)) {
+            throw new InvalidConfigError('burnInPeriods', burnInPeriods, "burnInPeriods must be a non-negative integer.");
+        }
+
+        const scored = new HistoryReplay(this.glicko).run(games).predictions.filter(prediction => prediction.period >= burnInPeriods);
+
+        let logLoss = 0;
+        let brierScore = 0;
+        let correct = 0;
+        let decisiveGames = 0;
+        const buckets = Array.from({ length: bucketCount }, () => ({ games: 0, predicted: 0, observed: 0 }));
+
+        for (const { expectedScore, game } of scored) {
+            logLoss += MathUtils.logLoss(expectedScore, game.score);
+            brierScore += Math.pow(expectedScore - game.score, 2);
+            if (game.score !== 0.5) {
+                decisiveGames++;
+                correct += expectedScore === 0.5 ? 0.5 : (expectedScore > 0.5) === (game.score > 0.5) ? 1 : 0;
+            }
+            const bucket = buckets[Math.min(Math.floor(expectedScore * bucketCount), bucketCount - 1)];
+            bucket.games++;
+            bucket.predicted += expectedScore;
+            bucket.observed += game.score;
+        }
+
+        const calibration: CalibrationBucket[] = buckets.map((bucket, index) => ({
+            lower: index / bucketCount,
+            upper: (index + 1) / bucketCount,
+            games: bucket.games,
+            meanPredicted: bucket.games > 0 ? bucket.predicted / bucket.games : null,
+            meanObserved: bucket.games > 0 ? bucket.observed / bucket.games : null,
+        }));
+
+        return {
+            games: scored.length,
+            logLoss: logLoss / scored.length,
+            brierScore: brierScore / scored.length,
+            accuracy: correct / decisiveGames,
+            decisiveGames,
+            calibration,
+        };
+    }
+}
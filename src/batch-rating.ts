@@ -0,0 +1,250 @@
+/**
+ * Columnar batch rating.
+ * Rates a whole Glicko-1 rating period from typed arrays in one pass over the games, for leagues where building a
+ * `Match` object per game side is the bottleneck. Results are identical to `RatingPeriodProcessor.process`.
+ */
+
+import { Glicko } from './glicko';
+import { Player } from './interfaces/player';
+import { GameResult } from './interfaces/game-result';
+import { BatchAppliedSafeguard, BatchColumns, BatchRatingInput, BatchRatingOptions, BatchRatingResult } from './interfaces/batch';
+import { MathUtils } from './utils/math-utils';
+import { Precision } from './utils/precision';
+import { RatingSafeguards } from './utils/rating-safeguards';
+import { GlickoValidationError, InvalidRatingDeviationError, InvalidRatingError, InvalidScoreError } from './errors';
+
+export class BatchRatingProcessor {
+    private glicko: Glicko;
+
+    /**
+     * Creates a batch processor.
+     * @param {Glicko} [glicko] The engine whose configuration is used. Defaults to a Glicko-1 engine with default config.
+     */
+    constructor(glicko?: Glicko) {
+        this.glicko = glicko ?? new Glicko();
+    }
+
+    /**
+     * Converts keyed player states and games into columns, in the same way `RatingPeriodProcessor` reads them:
+     * full-precision values are used where `precise` is current, and ids seen only in games are initialized.
+     * Meant for moving existing data into the columnar form; high-volume callers should keep the columns instead.
+     * @param {Record<string, Player>} players Player states *before* the period, keyed by player id.
+     * @param {GameResult[]} games Every game played during the period, each recorded once.
+     * @returns {BatchColumns} The input columns and the id at each player index.
+     */
+    toColumns(players: Record<string, Player>, games: GameResult[]): BatchColumns {
+        const { roundingPrecision, roundingMode } = this.glicko.getConfig();
+        const states: Player[] = [];
+        const indexById = new Map<string, number>();
+        const add = (id: string, player: Player) => {
+            indexById.set(id, states.length);
+            states.push(player);
+        };
+        for (const [id, player] of Object.entries(players)) {
+            add(id, player);
+        }
+        for (const game of games) {
+            for (const id of [game.playerId, game.opponentId]) {
+                if (!indexById.has(id)) {
+                    add(id, this.glicko.initializeNewPlayer({ id }));
+                }
+            }
+        }
+
+        const n = states.length;
+        const input: BatchRatingInput = {
+            ratings: new Float64Array(n),
+            rds: new Float64Array(n),
+            peakRatings: new Float64Array(n),
+            hasPlayed: new Uint8Array(n),
+            playerIndex: new Uint32Array(games.length),
+            opponentIndex: new Uint32Array(games.length),
+            scores: new Float64Array(games.length),
+            sides: new Int8Array(games.length),
+            ...(games.some(game => game.weight !== undefined) && { weights: new Float64Array(games.length) }),
+        };
+        states.forEach((player, i) => {
+            const start = Precision.resolve(player, roundingPrecision, roundingMode);
+            input.ratings[i] = start.rating;
+            input.rds[i] = start.rd;
+            (input.peakRatings as Float64Array)[i] = player.peakRating ?? start.rating;
+            (input.hasPlayed as Uint8Array)[i] = player.lastPlayedMatch ? 1 : 0;
+        });
+        games.forEach((game, k) => {
+            input.playerIndex[k] = indexById.get(game.playerId) as number;
+            input.opponentIndex[k] = indexById.get(game.opponentId) as number;
+            input.scores[k] = game.score;
+            if (input.weights) { input.weights[k] = game.weight ?? 1; }
+            (input.sides as Int8Array)[k] = game.side === 'first' ? 1 : game.side === 'second' ? -1 : 0;
+        });
+        return { ids: [...indexById.keys()], input };
+    }
+
+    /**
+     * Converts a batch result back into keyed player states with `precise` set. `lastPlayedMatch` is not known
+     * to the batch and is left to the caller.
+     * @param {string[]} ids The id at each player index, as returned by `toColumns`.
+     * @param {BatchRatingResult} result The batch result.
+     * @returns {Record<string, Player>} Player states keyed by id.
+     */
+    toPlayers(ids: string[], result: BatchRatingResult): Record<string, Player> {
+        const players: Record<string, Player> = {};
+        ids.forEach((id, i) => {
+            players[id] = {
+                id,
+                rating: result.displayRatings[i],
+                rd: result.displayRds[i],
+                precise: { rating: result.ratings[i], rd: result.rds[i] },
+                ...(result.peakRatings && { peakRating: result.peakRatings[i] }),
+            };
+        });
+        return players;
+    }
+
+    /**
+     * Processes one rating period for every player at once, against start-of-period states.
+     *
+     * The process involves these steps:
+     * 1. Every player who has played before has their RD increased for `elapsedDays` of inactivity, as `updateRDForInactivity` does.
+     * 2. g(RD) is computed once per player rather than once per match.
+     * 3. A single pass over the games accumulates both sides' variance and performance sums, in game order.
+     * 4. Each player who played gets the new RD and rating, the configured safeguards and display rounding;
+     *    players who sat out keep their start-of-period state.
+     *
+     * The arithmetic matches `processGameResults` operation for operation, so the full-precision results equal
+     * `Player.precise` from `RatingPeriodProcessor.process` with the same players, games and options. Inputs are validated up front and
+     * invalid values always throw; there is no lenient mode.
+     * @param {BatchRatingInput} input Player columns and game columns.
+     * @param {BatchRatingOptions} [options] Inactivity to apply first.
+     * @returns {BatchRatingResult} New player columns.
+     * @throws {GlickoValidationError} If column lengths differ, an index is out of range, a player faces themselves or a side is not -1, 0 or 1.
+     * @throws {InvalidRatingError} If a rating is not finite.
+     * @throws {InvalidRatingDeviationError} If an RD is not positive and finite.
+     * @throws {InvalidScoreError} If a score is outside [0, 1].
+     */
+    process(input: BatchRatingInput, options?: BatchRatingOptions): BatchRatingResult {
+        this.validate(input);
+        const config = this.glicko.getConfig();
+        const { q, inactivityConstant, rdCeiling, daysPerRatingPeriod, roundingPrecision, roundingMode, firstMoveAdvantage } = config;
+        const { ratings, playerIndex, opponentIndex, scores, weights, sides } = input;
+        const n = ratings.length;
+        const games = scores.length;
+        const elapsedDays = options?.elapsedDays ?? daysPerRatingPeriod;
+        if (elapsedDays < 0) { throw new GlickoValidationError('elapsedDays', elapsedDays, "elapsedDays cannot be negative."); }
+
+        const rds = new Float64Array(input.rds);
+        if (elapsedDays > 0) {
+            const periods = elapsedDays / daysPerRatingPeriod;
+            for (let i = 0; i < n; i++) {
+                if (input.hasPlayed && !input.hasPlayed[i]) { continue; }
+                rds[i] = Math.min(Math.sqrt(Math.pow(rds[i], 2) + Math.pow(inactivityConstant, 2) * periods), rdCeiling);
+            }
+        }
+
+        const g = new Float64Array(n);
+        const gSquared = new Float64Array(n);
+        for (let i = 0; i < n; i++) {
+            g[i] = MathUtils.g(rds[i], q);
+            gSquared[i] = Math.pow(g[i], 2);
+        }
+
+        const varianceSums = new Float64Array(n);
+        const performanceSums = new Float64Array(n);
+        const gamesPlayed = new Uint32Array(n);
+        for (let k = 0; k < games; k++) {
+            const a = playerIndex[k];
+            const b = opponentIndex[k];
+            const score = scores[k];
+            const weight = weights ? weights[k] : 1;
+            const advantage = sides ? sides[k] * firstMoveAdvantage : 0;
+
+            const expectedA = 1 / (1 + Math.exp(-g[b] * (ratings[a] - ratings[b] + advantage) * q));
+            varianceSums[a] += weight * gSquared[b] * expectedA * (1 - expectedA);
+            performanceSums[a] += weight * g[b] * (score - expectedA);
+            gamesPlayed[a]++;
+
+            const expectedB = 1 / (1 + Math.exp(-g[a] * (ratings[b] - ratings[a] - advantage) * q));
+            varianceSums[b] += weight * gSquared[a] * expectedB * (1 - expectedB);
+            performanceSums[b] += weight * g[a] * ((1 - score) - expectedB);
+            gamesPlayed[b]++;
+        }
+
+        const newRatings = new Float64Array(ratings);
+        const newRds = new Float64Array(rds);
+        const peakRatings = config.peakFloorOffset !== undefined ? new Float64Array(input.peakRatings ?? ratings) : undefined;
+        const safeguards: BatchAppliedSafeguard[] = [];
+        const qSquared = Math.pow(q, 2);
+        for (let i = 0; i < n; i++) {
+            if (gamesPlayed[i] === 0) { continue; }
+            // Same steps as Glicko.calculateNewRD and Glicko.calculateNewRating.
+            let rd = rds[i];
+            if (varianceSums[i] > 0) {
+                rd = Math.sqrt(1 / (1 / Math.pow(rds[i], 2) + qSquared * varianceSums[i]));
+            }
+            const rating = ratings[i] + q * Math.pow(rd, 2) * performanceSums[i];
+
+            const guarded = RatingSafeguards.apply({ rating: ratings[i], rd: rds[i], peakRating: peakRatings?.[i] }, rating, rd, config);
+            newRatings[i] = guarded.rating;
+            newRds[i] = guarded.rd;
+            if (peakRatings && guarded.peakRating !== undefined) {
+                peakRatings[i] = MathUtils.roundToDecimalPlaces(guarded.peakRating, roundingPrecision, roundingMode);
+            }
+            for (const applied of guarded.applied) {
+                safeguards.push({ playerIndex: i, ...applied });
+            }
+        }
+
+        const displayRatings = new Float64Array(n);
+        const displayRds = new Float64Array(n);
+        for (let i = 0; i < n; i++) {
+            displayRatings[i] = MathUtils.roundToDecimalPlaces(newRatings[i], roundingPrecision, roundingMode);
+            displayRds[i] = MathUtils.roundToDecimalPlaces(newRds[i], roundingPrecision, roundingMode);
+        }
+
+        return { ratings: newRatings, rds: newRds, displayRatings, displayRds, peakRatings, gamesPlayed, safeguards };
+    }
+
+    /**
+     * Checks column lengths, indices, ratings, RDs, scores and weights.
+     * @private
+     */
+    private validate(input: BatchRatingInput): void {
+        const { ratings, rds, peakRatings, playerIndex, opponentIndex, scores, weights, sides } = input;
+        const n = ratings.length;
+        if (rds.length !== n || (peakRatings && peakRatings.length !== n) || (input.hasPlayed && input.hasPlayed.length !== n)) {
+            throw new GlickoValidationError('rds', rds.length, "Player columns must all have the same length.");
+        }
+        const games = scores.length;
+        if (playerIndex.length !== games || opponentIndex.length !== games
+            || (weights && weights.length !== games) || (sides && sides.length !== games)) {
+            throw new GlickoValidationError('scores', games, "Game columns must all have the same length.");
+        }
+        for (let i = 0; i < n; i++) {
+            if (!Number.isFinite(ratings[i])) {
+                throw new InvalidRatingError(`ratings[${i}]`, ratings[i], `Player rating must be a finite number: ${ratings[i]}`);
+            }
+            if (!Number.isFinite(rds[i]) || rds[i] <= 0) {
+                throw new InvalidRatingDeviationError(`rds[${i}]`, rds[i], "Player RD must be positive for calculations.");
+            }
+        }
+        for (let k = 0; k < games; k++) {
+            const a = playerIndex[k];
+            const b = opponentIndex[k];
+            if (a >= n || b >= n) {
+                throw new GlickoValidationError(`playerIndex[${k}]`, a >= n ? a : b, `Game ${k} refers to a player index outside the player columns.`);
+            }
+            if (a === b) {
+                throw new GlickoValidationError(`opponentIndex[${k}]`, b, `Player ${a} cannot play against themselves.`);
+            }
+            if (!(scores[k] >= 0 && scores[k] <= 1)) {
+                throw new InvalidScoreError(`scores[${k}]`, scores[k], `Match score must be between 0 and 1: ${scores[k]}`);
+            }
+            if (weights && !(weights[k] >= 0 && Number.isFinite(weights[k]))) {
+                throw new GlickoValidationError(`weights[${k}]`, weights[k], "Match weight must be a non-negative finite number.");
+            }
+            if (sides && sides[k] !== 0 && sides[k] !== 1 && sides[k] !== -1) {
+                throw new GlickoValidationError(`sides[${k}]`, sides[k], "Match side must be 1 (first), -1 (second) or 0 (not known).");
+            }
+        }
+    }
+}
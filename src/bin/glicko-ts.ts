@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+/**
+ * Entry point of the `glicko-ts` command-line tool. See `GlickoCli` for the commands.
+ */
+
+import * as fs from 'fs';
+import { GlickoCli } from '../cli';
+
+process.exitCode = new GlickoCli({
+    readFile: path => fs.readFileSync(path, 'utf8'),
+    writeFile: (path, contents) => fs.writeFileSync(path, contents, 'utf8'),
+    stdout: text => process.stdout.write(text + '\n'),
+    stderr: text => process.stderr.write(text + '\n'),
+}).run(process.argv.slice(2));
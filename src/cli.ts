@@ -0,0 +1,424 @@
+/**
+ * Command-line tool.
+ * Rates a match file (CSV, JSON or PGN) against a players file, prints leaderboards and predicts matchups, with
+ * configuration taken from a config file and flags mirroring `GlickoConfig`. File and console access go through
+ * `CliIo`, so the same code runs from the `glicko-ts` binary and in tests.
+ */
+
+import { Glicko } from './glicko';
+import { Leaderboard } from './leaderboard';
+import { RatingPeriodProcessor } from './rating-period';
+import { SnapshotSerializer } from './serialization';
+import { CsvImporter } from './importers/csv-importer';
+import { PgnImporter } from './importers/pgn-importer';
+import { Player } from './interfaces/player';
+import { GameResult } from './interfaces/game-result';
+import { LeaderboardEntry } from './interfaces/leaderboard';
+import { SerializableConfig } from './interfaces/serialization';
+import { CliExitCode, CliIo } from './interfaces/cli';
+import { FixedClock } from './utils/clock';
+import { DateUtils } from './utils/date-utils';
+import { CommandLineError, GlickoValidationError } from './errors';
+
+/**
+ * Config flags and the `GlickoConfig` key each one sets.
+ */
+const CONFIG_FLAGS: Record<string, keyof SerializableConfig | 'q'> = {
+    'initial-rating': 'initialRating',
+    'initial-rd': 'initialRD',
+    'inactivity-constant': 'inactivityConstant',
+    'rd-ceiling': 'rdCeiling',
+    'q': 'q',
+    'scale-center': 'scaleCenter',
+    'scale-spread': 'scaleSpread',
+    'days-per-rating-period': 'daysPerRatingPeriod',
+    'rounding-precision': 'roundingPrecision',
+    'rounding-mode': 'roundingMode',
+    'validation-mode': 'validationMode',
+    'rating-floor': 'ratingFloor',
+    'peak-floor-offset': 'peakFloorOffset',
+    'max-rating-change-per-period': 'maxRatingChangePerPeriod',
+    'min-rd': 'minRD',
+    'first-move-advantage': 'firstMoveAdvantage',
+};
+const STRING_CONFIG_KEYS = ['roundingMode', 'validationMode'];
+
+/**
+ * Flags each command accepts besides the config flags and `--config`.
+ */
+const COMMAND_FLAGS: Record<string, string[]> = {
+    rate: ['players', 'matches', 'out', 'format', 'delimiter', 'date-format', 'elapsed-days', 'as-of', 'limit'],
+    leaderboard: ['players', 'as-of', 'limit', 'conservative-factor'],
+    predict: ['players', 'as-of', 'side', 'draw-rate'],
+};
+
+const USAGE = `Usage: glicko-ts <command> [options]
+
+Commands:
+  rate --matches <file> --out <file> [--players <file>]
+      Rates one rating period of games and writes the updated players.
+      Match files are CSV (player,opponent,score,date), JSON (an array of
+      { playerId, opponentId, score, datePlayed, side? }) or PGN, chosen by
+      extension or --format csv|json|pgn. CSV options: --delimiter, --date-format.
+      --elapsed-days <n>  Inactivity applied first (default: one rating period)
+      --limit <n>         Leaderboard rows printed afterwards (default 10)
+  leaderboard --players <file> [--limit <n>] [--conservative-factor <k>]
+      Prints players ranked by rating - k * RD.
+  predict --players <file> <player> <opponent> [--side first|second] [--draw-rate <d>]
+      Predicts a game between two players in the players file.
+  help
+      Prints this message.
+
+Players files are snapshots written by SnapshotSerializer (or plain JSON keyed
+by player id). --as-of <date> sets the date inactivity is applied up to.
+
+Configuration: --config <file> reads a config snapshot or plain JSON object;
+these flags override it:
+  ${Object.keys(CONFIG_FLAGS).map(flag => `--${flag}`).join(', ')}
+
+Exit codes: 0 success, 1 invalid input, 2 invalid usage.`;
+
+interface ParsedArgs {
+    command: string | undefined;
+    positional: string[];
+    flags: Map<string, string>;
+}
+
+export class GlickoCli {
+    private io: CliIo;
+    private serializer = new SnapshotSerializer();
+
+    /**
+     * Creates the command-line tool.
+     * @param {CliIo} io File and console access.
+     */
+    constructor(io: CliIo) {
+        this.io = io;
+    }
+
+    /**
+     * Runs one command. Errors are printed to `stderr` rather than thrown: usage errors (`CommandLineError`) exit
+     * with 2 and every other error, such as a `GlickoValidationError` for invalid input, with 1.
+     * @param {string[]} args The arguments after the program name, e.g. `process.argv.slice(2)`.
+     * @returns {CliExitCode} 0 on success, 1 for invalid input, 2 for invalid usage.
+     */
+    run(args: string[]): CliExitCode {
+        try {
+            const parsed = this.parseArgs(args);
+            switch (parsed.command) {
+                case 'rate':
+                    this.rate(parsed);
+                    break;
+                case 'leaderboard':
+                    this.leaderboard(parsed);
+                    break;
+                case 'predict':
+                    this.predict(parsed);
+                    break;
+                case 'help':
+                    this.io.stdout(USAGE);
+                    break;
+                case undefined:
+                    throw new CommandLineError('command', undefined, "No command given.");
+                default:
+                    throw new CommandLineError('command', parsed.command, `Unknown command "${parsed.command}".`);
+            }
+            return 0;
+        } catch (error) {
+            if (error instanceof CommandLineError) {
+                this.io.stderr(`error: ${error.message}`);
+                this.io.stderr("Run 'glicko-ts help' for usage.");
+                return 2;
+            }
+            // Validation errors for bad input and I/O errors such as a missing file.
+            if (error instanceof Error) {
+                this.io.stderr(`error: ${error.message}`);
+                return 1;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Rates the match file as one rating period, writes the updated players and prints the leaderboard.
+     * @private
+     */
+    private rate(args: ParsedArgs): void {
+        this.checkFlags(args, 'rate', 0);
+        const matchesPath = this.requireFlag(args, 'matches');
+        const outPath = this.requireFlag(args, 'out');
+        const glicko = this.createEngine(args);
+        const playersPath = args.flags.get('players');
+        const players = playersPath ? this.readPlayers(playersPath) : {};
+        const games = this.readMatches(matchesPath, args);
+        const elapsedDays = this.numberFlag(args, 'elapsed-days');
+
+        const { players: updated, warnings } = new RatingPeriodProcessor(glicko)
+            .processWithWarnings(players, games, elapsedDays === undefined ? undefined : { elapsedDays });
+        // Lenient mode skips invalid games instead of failing, so say which ones were left out.
+        for (const warning of warnings) {
+            const game = games[warning.matchIndex];
+            this.io.stderr(`warning: skipped game ${warning.matchIndex + 1} (${game.playerId} vs ${game.opponentId}): ${warning.message}`);
+        }
+        this.writeFile(outPath, this.serializer.stringify('players', updated, 2) + '\n');
+
+        const rated = warnings.length > 0 ? `${games.length - warnings.length} of ${games.length} games (${warnings.length} skipped)` : `${games.length} games`;
+        this.io.stdout(`Rated ${rated}; wrote ${Object.keys(updated).length} players to ${outPath}.`);
+        this.printLeaderboard(glicko, Object.values(updated), args, this.numberFlag(args, 'limit') ?? 10);
+    }
+
+    /**
+     * Prints the leaderboard of a players file.
+     * @private
+     */
+    private leaderboard(args: ParsedArgs): void {
+        this.checkFlags(args, 'leaderboard', 0);
+        const glicko = this.createEngine(args);
+        const players = this.readPlayers(this.requireFlag(args, 'players'));
+        this.printLeaderboard(glicko, Object.values(players), args, this.numberFlag(args, 'limit'));
+    }
+
+    /**
+     * Prints the prediction of a game between two players of a players file.
+     * @private
+     */
+    private predict(args: ParsedArgs): void {
+        this.checkFlags(args, 'predict', 2);
+        const glicko = this.createEngine(args);
+        const playersPath = this.requireFlag(args, 'players');
+        const players = this.readPlayers(playersPath);
+        const asOf = this.asOf(args) ?? glicko.getConfig().clock.now();
+        const [a, b] = args.positional.map(id => {
+            const player = players[id];
+            if (!player) { throw new GlickoValidationError('player', id, `Player "${id}" is not in ${playersPath}.`); }
+            return glicko.updateRDForInactivity(player, DateUtils.daysBetween(player.lastPlayedMatch, asOf));
+        });
+
+        const side = args.flags.get('side');
+        if (side !== undefined && side !== 'first' && side !== 'second') {
+            throw new CommandLineError('side', side, "--side must be 'first' or 'second'.");
+        }
+        const prediction = glicko.predict(a, b, { drawRate: this.numberFlag(args, 'draw-rate'), side });
+        const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+        const [first, second] = args.positional;
+        this.io.stdout(`${first} (${this.format(glicko, a.rating)} ± ${this.format(glicko, a.rd)}) vs ${second} (${this.format(glicko, b.rating)} ± ${this.format(glicko, b.rd)})`);
+        this.io.stdout(`Expected score for ${first}: ${prediction.expectedScore.toFixed(3)} `
+            + `(${prediction.confidenceInterval.level * 100}% interval ${prediction.confidenceInterval.lower.toFixed(3)} to ${prediction.confidenceInterval.upper.toFixed(3)})`);
+        this.io.stdout(`Win ${percent(prediction.winProbability)}, draw ${percent(prediction.drawProbability)}, loss ${percent(prediction.lossProbability)}`);
+    }
+
+    /**
+     * Prints a leaderboard table.
+     * @private
+     */
+    private printLeaderboard(glicko: Glicko, players: Player[], args: ParsedArgs, limit?: number): void {
+        const conservativeFactor = this.numberFlag(args, 'conservative-factor');
+        const page = new Leaderboard(glicko, conservativeFactor === undefined ? undefined : { conservativeFactor })
+            .build(players, { asOf: this.asOf(args), limit });
+
+        const columns: [string, (entry: LeaderboardEntry) => string][] = [
+            ['Rank', entry => String(entry.rank)],
+            ['Player', entry => entry.player.id ?? ''],
+            ['Rating', entry => this.format(glicko, entry.player.rating)],
+            ['RD', entry => this.format(glicko, entry.player.rd)],
+            ['Conservative', entry => this.format(glicko, entry.conservativeRating) + (entry.provisional ? ' (provisional)' : '')],
+        ];
+        const rows = page.entries.map(entry => columns.map(([, cell]) => cell(entry)));
+        const widths = columns.map(([header], i) => Math.max(header.length, ...rows.map(row => row[i].length)));
+        const line = (cells: string[]) => cells.map((cell, i) => i === 1 || i === cells.length - 1 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])).join('  ').trimEnd();
+
+        this.io.stdout(line(columns.map(([header]) => header)));
+        rows.forEach(row => this.io.stdout(line(row)));
+        if (page.entries.length < page.total) {
+            this.io.stdout(`(${page.total - page.entries.length} more)`);
+        }
+    }
+
+    /**
+     * Builds the engine from `--config`, the config flags and `--as-of`.
+     * @private
+     */
+    private createEngine(args: ParsedArgs): Glicko {
+        const configPath = args.flags.get('config');
+        const config: Record<string, unknown> = configPath ? { ...this.serializer.deserialize('config', this.readFile(configPath)) } : {};
+        for (const [flag, key] of Object.entries(CONFIG_FLAGS)) {
+            const value = args.flags.get(flag);
+            if (value === undefined) { continue; }
+            config[key] = STRING_CONFIG_KEYS.includes(key) ? value : this.parseNumber(flag, value);
+        }
+        const asOf = this.asOf(args);
+        return new Glicko({ ...config, ...(asOf && { clock: new FixedClock(asOf) }) });
+    }
+
+    /**
+     * Reads a players snapshot (or plain JSON keyed by id), filling in missing ids from the keys.
+     * @private
+     */
+    private readPlayers(path: string): Record<string, Player> {
+        const players = this.serializer.deserialize('players', this.readFile(path));
+        for (const [id, player] of Object.entries(players)) {
+            players[id] = { ...player, id: player.id ?? id };
+        }
+        return players;
+    }
+
+    /**
+     * Reads a match file in the format given by `--format` or the file extension.
+     * @private
+     */
+    private readMatches(path: string, args: ParsedArgs): GameResult[] {
+        const format = args.flags.get('format') ?? path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+        const text = this.readFile(path);
+        switch (format) {
+            case 'csv':
+                return new CsvImporter({ delimiter: args.flags.get('delimiter'), dateFormat: args.flags.get('date-format') }).parse(text);
+            case 'pgn':
+                return new PgnImporter().parse(text);
+            case 'json':
+                return this.parseJsonMatches(text, path);
+            default:
+                throw new CommandLineError('format', format, `Cannot tell the format of ${path}; pass --format csv, json or pgn.`);
+        }
+    }
+
+    /**
+     * Parses a JSON array of games, with `datePlayed` as an ISO 8601 string.
+     * @private
+     */
+    private parseJsonMatches(text: string, path: string): GameResult[] {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(text);
+        } catch (error) {
+            throw new GlickoValidationError('matches', path, `${path} is not valid JSON: ${(error as Error).message}`);
+        }
+        if (!Array.isArray(parsed)) {
+            throw new GlickoValidationError('matches', path, `${path} must contain an array of games.`);
+        }
+        return parsed.map((game, i) => {
+            const field = (name: string) => `matches[${i}].${name}`;
+            if (game === null || typeof game !== 'object') {
+                throw new GlickoValidationError(`matches[${i}]`, game, `Game ${i} must be an object.`);
+            }
+            const { playerId, opponentId, score, datePlayed, side } = game as Record<string, unknown>;
+            for (const [name, id] of [['playerId', playerId], ['opponentId', opponentId]] as const) {
+                if (typeof id !== 'string' || id.trim() === '') {
+                    throw new GlickoValidationError(field(name), id, `Game ${i} has no ${name}.`);
+                }
+            }
+            if (typeof score !== 'number') {
+                throw new GlickoValidationError(field('score'), score, `Game ${i} has no numeric score.`);
+            }
+            const date = typeof datePlayed === 'string' ? new Date(datePlayed) : undefined;
+            if (!date || !DateUtils.isValidDate(date)) {
+                throw new GlickoValidationError(field('datePlayed'), datePlayed, `Game ${i} has no valid ISO 8601 datePlayed.`);
+            }
+            if (side !== undefined && side !== 'first' && side !== 'second') {
+                throw new GlickoValidationError(field('side'), side, `Game ${i} has side ${JSON.stringify(side)}; expected 'first' or 'second'.`);
+            }
+            return { playerId: playerId as string, opponentId: opponentId as string, score, datePlayed: date, ...(side !== undefined && { side }) };
+        });
+    }
+
+    private readFile(path: string): string {
+        try {
+            return this.io.readFile(path);
+        } catch (error) {
+            throw new GlickoValidationError('file', path, `Cannot read ${path}: ${(error as Error).message}`);
+        }
+    }
+
+    private writeFile(path: string, contents: string): void {
+        try {
+            this.io.writeFile(path, contents);
+        } catch (error) {
+            throw new GlickoValidationError('file', path, `Cannot write ${path}: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Splits arguments into the command, positional arguments and `--flag value` / `--flag=value` pairs.
+     * @private
+     */
+    private parseArgs(args: string[]): ParsedArgs {
+        const [command, ...rest] = args;
+        // --help is a boolean flag: after any command it prints the usage instead of running the command.
+        if (command === '--help' || command === '-h' || rest.includes('--help') || rest.includes('-h')) {
+            return { command: 'help', positional: [], flags: new Map() };
+        }
+        const positional: string[] = [];
+        const flags = new Map<string, string>();
+        for (let i = 0; i < rest.length; i++) {
+            const arg = rest[i];
+            if (!arg.startsWith('--')) {
+                positional.push(arg);
+                continue;
+            }
+            const equals = arg.indexOf('=');
+            const name = equals >= 0 ? arg.slice(2, equals) : arg.slice(2);
+            const value = equals >= 0 ? arg.slice(equals + 1) : rest[i + 1];
+            if (equals < 0) {
+                if (value === undefined || value.startsWith('--')) {
+                    throw new CommandLineError(name, undefined, `--${name} needs a value.`);
+                }
+                i++;
+            }
+            if (flags.has(name)) {
+                throw new CommandLineError(name, value, `--${name} is given more than once.`);
+            }
+            flags.set(name, value.trim());
+        }
+        return { command, positional, flags };
+    }
+
+    /**
+     * Rejects flags the command does not know and the wrong number of positional arguments.
+     * @private
+     */
+    private checkFlags(args: ParsedArgs, command: string, positionalCount: number): void {
+        const known = new Set([...COMMAND_FLAGS[command], 'config', ...Object.keys(CONFIG_FLAGS)]);
+        for (const name of args.flags.keys()) {
+            if (!known.has(name)) {
+                throw new CommandLineError(name, args.flags.get(name), `Unknown option --${name} for "${command}".`);
+            }
+        }
+        if (args.positional.length !== positionalCount) {
+            throw new CommandLineError('arguments', args.positional, positionalCount === 0
+                ? `"${command}" takes no arguments besides options; got ${args.positional.join(' ')}.`
+                : `"${command}" needs exactly ${positionalCount} player ids.`);
+        }
+    }
+
+    private requireFlag(args: ParsedArgs, name: string): string {
+        const value = args.flags.get(name);
+        if (value === undefined || value === '') { throw new CommandLineError(name, value, `--${name} is required.`); }
+        return value;
+    }
+
+    private numberFlag(args: ParsedArgs, name: string): number | undefined {
+        const value = args.flags.get(name);
+        return value === undefined ? undefined : this.parseNumber(name, value);
+    }
+
+    private parseNumber(name: string, value: string): number {
+        const number = Number(value);
+        if (value === '' || !Number.isFinite(number)) {
+            throw new CommandLineError(name, value, `--${name} must be a number: ${value}`);
+        }
+        return number;
+    }
+
+    private asOf(args: ParsedArgs): Date | undefined {
+        const value = args.flags.get('as-of');
+        if (value === undefined) { return undefined; }
+        const date = new Date(value);
+        if (!DateUtils.isValidDate(date)) {
+            throw new CommandLineError('as-of', value, `--as-of must be an ISO 8601 date: ${value}`);
+        }
+        return date;
+    }
+
+    private format(glicko: Glicko, value: number): string {
+        return value.toFixed(glicko.getConfig().roundingPrecision);
+    }
+}
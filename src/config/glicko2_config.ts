@@ -0,0 +1,23 @@
+import { Clock } from "../interfaces/clock";
+import { RatingWarning, ValidationMode } from "../interfaces/validation";
+import { SafeguardSettings } from "../interfaces/safeguards";
+import { RoundingMode } from "../interfaces/rounding";
+
+/**
+ * Engine settings. The rating stability limits of `SafeguardSettings` are off unless set.
+ */
+export interface Glicko2Config extends SafeguardSettings {
+    initialRating: number;
+    initialRD: number;
+    initialVolatility: number; // Starting volatility (sigma) for new players
+    tau: number; // System constant constraining volatility change over time
+    convergenceTolerance: number; // Epsilon for the Illinois volatility iteration
+    rdCeiling: number;
+    daysPerRatingPeriod: number;
+    roundingPrecision: number; // Rounding precision for ratings and RD (volatility is never rounded)
+    roundingMode: RoundingMode; // How display values are rounded (default 'half-up'); computation always uses full precision
+    firstMoveAdvantage: number; // Rating points added to the first-moving side in expected scores of matches with a `side` (default 0)
+    clock: Clock; // Source of the current time, used when no "as of" date is given
+    validationMode: ValidationMode; // 'strict' throws on invalid matches, 'lenient' skips and reports them (default)
+    onWarning?: (warning: RatingWarning) => void; // Called for each match skipped in lenient mode
+}
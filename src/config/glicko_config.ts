@@ -1,9 +1,24 @@
-export interface GlickoConfig {
+import { Clock } from "../interfaces/clock";
+import { RatingWarning, ValidationMode } from "../interfaces/validation";
+import { SafeguardSettings } from "../interfaces/safeguards";
+import { RoundingMode } from "../interfaces/rounding";
+
+/**
+ * Engine settings. The rating stability limits of `SafeguardSettings` are off unless set.
+ */
+export interface GlickoConfig extends SafeguardSettings {
     initialRating: number;
     initialRD: number;
     inactivityConstant: number;
     rdCeiling: number;
-    q: number;
+    q: number; // Derived: ln(10) / scaleSpread
+    scaleCenter: number; // Rating of an average player; the default initialRating (default 1500)
+    scaleSpread: number; // Rating difference giving 10:1 odds (default 400); rating-point defaults scale with it
     daysPerRatingPeriod: number;
     roundingPrecision: number; // Optional rounding precision for ratings and RD
+    roundingMode: RoundingMode; // How display values are rounded (default 'half-up'); computation always uses full precision
+    firstMoveAdvantage: number; // Rating points added to the first-moving side in expected scores of matches with a `side` (default 0)
+    clock: Clock; // Source of the current time, used when no "as of" date is given
+    validationMode: ValidationMode; // 'strict' throws on invalid matches, 'lenient' skips and reports them (default)
+    onWarning?: (warning: RatingWarning) => void; // Called for each match skipped in lenient mode
 }
\ No newline at end of file
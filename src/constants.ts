@@ -1,6 +1,7 @@
 export const INITIAL_RATING = 1500 as const;
 export const INITIAL_DEVIATION = 350 as const;
 export const INITIAL_DEVIATION_CEILING = 350 as const;
+export const DEFAULT_SCALE_SPREAD = 400 as const;
 
 export const INITIAL_INACTIVITY = 0.5 as const;
 export const INITIAL_INACTIVITY_TIMEUNIT = "MONTHS" as const;
@@ -8,3 +9,11 @@ export const INITIAL_INACTIVITY_TIMEUNIT = "MONTHS" as const;
 export const LOSS = 0.0 as const;
 export const DRAW = 0.5 as const;
 export const WIN = 1.0 as const;
+
+export const INITIAL_VOLATILITY = 0.06 as const;
+export const DEFAULT_TAU = 0.5 as const;
+export const DEFAULT_CONVERGENCE_TOLERANCE = 0.000001 as const;
+export const GLICKO2_SCALE = 173.7178 as const;
+
+export const SNAPSHOT_SCHEMA = "glicko-ts" as const;
+export const SNAPSHOT_VERSION = 1 as const;
@@ -0,0 +1,61 @@
+/**
+ * Error classes thrown by the rating engines. Every error carries the offending field and value.
+ */
+
+export class GlickoValidationError extends Error {
+    readonly code: string = 'INVALID_INPUT';
+
+    constructor(readonly field: string, readonly value: unknown, message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/** A configuration value is out of range. */
+export class InvalidConfigError extends GlickoValidationError {
+    readonly code = 'INVALID_CONFIG';
+}
+
+/** A match score is not a number in [0, 1]. */
+export class InvalidScoreError extends GlickoValidationError {
+    readonly code = 'INVALID_SCORE';
+}
+
+/** A rating is NaN or infinite. */
+export class InvalidRatingError extends GlickoValidationError {
+    readonly code = 'INVALID_RATING';
+}
+
+/** A rating deviation is not a positive, finite number. */
+export class InvalidRatingDeviationError extends GlickoValidationError {
+    readonly code = 'INVALID_RD';
+}
+
+/** A match is dated after the date the update is computed as of. */
+export class FutureMatchError extends GlickoValidationError {
+    readonly code = 'FUTURE_MATCH';
+}
+
+/** An imported file could not be parsed. `line` is the 1-based line the problem was found on. */
+export class ImportParseError extends GlickoValidationError {
+    readonly code = 'PARSE_ERROR';
+
+    constructor(readonly line: number, field: string, value: unknown, message: string) {
+        super(field, value, `Line ${line}: ${message}`);
+    }
+}
+
+/** A streamed match belongs to a rating period that has already been closed. */
+export class LateMatchError extends GlickoValidationError {
+    readonly code = 'LATE_MATCH';
+}
+
+/** A command-line argument is missing, unknown or malformed. */
+export class CommandLineError extends GlickoValidationError {
+    readonly code = 'INVALID_ARGUMENT';
+}
+
+/** A serialized snapshot is malformed or cannot be migrated. `field` is the path of the offending value. */
+export class SnapshotError extends GlickoValidationError {
+    readonly code = 'INVALID_SNAPSHOT';
+}
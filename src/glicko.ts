@@ -6,57 +6,159 @@
  */
 
 import { Player } from './interfaces/player';
-import { Match } from './interfaces/match';
+import { Match, MatchSide } from './interfaces/match';
+import { Opponent } from './interfaces/opponent';
+import { RatingEngine } from './interfaces/rating-engine';
+import { RatingStore, RatingStoreReader } from './interfaces/rating-store';
+import { ProcessGameResultsOptions } from './interfaces/process-options';
+import { MatchPrediction, PredictionOptions, SeriesPrediction } from './interfaces/prediction';
+import { ProcessGameResultsWithWarnings } from './interfaces/validation';
+import { RatingExplanation } from './interfaces/explanation';
+import { EloPlayer, ScaleParameters } from './interfaces/rating-scale';
 import { MathUtils } from './utils/math-utils';
+import { DateUtils } from './utils/date-utils';
+import { MatchValidation } from './utils/match-validation';
+import { RatingSafeguards } from './utils/rating-safeguards';
+import { Precision } from './utils/precision';
+import { systemClock } from './utils/clock';
 import { GlickoConfig } from './config/glicko_config';
+import { GlickoValidationError, InvalidConfigError, InvalidRatingDeviationError, InvalidRatingError } from './errors';
+import { RatingScale } from './rating-scale';
+import {
+    DEFAULT_SCALE_SPREAD,
+    INITIAL_DEVIATION,
+    INITIAL_DEVIATION_CEILING,
+    INITIAL_INACTIVITY,
+    INITIAL_RATING,
+} from './constants';
 
-export class Glicko {
+export class Glicko implements RatingEngine {
     private config: GlickoConfig;
 
 
     /**
      * Creates an instance of the Glicko rating system calculator.
      * @param {Partial<GlickoConfig>} [config] Optional configuration settings.
+     * @throws {InvalidConfigError} If a configuration value is out of range.
      */
     constructor(config?: Partial<GlickoConfig>) {
-        const defaultConfig = this.defaultConfig();
-        this.config = { ...defaultConfig, ...config };
-        this.config.q = defaultConfig.q;
+        if (config?.q !== undefined && !(config.q > 0 && Number.isFinite(config.q))) {
+            throw new InvalidConfigError('q', config.q, "q must be a positive number.");
+        }
+        // q is derived from the spread; a q given on its own sets the spread instead.
+        const scaleCenter = config?.scaleCenter ?? INITIAL_RATING;
+        const scaleSpread = config?.scaleSpread ?? (config?.q !== undefined ? Math.log(10) / config.q : DEFAULT_SCALE_SPREAD);
+        if (!Number.isFinite(scaleCenter)) {
+            throw new InvalidConfigError('scaleCenter', scaleCenter, "scaleCenter must be a finite number.");
+        }
+        if (!Number.isFinite(scaleSpread) || scaleSpread <= 0) {
+            throw new InvalidConfigError('scaleSpread', scaleSpread, "scaleSpread must be a positive number.");
+        }
+        const scale = new RatingScale(scaleCenter, scaleSpread);
+        this.config = { ...this.defaultConfig(scale), ...config, scaleCenter: scale.center, scaleSpread: scale.spread, q: scale.q };
+        if (config?.q !== undefined && Math.abs(config.q - scale.q) > 1e-12 * scale.q) {
+            throw new InvalidConfigError('q', config.q, "q must equal ln(10) / scaleSpread; set only one of them.");
+        }
 
         if (this.config.initialRating < 0) {
-            throw new Error("initialRating must be non-negative.");
+            throw new InvalidConfigError('initialRating', this.config.initialRating, "initialRating must be non-negative.");
         }
         if (this.config.initialRD < 0) {
-            throw new Error("initialRD must be non-negative.");
+            throw new InvalidConfigError('initialRD', this.config.initialRD, "initialRD must be non-negative.");
         }
         if (this.config.inactivityConstant < 0) {
-            throw new Error("inactivityConstant must be non-negative.");
+            throw new InvalidConfigError('inactivityConstant', this.config.inactivityConstant, "inactivityConstant must be non-negative.");
         }
         if (this.config.rdCeiling < 0) {
-            throw new Error("rdCeiling must be non-negative.");
+            throw new InvalidConfigError('rdCeiling', this.config.rdCeiling, "rdCeiling must be non-negative.");
         }
         if (this.config.daysPerRatingPeriod <= 0) {
-            throw new Error("daysPerRatingPeriod must be positive.");
+            throw new InvalidConfigError('daysPerRatingPeriod', this.config.daysPerRatingPeriod, "daysPerRatingPeriod must be positive.");
         }
         if (this.config.roundingPrecision < 0 || !Number.isInteger(this.config.roundingPrecision)) {
-            throw new Error("roundingPrecision must be a non-negative integer.");
+            throw new InvalidConfigError('roundingPrecision', this.config.roundingPrecision, "roundingPrecision must be a non-negative integer.");
         }
+        if (!['half-up', 'half-even', 'truncate'].includes(this.config.roundingMode)) {
+            throw new InvalidConfigError('roundingMode', this.config.roundingMode, "roundingMode must be 'half-up', 'half-even' or 'truncate'.");
+        }
+        if (this.config.validationMode !== 'strict' && this.config.validationMode !== 'lenient') {
+            throw new InvalidConfigError('validationMode', this.config.validationMode, "validationMode must be 'strict' or 'lenient'.");
+        }
+        if (!Number.isFinite(this.config.firstMoveAdvantage)) {
+            throw new InvalidConfigError('firstMoveAdvantage', this.config.firstMoveAdvantage, "firstMoveAdvantage must be a finite number.");
+        }
+        RatingSafeguards.validateConfig(this.config, this.config.rdCeiling);
     }
 
     /**
     * Provides the default configuration values for the Glicko system.
+    * The initial rating defaults to the scale's center, and the rating-point defaults (initial RD, RD ceiling and
+    * inactivity constant) are scaled by spread / 400, so a wider scale starts from the same relative uncertainty.
+    * @param {RatingScale} scale The resolved rating scale.
     * @returns {GlickoConfig} The default configuration.
     * @private
     */
-    private defaultConfig(): GlickoConfig {
+    private defaultConfig(scale: RatingScale): GlickoConfig {
+        const ratio = scale.spread / DEFAULT_SCALE_SPREAD;
         return {
-            initialRating: 1500,
-            initialRD: 350,
-            inactivityConstant: 0.5,
-            rdCeiling: 350,
-            q: Math.log(10) / 400,
+            initialRating: scale.center,
+            initialRD: INITIAL_DEVIATION * ratio,
+            inactivityConstant: INITIAL_INACTIVITY * ratio,
+            rdCeiling: INITIAL_DEVIATION_CEILING * ratio,
+            q: scale.q,
+            scaleCenter: scale.center,
+            scaleSpread: scale.spread,
             daysPerRatingPeriod: 30,
             roundingPrecision: 2, // Default rounding precision for ratings and RD
+            roundingMode: 'half-up',
+            firstMoveAdvantage: 0,
+            clock: systemClock,
+            validationMode: 'lenient',
+        };
+    }
+
+    /**
+     * Returns the resolved configuration (defaults merged with overrides).
+     * @returns {Readonly<GlickoConfig>} The active configuration.
+     */
+    getConfig(): Readonly<GlickoConfig> {
+        return { ...this.config };
+    }
+
+    /**
+     * Returns the engine's rating scale, for conversions to Elo, other house scales or the Glicko-2 internal scale.
+     * @returns {RatingScale} The scale given by `scaleCenter` and `scaleSpread`.
+     */
+    getScale(): RatingScale {
+        return new RatingScale(this.config.scaleCenter, this.config.scaleSpread);
+    }
+
+    /**
+     * Seeds a player from an existing Elo rating, for migrating an Elo ladder.
+     * The rating is converted from the Elo scale to this engine's scale. The RD starts at `initialRD` and shrinks with
+     * the number of games behind the Elo rating, as if each had been an even game against a settled opponent
+     * (g = 1, E = 0.5, so each adds q^2 / 4 to 1 / RD^2): RD = 1 / sqrt(1 / initialRD^2 + n * q^2 / 4).
+     * The result is kept between `minRD` (if set) and `rdCeiling`.
+     * @param {EloPlayer} player The Elo rating and number of games played.
+     * @param {Partial<ScaleParameters>} [eloScale] The Elo ladder's scale (default center 1500, spread 400).
+     * @returns {Player} The seeded player.
+     * @throws {InvalidRatingError} If the Elo rating is not finite.
+     * @throws {GlickoValidationError} If `gamesPlayed` is negative.
+     */
+    seedFromElo(player: EloPlayer, eloScale?: Partial<ScaleParameters>): Player {
+        if (!Number.isFinite(player.rating)) {
+            throw new InvalidRatingError('rating', player.rating, `Elo rating must be a finite number: ${player.rating}`);
+        }
+        if (!(player.gamesPlayed >= 0)) {
+            throw new GlickoValidationError('gamesPlayed', player.gamesPlayed, "gamesPlayed cannot be negative.");
+        }
+        const elo = new RatingScale(eloScale?.center ?? INITIAL_RATING, eloScale?.spread ?? DEFAULT_SCALE_SPREAD);
+        const { q, initialRD, rdCeiling, minRD } = this.config;
+        const rd = 1 / Math.sqrt(1 / Math.pow(initialRD, 2) + player.gamesPlayed * Math.pow(q, 2) / 4);
+        return {
+            id: player.id,
+            ...this.display({ rating: elo.convertRating(player.rating, this.getScale()), rd: Math.min(Math.max(rd, minRD ?? 0), rdCeiling) }),
+            lastPlayedMatch: player.lastPlayedMatch,
         };
     }
 
@@ -67,14 +169,11 @@ export class Glicko {
    */
     initializeNewPlayer(overrides?: Partial<Player>): Player {
         return {
-            rating: MathUtils.roundToDecimalPlaces(
-                overrides?.rating ?? this.config.initialRating,
-                this.config.roundingPrecision
-            ),
-            rd: MathUtils.roundToDecimalPlaces(
-                overrides?.rd ?? this.config.initialRD,
-                this.config.roundingPrecision
-            ),
+            id: overrides?.id,
+            ...this.display({
+                rating: overrides?.rating ?? this.config.initialRating,
+                rd: overrides?.rd ?? this.config.initialRD,
+            }),
             lastPlayedMatch: overrides?.lastPlayedMatch,
         };
     }
@@ -85,60 +184,72 @@ export class Glicko {
   * @param {Player} player The player's state *before* the inactivity period.
   * @param {number} daysSinceLastActive The number of days since the player's last rated match.
   * @returns {Player} A new Player object with the potentially updated RD.
-  * @throws {Error} If daysSinceLastActive is negative.
+  * @throws {GlickoValidationError} If daysSinceLastActive is negative.
   */
     updateRDForInactivity(player: Player, daysSinceLastActive: number): Player {
-        if (daysSinceLastActive < 0) { throw new Error("Days since last active cannot be negative."); }
+        if (daysSinceLastActive < 0) {
+            throw new GlickoValidationError('daysSinceLastActive', daysSinceLastActive, "Days since last active cannot be negative.");
+        }
         if (!player.lastPlayedMatch) { return { ...player }; }
+        const start = this.resolve(player);
         const periodsSinceLastActivity = daysSinceLastActive / this.config.daysPerRatingPeriod;
         const newRd = Math.min(
-            Math.sqrt(Math.pow(player.rd, 2) + Math.pow(this.config.inactivityConstant, 2) * periodsSinceLastActivity),
+            Math.sqrt(Math.pow(start.rd, 2) + Math.pow(this.config.inactivityConstant, 2) * periodsSinceLastActivity),
             this.config.rdCeiling
         );
-        return { ...player, rd: MathUtils.roundToDecimalPlaces(newRd, this.config.roundingPrecision) };
+        return { ...player, ...this.display({ rating: start.rating, rd: newRd }) };
+    }
+
+    /**
+     * Returns the days of inactivity applied before rating a player who competes in a period.
+     * In Glicko-1 every elapsed day counts, since the rating update itself does not increase RD (step 1 of Glickman's algorithm).
+     * @param {number} daysSinceLastActive The number of days since the player's last rated match.
+     * @returns {number} The same number of days.
+     */
+    preRatingInactivityDays(daysSinceLastActive: number): number {
+        return daysSinceLastActive;
     }
 
     /**
     * Calculates the expected outcome (E) of a match for the player against an opponent.
     * Represents the player's expected score (roughly, probability of winning) based on ratings and RDs.
-    * Formula: E = 1 / (1 + 10^(-g(RD_opp)*(r - r_opp)/400))
+    * Formula: E = 1 / (1 + 10^(-g(RD_opp)*(r - r_opp + A)/400)), where A is the player's side advantage
     * @param {number} playerRating Player's rating (r).
     * @param {number} opponentRating Opponent's rating (r_opp).
     * @param {number} opponentRd Opponent's RD (RD_opp).
+    * @param {number} [advantage] The player's side advantage in rating points (A, default 0).
     * @returns {number} Expected outcome for the player (0 to 1).
     * @private
     */
-    private calculateExpectedOutcome(playerRating: number, opponentRating: number, opponentRd: number): number {
+    private calculateExpectedOutcome(playerRating: number, opponentRating: number, opponentRd: number, advantage = 0): number {
         const g_opp = MathUtils.g(opponentRd, this.config.q);
-        const exponent = -g_opp * (playerRating - opponentRating) * this.config.q;
+        const exponent = -g_opp * (playerRating - opponentRating + advantage) * this.config.q;
         return 1 / (1 + Math.exp(exponent));
     }
 
     /**
     * Calculates the sum of factors related to the expected variance of match outcomes within a rating period.
     * This sum quantifies the amount of information gained from the matches played, which influences the change in Rating Deviation (RD).
-    * Formula: sum[ g(opponent_RD)^2 * E * (1-E) ]
+    * Formula: sum[ w * g(opponent_RD)^2 * E * (1-E) ], where w is the match weight (default 1)
     * A higher value indicates more information was gained, contributing to a larger RD decrease.
+    * Matches against opponents with non-positive RD are skipped (`processGameResults` reports them before getting here).
     * @param {number} playerRating Rating of the player at the start of the period.
     * @param {number} playerRd RD of the player at the start of the period.
     * @param {Match[]} matchs Matches played during the rating period.
     * @returns {number} The calculated sum. Returns 0 if matchs is empty/invalid.
-    * @throws {Error} If playerRd is not positive.
+    * @throws {InvalidRatingDeviationError} If playerRd is not positive.
     * @private
     */
     private sumMatchVarianceFactors(playerRating: number, playerRd: number, matchs: Match[]): number {
-        if (playerRd <= 0) { throw new Error("Player RD must be positive for calculations."); }
+        if (playerRd <= 0) { throw new InvalidRatingDeviationError('rd', playerRd, "Player RD must be positive for calculations."); }
 
         let sum = 0;
         for (const match of matchs) {
             const opponent = match.opponent;
-            if (opponent.rd <= 0) {
-                console.warn(`Skipping match in variance factor sum due to non-positive opponent RD: ${opponent.rd}`);
-                continue;
-            }
-            const E = this.calculateExpectedOutcome(playerRating, opponent.rating, opponent.rd);
+            if (opponent.rd <= 0) { continue; }
+            const E = this.calculateExpectedOutcome(playerRating, opponent.rating, opponent.rd, this.sideAdvantage(match.side));
             const g_opp = MathUtils.g(opponent.rd, this.config.q);
-            sum += Math.pow(g_opp, 2) * E * (1 - E);
+            sum += (match.weight ?? 1) * Math.pow(g_opp, 2) * E * (1 - E);
         }
         return sum;
     }
@@ -147,29 +258,27 @@ export class Glicko {
      * Calculates the sum of weighted differences between actual match scores and expected scores.
      * This sum represents overall performance relative to expectation, adjusted for opponent RD.
      * It's the primary factor determining the rating change direction and magnitude.
-     * Formula: sum[ g(opponent_RD) * (Actual_Score - Expected_Score) ]
+     * Formula: sum[ w * g(opponent_RD) * (Actual_Score - Expected_Score) ], where w is the match weight (default 1)
      * A positive sum indicates better-than-expected performance (rating increases); negative indicates worse (rating decreases).
+     * Matches against opponents with non-positive RD are skipped.
      * @param {number} playerRating Rating of the player at the start of the period.
      * @param {number} playerRd RD of the player at the start of the period.
      * @param {Match[]} matchs Matches played during the rating period.
      * @returns {number} The calculated sum. Returns 0 if matchs is empty/invalid.
-     * @throws {Error} If playerRd is not positive.
+     * @throws {InvalidRatingDeviationError} If playerRd is not positive.
      * @private
      */
     private sumWeightedScorePerformance(playerRating: number, playerRd: number, matchs: Match[]): number {
-        if (playerRd <= 0) { throw new Error("Player RD must be positive for calculations."); }
+        if (playerRd <= 0) { throw new InvalidRatingDeviationError('rd', playerRd, "Player RD must be positive for calculations."); }
 
         let sum = 0;
         for (const match of matchs) {
             const opponent = match.opponent;
             const score = match.score;
-            if (opponent.rd <= 0) {
-                console.warn(`Skipping match in weighted score sum due to non-positive opponent RD: ${opponent.rd}`);
-                continue;
-            }
-            const E = this.calculateExpectedOutcome(playerRating, opponent.rating, opponent.rd);
+            if (opponent.rd <= 0) { continue; }
+            const E = this.calculateExpectedOutcome(playerRating, opponent.rating, opponent.rd, this.sideAdvantage(match.side));
             const g_opp = MathUtils.g(opponent.rd, this.config.q);
-            sum += g_opp * (score - E);
+            sum += (match.weight ?? 1) * g_opp * (score - E);
         }
         return sum;
     }
@@ -198,11 +307,11 @@ export class Glicko {
     * @param {number} initialRd Player's RD at the start of the period.
     * @param {number} matchVarianceFactorSum Sum quantifying information gain from matches.
     * @returns {number} The new rating deviation (unrounded). Returns initialRd if no info gained.
-    * @throws {Error} If initialRd is not positive.
+    * @throws {InvalidRatingDeviationError} If initialRd is not positive.
     * @private
     */
     private calculateNewRD(initialRd: number, matchVarianceFactorSum: number): number {
-        if (initialRd <= 0) { throw new Error("Initial RD must be positive."); }
+        if (initialRd <= 0) { throw new InvalidRatingDeviationError('rd', initialRd, "Initial RD must be positive."); }
         if (matchVarianceFactorSum <= 0) { return initialRd; }
         const qSquared = Math.pow(this.config.q, 2);
         const initialRdSquaredInverse = 1 / Math.pow(initialRd, 2);
@@ -216,47 +325,63 @@ export class Glicko {
     * This is the main public method used to calculate rating updates after a set of games representing one period.
     *
     * The process involves these steps:
-    * 1. Optionally updates the player's RD based on inactivity since their last known activity.
+    * 1. Updates the player's RD based on inactivity since their last known activity (given, or derived from match dates).
     * 2. Calculates intermediate factors based on the match outcomes during the period compared to expectations.
     * 3. Computes the new RD' based on the RD at the start of the period and the information gained from matches.
     * 4. Computes the new Rating' based on the rating at the start of the period, the performance during the period, and the new RD'.
-    * 5. Returns the updated player state, including the new rating, new RD (rounded), and an updated `lastPlayedMatch` timestamp.
+    * 5. Applies the configured rating stability limits (`minRD`, `maxRatingChangePerPeriod`, `ratingFloor`, `peakFloorOffset`).
+    * 6. Returns the updated player state, including the new rating, new RD (rounded), and `lastPlayedMatch` set to the latest match date.
     *
     * @param {Player} player The player's state (rating, RD, lastPlayedMatch) *before* the start of this rating period.
     * @param {Match[]} matchs An array of all matches the player participated in *during* this rating period.
     * Each match object should contain the opponent's state (at the time of the match, or start of period)
     * and the score achieved by the player (e.g., 1=win, 0.5=draw, 0=loss).
-    * @param {number} [daysSinceLastActive] Optional: The number of days that elapsed between the `player.lastPlayedMatch` date
-    * (from the input `player` object) and the *start* of this rating period.
-    * If provided and greater than 0, the player's RD will be updated for
-    * inactivity *before* processing the matches in this period.
+    * @param {number | ProcessGameResultsOptions} [options] Optional: either the number of days that elapsed between the
+    * `player.lastPlayedMatch` date and the *start* of this rating period, or an options object with
+    * `daysSinceLastActive` and/or an `asOf` date. When the days are not given, they are derived from
+    * `player.lastPlayedMatch` and the earliest `Match.datePlayed` (or `asOf`, defaulting to the configured clock,
+    * when there are no matches). The player's RD is updated for inactivity *before* processing the matches.
     * @returns {Player} The updated state of the player after processing the rating period, with updated rating, RD,
-    * and `lastPlayedMatch` set to the current time of processing. If no matches are provided
-    * (matchs array is empty or null), it returns the player's state after only the potential
-    * inactivity update (and `lastPlayedMatch` is NOT updated in this case).
-    * @throws {Error} Can throw if internal calculations encounter issues (e.g., non-positive RD input to helpers)
-    * or if `daysSinceLastActive` is negative (via `updateRDForInactivity`).
+    * and `lastPlayedMatch` set to the latest `datePlayed` of the matches (falling back to `asOf` if no match has
+    * a valid date). If no valid matches are provided (matchs array is empty, null, or every match was skipped), it returns the player's state
+    * after only the inactivity update (and `lastPlayedMatch` is NOT updated in this case).
+    * @throws {GlickoValidationError} If the player's rating or RD is invalid, if `daysSinceLastActive` is negative,
+    * or, in strict mode, if a match is invalid (see `processGameResultsWithWarnings`).
     */
-    processGameResults(player: Player, matchs: Match[], daysSinceLastActive?: number): Player {
-        let playerAtPeriodStart = { ...player };
+    processGameResults(player: Player, matchs: Match[], options?: number | ProcessGameResultsOptions): Player {
+        return this.processGameResultsWithWarnings(player, matchs, options).player;
+    }
 
-        if (daysSinceLastActive !== undefined && daysSinceLastActive > 0) {
-            playerAtPeriodStart = this.updateRDForInactivity(player, daysSinceLastActive);
-        }
+    /**
+    * Same as `processGameResults`, but also returns the matches skipped in lenient mode.
+    * A match is invalid if its score is outside [0, 1], the opponent's rating is not finite, the opponent's RD is not
+    * positive and finite, or it is dated after the as-of date. In strict mode the first invalid match throws the
+    * corresponding error; in lenient mode it is skipped, passed to `onWarning` and included in `warnings`.
+    * Skipped matches take no part in the update, including the derivation of inactivity and `lastPlayedMatch`.
+    * @param {Player} player The player's state *before* the start of this rating period.
+    * @param {Match[]} matchs Matches played during the rating period.
+    * @param {number | ProcessGameResultsOptions} [options] Optional inactivity days or options, as for `processGameResults`.
+    * @returns {ProcessGameResultsWithWarnings} The updated player, a warning for each skipped match and the safeguards applied.
+    * @throws {GlickoValidationError} As for `processGameResults`.
+    */
+    processGameResultsWithWarnings(player: Player, matchs: Match[], options?: number | ProcessGameResultsOptions): ProcessGameResultsWithWarnings {
+        const { processedAsOf, valid, warnings, playerAtPeriodStart, start } = this.preparePeriod(player, matchs, options);
 
-        const initialRating = playerAtPeriodStart.rating;
-        const initialRd = playerAtPeriodStart.rd;
+        const initialRating = start.rating;
+        const initialRd = start.rd;
 
-        if (!matchs || matchs.length === 0) {
-            return playerAtPeriodStart;
+        if (valid.length === 0) {
+            return { player: playerAtPeriodStart, warnings, safeguards: [] };
         }
 
+        MatchValidation.validatePlayer(playerAtPeriodStart);
+
         const matchVarianceFactorSum = this.sumMatchVarianceFactors(
-            initialRating, initialRd, matchs
+            initialRating, initialRd, valid
         );
 
         const weightedScorePerformanceSum = this.sumWeightedScorePerformance(
-            initialRating, initialRd, matchs
+            initialRating, initialRd, valid
         );
 
         const newRdUnrounded = this.calculateNewRD(initialRd, matchVarianceFactorSum);
@@ -265,10 +390,282 @@ export class Glicko {
             initialRating, newRdUnrounded, weightedScorePerformanceSum
         );
 
+        const guarded = RatingSafeguards.apply({ ...playerAtPeriodStart, ...start }, newRatingUnrounded, newRdUnrounded, this.config);
+
+        return {
+            player: {
+                id: playerAtPeriodStart.id,
+                ...this.display(guarded),
+                ...(guarded.peakRating !== undefined && { peakRating: this.round(guarded.peakRating) }),
+                lastPlayedMatch: DateUtils.latestMatchDate(valid) ?? processedAsOf
+            },
+            warnings,
+            safeguards: guarded.applied,
+        };
+    }
+
+    /**
+    * Resolves the as-of date, validates the matches and applies the inactivity update (step 1 of `processGameResults`).
+    * @param {Player} player The player's state *before* the start of this rating period.
+    * @param {Match[]} matchs Matches played during the rating period.
+    * @param {number | ProcessGameResultsOptions} [options] Optional inactivity days or options.
+    * @returns The as-of date, valid matches (with full-precision opponents) and their indices, warnings, inactivity days,
+    * the player's state at the start of the period and its full-precision rating and RD.
+    * @private
+    */
+    private preparePeriod(player: Player, matchs: Match[], options?: number | ProcessGameResultsOptions) {
+        const { daysSinceLastActive, asOf } = typeof options === 'number' ? { daysSinceLastActive: options, asOf: undefined } : options ?? {};
+        const processedAsOf = asOf ?? this.config.clock.now();
+        const { valid, validIndices, warnings } = MatchValidation.filterMatches(matchs, processedAsOf, this.config.validationMode);
+        warnings.forEach(warning => this.config.onWarning?.(warning));
+
+        const periodStart = DateUtils.earliestMatchDate(valid) ?? processedAsOf;
+        const inactiveDays = daysSinceLastActive ?? DateUtils.daysBetween(player.lastPlayedMatch, periodStart);
+
+        let playerAtPeriodStart = { ...player };
+
+        if (inactiveDays > 0) {
+            playerAtPeriodStart = this.updateRDForInactivity(player, inactiveDays);
+        }
+
         return {
-            rating: MathUtils.roundToDecimalPlaces(newRatingUnrounded, this.config.roundingPrecision),
-            rd: MathUtils.roundToDecimalPlaces(newRdUnrounded, this.config.roundingPrecision),
-            lastPlayedMatch: new Date()
+            processedAsOf,
+            valid: valid.map(match => ({ ...match, opponent: this.resolve(match.opponent) })),
+            validIndices,
+            warnings,
+            inactiveDays,
+            playerAtPeriodStart,
+            start: this.resolve(playerAtPeriodStart),
         };
     }
-}
\ No newline at end of file
+
+    /**
+    * Runs the same update as `processGameResults` and returns the full calculation trace instead of only the result:
+    * the inactivity-adjusted starting RD, each match's g(RD), expected score and contributions to d^2 and to the rating
+    * change, the final d^2, the values before safeguards and rounding, and the safeguards applied. The result is plain JSON, ready to store or render.
+    * @param {Player} player The player's state *before* the start of this rating period.
+    * @param {Match[]} matchs Matches played during the rating period.
+    * @param {number | ProcessGameResultsOptions} [options] Optional inactivity days or options, as for `processGameResults`.
+    * @returns {RatingExplanation} The calculation trace; `result` equals what `processGameResults` returns.
+    * @throws {GlickoValidationError} As for `processGameResults`.
+    */
+    explainGameResults(player: Player, matchs: Match[], options?: number | ProcessGameResultsOptions): RatingExplanation {
+        const { processedAsOf, valid, validIndices, warnings, inactiveDays, playerAtPeriodStart, start } = this.preparePeriod(player, matchs, options);
+        const initialRating = start.rating;
+        const initialRd = start.rd;
+        if (valid.length > 0) {
+            MatchValidation.validatePlayer(playerAtPeriodStart);
+        }
+
+        const breakdown = valid.map((match, i) => {
+            const { opponent, score } = match;
+            const weight = match.weight ?? 1;
+            const g = MathUtils.g(opponent.rd, this.config.q);
+            const advantage = this.sideAdvantage(match.side);
+            const expectedScore = this.calculateExpectedOutcome(initialRating, opponent.rating, opponent.rd, advantage);
+            return {
+                matchIndex: validIndices[i],
+                opponentRating: opponent.rating,
+                opponentRd: opponent.rd,
+                score,
+                weight,
+                advantage,
+                g,
+                expectedScore,
+                varianceContribution: weight * Math.pow(g, 2) * expectedScore * (1 - expectedScore),
+                performanceContribution: weight * g * (score - expectedScore),
+            };
+        });
+
+        const varianceFactorSum = valid.length > 0 ? this.sumMatchVarianceFactors(initialRating, initialRd, valid) : 0;
+        const performanceSum = valid.length > 0 ? this.sumWeightedScorePerformance(initialRating, initialRd, valid) : 0;
+        const newRd = valid.length > 0 ? this.calculateNewRD(initialRd, varianceFactorSum) : initialRd;
+        const newRating = this.calculateNewRating(initialRating, newRd, performanceSum);
+        const ratingChangeFactor = this.config.q * Math.pow(newRd, 2);
+
+        const guarded = valid.length > 0
+            ? RatingSafeguards.apply({ ...playerAtPeriodStart, ...start }, newRating, newRd, this.config)
+            : { rating: initialRating, rd: initialRd, applied: [] };
+
+        const lastPlayedMatch = valid.length > 0 ? DateUtils.latestMatchDate(valid) ?? processedAsOf : playerAtPeriodStart.lastPlayedMatch;
+
+        return {
+            playerId: player.id ?? null,
+            asOf: processedAsOf.toISOString(),
+            inactivity: { days: inactiveDays, rdBefore: this.resolve(player).rd, rdAfter: initialRd },
+            start: { rating: initialRating, rd: initialRd },
+            matches: breakdown.map(entry => ({ ...entry, ratingChange: ratingChangeFactor * entry.performanceContribution })),
+            skipped: warnings.map(warning => ({ ...warning, value: warning.value instanceof Date ? warning.value.toISOString() : warning.value })),
+            varianceFactorSum,
+            dSquared: varianceFactorSum > 0 ? 1 / (Math.pow(this.config.q, 2) * varianceFactorSum) : null,
+            performanceSum,
+            unrounded: { rating: newRating, rd: newRd, ratingChange: newRating - initialRating },
+            safeguards: guarded.applied,
+            result: {
+                rating: valid.length > 0 ? this.round(guarded.rating) : playerAtPeriodStart.rating,
+                rd: valid.length > 0 ? this.round(guarded.rd) : playerAtPeriodStart.rd,
+                lastPlayedMatch: lastPlayedMatch && DateUtils.isValidDate(lastPlayedMatch) ? lastPlayedMatch.toISOString() : null,
+            },
+        };
+    }
+
+    /**
+    * Projects the RD a player would have after playing the given opponents in one rating period.
+    * The new RD depends only on who is played, not on the results, so this measures how much information the games would yield.
+    * @param {Opponent} player The player's current rating and RD.
+    * @param {Opponent[]} opponents The opponents the player would face.
+    * @returns {number} The projected RD (unrounded).
+    * @throws {InvalidRatingDeviationError} If the player's RD is not positive.
+    */
+    projectRD(player: Opponent, opponents: Opponent[]): number {
+        const start = this.resolve(player);
+        const matchs: Match[] = opponents.map(opponent => ({ player, opponent: this.resolve(opponent), score: 0, datePlayed: new Date(0) }));
+        const matchVarianceFactorSum = this.sumMatchVarianceFactors(start.rating, start.rd, matchs);
+        return this.calculateNewRD(start.rd, matchVarianceFactorSum);
+    }
+
+    /**
+    * Predicts the outcome of a game between two players, from the first player's perspective.
+    * Unlike the per-match expectation used in rating updates, the uncertainty of *both* players is accounted for
+    * by combining their RDs: E = 1 / (1 + 10^(-g(sqrt(RD_a^2 + RD_b^2))*(r_a - r_b + A)/400)), where A is the first
+    * player's side advantage (`firstMoveAdvantage` for `side: 'first'`, its negative for `'second'`, otherwise 0).
+    *
+    * With a `drawRate`, win/draw/loss probabilities follow the Davidson model, calibrated so that two equally
+    * rated players draw with probability `drawRate`. The confidence interval gives the expected score at the
+    * low and high ends of the rating difference's uncertainty (normal with variance RD_a^2 + RD_b^2).
+    * @param {Opponent} player The first player.
+    * @param {Opponent} opponent The second player.
+    * @param {PredictionOptions} [options] Draw modeling, confidence level and the first player's side.
+    * @returns {MatchPrediction} The prediction.
+    * @throws {GlickoValidationError} If `drawRate` or `confidenceLevel` is out of range.
+    */
+    predict(player: Opponent, opponent: Opponent, options?: PredictionOptions): MatchPrediction {
+        const drawRate = options?.drawRate ?? 0;
+        const confidenceLevel = options?.confidenceLevel ?? 0.95;
+        if (drawRate < 0 || drawRate >= 1) { throw new GlickoValidationError('drawRate', drawRate, "drawRate must be in the range [0, 1)."); }
+        if (confidenceLevel <= 0 || confidenceLevel >= 1) { throw new GlickoValidationError('confidenceLevel', confidenceLevel, "confidenceLevel must be strictly between 0 and 1."); }
+
+        const a = this.resolve(player);
+        const b = this.resolve(opponent);
+        const ratingDifference = a.rating - b.rating + this.sideAdvantage(options?.side);
+        const combinedRd = Math.sqrt(Math.pow(a.rd, 2) + Math.pow(b.rd, 2));
+        const expectedScore = 1 / (1 + Math.exp(-MathUtils.g(combinedRd, this.config.q) * ratingDifference * this.config.q));
+
+        const { win, draw, loss } = MathUtils.davidsonProbabilities(expectedScore, drawRate);
+
+        const z = MathUtils.normalQuantile(0.5 + confidenceLevel / 2);
+        const logistic = (difference: number) => 1 / (1 + Math.exp(-difference * this.config.q));
+
+        return {
+            expectedScore,
+            winProbability: win,
+            drawProbability: draw,
+            lossProbability: loss,
+            confidenceInterval: {
+                level: confidenceLevel,
+                lower: logistic(ratingDifference - z * combinedRd),
+                upper: logistic(ratingDifference + z * combinedRd),
+            },
+        };
+    }
+
+    /**
+    * Predicts the outcome of a best-of-N series between two players, from the first player's perspective.
+    * Drawn games are treated as replayed, so each counted game is won with probability P(win) / (P(win) + P(loss)).
+    * The series is won by the first player to win ceil(N/2) games.
+    * @param {Opponent} player The first player.
+    * @param {Opponent} opponent The second player.
+    * @param {number} bestOf The maximum number of games; must be a positive odd integer.
+    * @param {PredictionOptions} [options] Draw modeling and side, as for `predict`; the side applies to every game.
+    * @returns {SeriesPrediction} The series prediction.
+    * @throws {GlickoValidationError} If `bestOf` is not a positive odd integer.
+    */
+    predictSeries(player: Opponent, opponent: Opponent, bestOf: number, options?: PredictionOptions): SeriesPrediction {
+        if (bestOf <= 0 || !Number.isInteger(bestOf) || bestOf % 2 === 0) {
+            throw new GlickoValidationError('bestOf', bestOf, "bestOf must be a positive odd integer.");
+        }
+        const game = this.predict(player, opponent, options);
+        const p = game.winProbability / (game.winProbability + game.lossProbability);
+        const winsNeeded = (bestOf + 1) / 2;
+
+        // Sum over the number of games lost (j) before the deciding win: C(winsNeeded - 1 + j, j) * p^winsNeeded * (1-p)^j
+        let winProbability = 0;
+        let combinations = 1;
+        for (let j = 0; j < winsNeeded; j++) {
+            if (j > 0) {
+                combinations = combinations * (winsNeeded - 1 + j) / j;
+            }
+            winProbability += combinations * Math.pow(p, winsNeeded) * Math.pow(1 - p, j);
+        }
+
+        return {
+            bestOf,
+            gameWinProbability: p,
+            winProbability,
+            lossProbability: 1 - winProbability,
+        };
+    }
+
+    /**
+    * Returns the rating points added to a player's side of a game: `firstMoveAdvantage` moving first, its negative
+    * moving second and 0 when the side is not known.
+    * @private
+    */
+    private sideAdvantage(side?: MatchSide): number {
+        if (side === 'first') { return this.config.firstMoveAdvantage; }
+        if (side === 'second') { return -this.config.firstMoveAdvantage; }
+        return 0;
+    }
+
+    /**
+    * Rounds a value for display with the configured precision and mode.
+    * @private
+    */
+    private round(value: number): number {
+        return MathUtils.roundToDecimalPlaces(value, this.config.roundingPrecision, this.config.roundingMode);
+    }
+
+    /**
+    * Builds the display rating and RD, and the full-precision `precise` values, of a player state.
+    * @private
+    */
+    private display(value: Opponent): Pick<Player, 'rating' | 'rd' | 'precise'> {
+        return Precision.display(value, this.config.roundingPrecision, this.config.roundingMode);
+    }
+
+    /**
+    * Returns the full-precision rating and RD of a player or opponent (see `Player.precise`).
+    * @private
+    */
+    private resolve(player: Opponent & { precise?: Opponent }): Opponent {
+        return Precision.resolve(player, this.config.roundingPrecision, this.config.roundingMode);
+    }
+
+    /**
+    * Reads a player from a rating store, initializing a new player with that id if none is stored.
+    * The new player is not written back; use `processGameResultsInStore` or `store.put` for that.
+    * @param {RatingStoreReader} store The store (or transaction) to read from.
+    * @param {string} id The player's id.
+    * @returns {Promise<Player>} The stored player, or a new player carrying the id.
+    */
+    async loadPlayer(store: RatingStoreReader, id: string): Promise<Player> {
+        return (await store.get(id)) ?? this.initializeNewPlayer({ id });
+    }
+
+    /**
+    * Reads a player from the store, processes their rating period and writes the result back, in one transaction.
+    * @param {RatingStore} store The store holding the player.
+    * @param {string} id The player's id.
+    * @param {Match[]} matchs Matches played by the player during the rating period.
+    * @param {number | ProcessGameResultsOptions} [options] Optional inactivity days or options, as for `processGameResults`.
+    * @returns {Promise<Player>} The updated, stored player.
+    */
+    async processGameResultsInStore(store: RatingStore, id: string, matchs: Match[], options?: number | ProcessGameResultsOptions): Promise<Player> {
+        return store.transaction(async tx => {
+            const player = await this.loadPlayer(tx, id);
+            const updated = this.processGameResults(player, matchs, options);
+            await tx.put(updated);
+            return updated;
+        });
+    }
+}
@@ -0,0 +1,415 @@
+/**
+ * Glicko-2 rating system implementation.
+ * Extends Glicko-1 with a per-player volatility (sigma) which measures how erratic a player's performances are.
+ * Players whose results swing a lot keep a higher volatility, so their rating reacts faster to new results.
+ * Ratings are stored on the familiar 1500/350 display scale and converted to the internal mu/phi scale for calculations.
+ */
+
+import { Player } from './interfaces/player';
+import { Match, MatchSide } from './interfaces/match';
+import { Opponent } from './interfaces/opponent';
+import { RatingEngine } from './interfaces/rating-engine';
+import { ProcessGameResultsOptions } from './interfaces/process-options';
+import { ProcessGameResultsWithWarnings } from './interfaces/validation';
+import { MathUtils } from './utils/math-utils';
+import { DateUtils } from './utils/date-utils';
+import { MatchValidation } from './utils/match-validation';
+import { RatingSafeguards } from './utils/rating-safeguards';
+import { Precision } from './utils/precision';
+import { systemClock } from './utils/clock';
+import { Glicko2Config } from './config/glicko2_config';
+import { GlickoValidationError, InvalidConfigError } from './errors';
+import {
+    DEFAULT_CONVERGENCE_TOLERANCE,
+    DEFAULT_TAU,
+    GLICKO2_SCALE,
+    INITIAL_DEVIATION,
+    INITIAL_DEVIATION_CEILING,
+    INITIAL_RATING,
+    INITIAL_VOLATILITY,
+} from './constants';
+
+/**
+ * A player's state expressed on the internal Glicko-2 scale.
+ */
+export interface Glicko2Rating {
+    mu: number;
+    phi: number;
+    sigma: number;
+}
+
+export class Glicko2 implements RatingEngine {
+    private config: Glicko2Config;
+
+    /**
+     * Creates an instance of the Glicko-2 rating system calculator.
+     * @param {Partial<Glicko2Config>} [config] Optional configuration settings.
+     * @throws {InvalidConfigError} If a configuration value is out of range.
+     */
+    constructor(config?: Partial<Glicko2Config>) {
+        this.config = { ...this.defaultConfig(), ...config };
+
+        if (this.config.initialRating < 0) {
+            throw new InvalidConfigError('initialRating', this.config.initialRating, "initialRating must be non-negative.");
+        }
+        if (this.config.initialRD < 0) {
+            throw new InvalidConfigError('initialRD', this.config.initialRD, "initialRD must be non-negative.");
+        }
+        if (this.config.initialVolatility <= 0) {
+            throw new InvalidConfigError('initialVolatility', this.config.initialVolatility, "initialVolatility must be positive.");
+        }
+        if (this.config.tau <= 0) {
+            throw new InvalidConfigError('tau', this.config.tau, "tau must be positive.");
+        }
+        if (this.config.convergenceTolerance <= 0) {
+            throw new InvalidConfigError('convergenceTolerance', this.config.convergenceTolerance, "convergenceTolerance must be positive.");
+        }
+        if (this.config.rdCeiling < 0) {
+            throw new InvalidConfigError('rdCeiling', this.config.rdCeiling, "rdCeiling must be non-negative.");
+        }
+        if (this.config.daysPerRatingPeriod <= 0) {
+            throw new InvalidConfigError('daysPerRatingPeriod', this.config.daysPerRatingPeriod, "daysPerRatingPeriod must be positive.");
+        }
+        if (this.config.roundingPrecision < 0 || !Number.isInteger(this.config.roundingPrecision)) {
+            throw new InvalidConfigError('roundingPrecision', this.config.roundingPrecision, "roundingPrecision must be a non-negative integer.");
+        }
+        if (!['half-up', 'half-even', 'truncate'].includes(this.config.roundingMode)) {
+            throw new InvalidConfigError('roundingMode', this.config.roundingMode, "roundingMode must be 'half-up', 'half-even' or 'truncate'.");
+        }
+        if (this.config.validationMode !== 'strict' && this.config.validationMode !== 'lenient') {
+            throw new InvalidConfigError('validationMode', this.config.validationMode, "validationMode must be 'strict' or 'lenient'.");
+        }
+        if (!Number.isFinite(this.config.firstMoveAdvantage)) {
+            throw new InvalidConfigError('firstMoveAdvantage', this.config.firstMoveAdvantage, "firstMoveAdvantage must be a finite number.");
+        }
+        RatingSafeguards.validateConfig(this.config, this.config.rdCeiling);
+    }
+
+    /**
+    * Provides the default configuration values for the Glicko-2 system.
+    * @returns {Glicko2Config} The default configuration.
+    * @private
+    */
+    private defaultConfig(): Glicko2Config {
+        return {
+            initialRating: INITIAL_RATING,
+            initialRD: INITIAL_DEVIATION,
+            initialVolatility: INITIAL_VOLATILITY,
+            tau: DEFAULT_TAU,
+            convergenceTolerance: DEFAULT_CONVERGENCE_TOLERANCE,
+            rdCeiling: INITIAL_DEVIATION_CEILING,
+            daysPerRatingPeriod: 30,
+            roundingPrecision: 2,
+            roundingMode: 'half-up',
+            firstMoveAdvantage: 0,
+            clock: systemClock,
+            validationMode: 'lenient',
+        };
+    }
+
+    /**
+     * Returns the resolved configuration (defaults merged with overrides).
+     * @returns {Readonly<Glicko2Config>} The active configuration.
+     */
+    getConfig(): Readonly<Glicko2Config> {
+        return { ...this.config };
+    }
+
+    /**
+     * Creates a new Player object with initial or overridden rating/RD/volatility values.
+     * @param {Partial<Player>} [overrides] Optional values to override defaults.
+     * @returns {Player} A new Player object.
+     */
+    initializeNewPlayer(overrides?: Partial<Player>): Player {
+        return {
+            id: overrides?.id,
+            ...this.display({
+                rating: overrides?.rating ?? this.config.initialRating,
+                rd: overrides?.rd ?? this.config.initialRD,
+            }),
+            volatility: overrides?.volatility ?? this.config.initialVolatility,
+            lastPlayedMatch: overrides?.lastPlayedMatch,
+        };
+    }
+
+    /**
+     * Converts a rating and RD from the display scale (1500/350) to the internal Glicko-2 scale.
+     * Formula: mu = (r - 1500) / 173.7178, phi = RD / 173.7178
+     * @param {Player} player The player (or opponent) on the display scale.
+     * @returns {Glicko2Rating} The equivalent mu/phi/sigma values.
+     */
+    toGlicko2Scale(player: Pick<Player, 'rating' | 'rd' | 'volatility'>): Glicko2Rating {
+        return {
+            mu: (player.rating - INITIAL_RATING) / GLICKO2_SCALE,
+            phi: player.rd / GLICKO2_SCALE,
+            sigma: player.volatility ?? this.config.initialVolatility,
+        };
+    }
+
+    /**
+     * Converts internal Glicko-2 values back to the display scale (1500/350). Values are not rounded.
+     * Formula: r = 173.7178 * mu + 1500, RD = 173.7178 * phi
+     * @param {Glicko2Rating} rating The internal mu/phi/sigma values.
+     * @returns {{ rating: number, rd: number, volatility: number }} The equivalent display-scale values.
+     */
+    fromGlicko2Scale(rating: Glicko2Rating): { rating: number; rd: number; volatility: number } {
+        return {
+            rating: rating.mu * GLICKO2_SCALE + INITIAL_RATING,
+            rd: rating.phi * GLICKO2_SCALE,
+            volatility: rating.sigma,
+        };
+    }
+
+    /**
+     * Updates a player's Rating Deviation (RD) based on inactivity.
+     * On the Glicko-2 scale, each idle rating period adds the player's volatility to their deviation:
+     * phi* = sqrt(phi^2 + periods * sigma^2), capped at the RD ceiling.
+     * @param {Player} player The player's state *before* the inactivity period.
+     * @param {number} daysSinceLastActive The number of days since the player's last rated match.
+     * @returns {Player} A new Player object with the potentially updated RD.
+     * @throws {GlickoValidationError} If daysSinceLastActive is negative.
+     */
+    updateRDForInactivity(player: Player, daysSinceLastActive: number): Player {
+        if (daysSinceLastActive < 0) {
+            throw new GlickoValidationError('daysSinceLastActive', daysSinceLastActive, "Days since last active cannot be negative.");
+        }
+        if (!player.lastPlayedMatch) { return { ...player }; }
+        const periodsSinceLastActivity = daysSinceLastActive / this.config.daysPerRatingPeriod;
+        const start = this.resolve(player);
+        const { phi, sigma } = this.toGlicko2Scale({ ...start, volatility: player.volatility });
+        const newPhi = Math.sqrt(Math.pow(phi, 2) + Math.pow(sigma, 2) * periodsSinceLastActivity);
+        const newRd = Math.min(newPhi * GLICKO2_SCALE, this.config.rdCeiling);
+        return { ...player, ...this.display({ rating: start.rating, rd: newRd }) };
+    }
+
+    /**
+     * Returns the days of inactivity applied before rating a player who competes in a period.
+     * The Glicko-2 update already adds one period of volatility (phi* = sqrt(phi^2 + sigma'^2), step 6 of Glickman's algorithm), so only the
+     * idle periods before it are applied up front.
+     * @param {number} daysSinceLastActive The number of days since the player's last rated match.
+     * @returns {number} The days beyond one rating period, or 0.
+     */
+    preRatingInactivityDays(daysSinceLastActive: number): number {
+        return Math.max(0, daysSinceLastActive - this.config.daysPerRatingPeriod);
+    }
+
+    /**
+     * Calculates the expected score E(mu, mu_j, phi_j) against a single opponent on the Glicko-2 scale.
+     * Formula: E = 1 / (1 + exp(-g(phi_j) * (mu - mu_j + a))), where a is the player's side advantage on the Glicko-2 scale
+     * @param {number} mu The player's rating on the Glicko-2 scale.
+     * @param {number} opponentMu The opponent's rating on the Glicko-2 scale.
+     * @param {number} opponentPhi The opponent's deviation on the Glicko-2 scale.
+     * @param {number} [advantage] The player's side advantage on the Glicko-2 scale (a, default 0).
+     * @returns {number} Expected outcome for the player (0 to 1).
+     * @private
+     */
+    private calculateExpectedOutcome(mu: number, opponentMu: number, opponentPhi: number, advantage = 0): number {
+        const g_opp = MathUtils.g(opponentPhi, 1);
+        return 1 / (1 + Math.exp(-g_opp * (mu - opponentMu + advantage)));
+    }
+
+    /**
+     * Returns a player's side advantage on the Glicko-2 scale: `firstMoveAdvantage / 173.7178` moving first,
+     * its negative moving second and 0 when the side is not known.
+     * @private
+     */
+    private sideAdvantage(side?: MatchSide): number {
+        if (side === 'first') { return this.config.firstMoveAdvantage / GLICKO2_SCALE; }
+        if (side === 'second') { return -this.config.firstMoveAdvantage / GLICKO2_SCALE; }
+        return 0;
+    }
+
+    /**
+     * Calculates the estimated variance (v) of the player's rating based only on game outcomes,
+     * together with the sum used for the estimated improvement (delta).
+     * Formulas: v = 1 / sum[ w_j * g(phi_j)^2 * E * (1-E) ], performanceSum = sum[ w_j * g(phi_j) * (s_j - E) ],
+     * where w_j is the match weight (default 1).
+     * Matches against opponents with non-positive RD are skipped.
+     * @param {number} mu The player's rating on the Glicko-2 scale.
+     * @param {Match[]} matchs Matches played during the rating period.
+     * @returns {{ variance: number, performanceSum: number }} v (Infinity if no usable matches) and the performance sum.
+     * @private
+     */
+    private computeVarianceAndPerformance(mu: number, matchs: Match[]): { variance: number; performanceSum: number } {
+        let varianceInverse = 0;
+        let performanceSum = 0;
+        for (const match of matchs) {
+            const opponent = match.opponent;
+            if (opponent.rd <= 0) { continue; }
+            const { mu: opponentMu, phi: opponentPhi } = this.toGlicko2Scale(opponent);
+            const E = this.calculateExpectedOutcome(mu, opponentMu, opponentPhi, this.sideAdvantage(match.side));
+            const g_opp = MathUtils.g(opponentPhi, 1);
+            const weight = match.weight ?? 1;
+            varianceInverse += weight * Math.pow(g_opp, 2) * E * (1 - E);
+            performanceSum += weight * g_opp * (match.score - E);
+        }
+        return {
+            variance: varianceInverse > 0 ? 1 / varianceInverse : Infinity,
+            performanceSum,
+        };
+    }
+
+    /**
+     * Determines the new volatility (sigma') using the Illinois variant of regula falsi,
+     * as described in step 5 of Glickman's Glicko-2 paper.
+     * @param {number} phi The player's deviation on the Glicko-2 scale.
+     * @param {number} sigma The player's current volatility.
+     * @param {number} variance The estimated variance v.
+     * @param {number} delta The estimated improvement in rating.
+     * @returns {number} The new volatility.
+     * @private
+     */
+    private calculateNewVolatility(phi: number, sigma: number, variance: number, delta: number): number {
+        const tau = this.config.tau;
+        const epsilon = this.config.convergenceTolerance;
+        const phiSquared = Math.pow(phi, 2);
+        const deltaSquared = Math.pow(delta, 2);
+        const a = Math.log(Math.pow(sigma, 2));
+
+        const f = (x: number): number => {
+            const ex = Math.exp(x);
+            const numerator = ex * (deltaSquared - phiSquared - variance - ex);
+            const denominator = 2 * Math.pow(phiSquared + variance + ex, 2);
+            return numerator / denominator - (x - a) / Math.pow(tau, 2);
+        };
+
+        let A = a;
+        let B: number;
+        if (deltaSquared > phiSquared + variance) {
+            B = Math.log(deltaSquared - phiSquared - variance);
+        } else {
+            let k = 1;
+            while (f(a - k * tau) < 0) {
+                k++;
+            }
+            B = a - k * tau;
+        }
+
+        let fA = f(A);
+        let fB = f(B);
+        while (Math.abs(B - A) > epsilon) {
+            const C = A + (A - B) * fA / (fB - fA);
+            const fC = f(C);
+            if (fC * fB <= 0) {
+                A = B;
+                fA = fB;
+            } else {
+                fA = fA / 2;
+            }
+            B = C;
+            fB = fC;
+        }
+
+        return Math.exp(A / 2);
+    }
+
+    /**
+     * Processes all matches for a player within a single rating period to update their Glicko-2 rating, RD and volatility.
+     * Mirrors `Glicko.processGameResults`, accepting the same `Player`/`Match` shapes.
+     *
+     * The process involves these steps:
+     * 1. Updates the player's RD based on inactivity since their last known activity (given, or derived from match dates),
+     *    leaving out the one period that step 4 adds through the new volatility.
+     * 2. Converts the player and opponents to the Glicko-2 scale and computes the estimated variance (v) and improvement (delta).
+     * 3. Determines the new volatility via the Illinois iteration.
+     * 4. Computes the new phi' and mu', then converts back to the display scale.
+     * 5. Applies the configured rating stability limits, as in `Glicko.processGameResults`.
+     *
+     * @param {Player} player The player's state *before* the start of this rating period.
+     * @param {Match[]} matchs An array of all matches the player participated in *during* this rating period.
+     * @param {number | ProcessGameResultsOptions} [options] Optional: days between `player.lastPlayedMatch` and the *start*
+     * of this rating period, or an options object; see `Glicko.processGameResults` for how omitted days are derived.
+     * @returns {Player} The updated state of the player, with `lastPlayedMatch` set to the latest match date.
+     * If no matches are provided, returns the player's state after only the potential inactivity update.
+     * @throws {GlickoValidationError} If the player's rating or RD is invalid, if `daysSinceLastActive` is negative,
+     * or, in strict mode, if a match is invalid.
+     */
+    processGameResults(player: Player, matchs: Match[], options?: number | ProcessGameResultsOptions): Player {
+        return this.processGameResultsWithWarnings(player, matchs, options).player;
+    }
+
+    /**
+     * Same as `processGameResults`, but also returns the matches skipped in lenient mode.
+     * Matches are validated as in `Glicko.processGameResultsWithWarnings`.
+     * @param {Player} player The player's state *before* the start of this rating period.
+     * @param {Match[]} matchs Matches played during the rating period.
+     * @param {number | ProcessGameResultsOptions} [options] Optional inactivity days or options, as for `processGameResults`.
+     * @returns {ProcessGameResultsWithWarnings} The updated player, a warning for each skipped match and the safeguards applied.
+     * @throws {GlickoValidationError} As for `processGameResults`.
+     */
+    processGameResultsWithWarnings(player: Player, matchs: Match[], options?: number | ProcessGameResultsOptions): ProcessGameResultsWithWarnings {
+        const { daysSinceLastActive, asOf } = typeof options === 'number' ? { daysSinceLastActive: options, asOf: undefined } : options ?? {};
+        const processedAsOf = asOf ?? this.config.clock.now();
+        const filtered = MatchValidation.filterMatches(matchs, processedAsOf, this.config.validationMode);
+        const warnings = filtered.warnings;
+        const valid = filtered.valid.map(match => ({ ...match, opponent: this.resolve(match.opponent) }));
+        warnings.forEach(warning => this.config.onWarning?.(warning));
+
+        const periodStart = DateUtils.earliestMatchDate(valid) ?? processedAsOf;
+        const inactiveDays = daysSinceLastActive ?? DateUtils.daysBetween(player.lastPlayedMatch, periodStart);
+
+        let playerAtPeriodStart: Player = { ...player, volatility: player.volatility ?? this.config.initialVolatility };
+
+        if (valid.length === 0) {
+            if (inactiveDays > 0) {
+                playerAtPeriodStart = this.updateRDForInactivity(playerAtPeriodStart, inactiveDays);
+            }
+            return { player: playerAtPeriodStart, warnings, safeguards: [] };
+        }
+
+        const preRatingDays = this.preRatingInactivityDays(inactiveDays);
+        if (preRatingDays > 0) {
+            playerAtPeriodStart = this.updateRDForInactivity(playerAtPeriodStart, preRatingDays);
+        }
+
+        MatchValidation.validatePlayer(playerAtPeriodStart);
+
+        const start = this.resolve(playerAtPeriodStart);
+        const { mu, phi, sigma } = this.toGlicko2Scale({ ...start, volatility: playerAtPeriodStart.volatility });
+        const { variance, performanceSum } = this.computeVarianceAndPerformance(mu, valid);
+
+        if (!Number.isFinite(variance)) {
+            return { player: playerAtPeriodStart, warnings, safeguards: [] };
+        }
+
+        const delta = variance * performanceSum;
+        const newSigma = this.calculateNewVolatility(phi, sigma, variance, delta);
+        const preRatingPhi = Math.sqrt(Math.pow(phi, 2) + Math.pow(newSigma, 2));
+        const newPhi = 1 / Math.sqrt(1 / Math.pow(preRatingPhi, 2) + 1 / variance);
+        const newMu = mu + Math.pow(newPhi, 2) * performanceSum;
+
+        const updated = this.fromGlicko2Scale({ mu: newMu, phi: newPhi, sigma: newSigma });
+
+        const guarded = RatingSafeguards.apply({ ...playerAtPeriodStart, ...start }, updated.rating, updated.rd, this.config);
+
+        return {
+            player: {
+                id: playerAtPeriodStart.id,
+                ...this.display(guarded),
+                volatility: updated.volatility,
+                ...(guarded.peakRating !== undefined && {
+                    peakRating: MathUtils.roundToDecimalPlaces(guarded.peakRating, this.config.roundingPrecision, this.config.roundingMode),
+                }),
+                lastPlayedMatch: DateUtils.latestMatchDate(valid) ?? processedAsOf
+            },
+            warnings,
+            safeguards: guarded.applied,
+        };
+    }
+
+    /**
+     * Builds the display rating and RD, and the full-precision `precise` values, of a player state.
+     * @private
+     */
+    private display(value: Opponent): Pick<Player, 'rating' | 'rd' | 'precise'> {
+        return Precision.display(value, this.config.roundingPrecision, this.config.roundingMode);
+    }
+
+    /**
+     * Returns the full-precision rating and RD of a player or opponent (see `Player.precise`).
+     * @private
+     */
+    private resolve(player: Opponent & { precise?: Opponent }): Opponent {
+        return Precision.resolve(player, this.config.roundingPrecision, this.config.roundingMode);
+    }
+}
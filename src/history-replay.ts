@@ -0,0 +1,70 @@
+/**
+ * Replay of historical games.
+ * Buckets dated games into consecutive rating periods, predicts every game from the ratings at the start of its
+ * period and then rates the period, so the predictions only use information available before each game.
+ */
+
+import { Glicko } from './glicko';
+import { Player } from './interfaces/player';
+import { GameResult } from './interfaces/game-result';
+import { HistoricalPrediction, HistoryReplayResult } from './interfaces/history-replay';
+import { RatingPeriodProcessor } from './rating-period';
+import { DateUtils } from './utils/date-utils';
+import { GlickoValidationError } from './errors';
+
+export class HistoryReplay {
+    private glicko: Glicko;
+
+    /**
+     * Creates a replay for the given calculator.
+     * @param {Glicko} [glicko] The calculator used for predictions and updates. Defaults to a Glicko-1 calculator with default config.
+     */
+    constructor(glicko?: Glicko) {
+        this.glicko = glicko ?? new Glicko();
+    }
+
+    /**
+     * Replays games in date order. Period 0 starts at the earliest game and every period lasts `daysPerRatingPeriod`
+     * days; empty periods still apply one period of inactivity.
+     * @param {GameResult[]} games The games, in any order.
+     * @returns {HistoryReplayResult} A prediction per game (in date order) and the final ratings.
+     * @throws {GlickoValidationError} If a game has no valid `datePlayed`.
+     */
+    run(games: GameResult[]): HistoryReplayResult {
+        for (const game of games) {
+            if (!DateUtils.isValidDate(game.datePlayed)) {
+                throw new GlickoValidationError('datePlayed', game.datePlayed, `Game between ${game.playerId} and ${game.opponentId} has no valid date.`);
+            }
+        }
+        const sorted = [...games].sort((a, b) => a.datePlayed.getTime() - b.datePlayed.getTime());
+        if (sorted.length === 0) {
+            return { predictions: [], ratings: {}, periods: 0 };
+        }
+
+        const config = this.glicko.getConfig();
+        const origin = sorted[0].datePlayed;
+        const periods: GameResult[][] = [];
+        for (const game of sorted) {
+            const index = DateUtils.periodIndex(origin, game.datePlayed, config.daysPerRatingPeriod);
+            while (periods.length <= index) { periods.push([]); }
+            periods[index].push(game);
+        }
+
+        const processor = new RatingPeriodProcessor(this.glicko);
+        const predictions: HistoricalPrediction[] = [];
+        let ratings: Record<string, Player> = {};
+        periods.forEach((periodGames, period) => {
+            // Same start-of-period states the processor rates from, so each prediction sees only earlier periods.
+            const startState = (id: string) => ratings[id]
+                ? this.glicko.updateRDForInactivity(ratings[id], config.daysPerRatingPeriod)
+                : this.glicko.initializeNewPlayer({ id });
+            for (const game of periodGames) {
+                const expectedScore = this.glicko.predict(startState(game.playerId), startState(game.opponentId), { side: game.side }).expectedScore;
+                predictions.push({ game, period, expectedScore });
+            }
+            ratings = processor.process(ratings, periodGames);
+        });
+
+        return { predictions, ratings, periods: periods.length };
+    }
+}
@@ -0,0 +1,222 @@
+/**
+ * CSV importer.
+ * Reads one game per row into `GameResult`s, with configurable columns, delimiter, date format and score encodings.
+ * Quoted fields (including embedded delimiters, doubled quotes and line breaks) follow RFC 4180.
+ */
+
+import { GameResult } from '../interfaces/game-result';
+import { CsvColumn, CsvImportOptions } from '../interfaces/importer';
+import { DateUtils } from '../utils/date-utils';
+import { ImportParseError, InvalidConfigError } from '../errors';
+
+const DEFAULT_SCORE_ENCODING: Record<string, number> = {
+    '1-0': 1,
+    '0-1': 0,
+    '1/2-1/2': 0.5,
+    '½-½': 0.5,
+    'w': 1,
+    'd': 0.5,
+    'l': 0,
+    'win': 1,
+    'draw': 0.5,
+    'loss': 0,
+};
+
+type Field = 'player' | 'opponent' | 'score' | 'date';
+
+export class CsvImporter {
+    private options: CsvImportOptions;
+    private columns: Record<Field, CsvColumn>;
+    private scoreEncoding: Record<string, number>;
+
+    /**
+     * Creates a CSV importer.
+     * @param {CsvImportOptions} [options] Column mapping, delimiter, date format and score encodings.
+     * @throws {InvalidConfigError} If the delimiter, date format, score encodings or column mapping are invalid.
+     */
+    constructor(options?: CsvImportOptions) {
+        this.options = { ...options };
+        this.columns = { player: 'player', opponent: 'opponent', score: 'score', date: 'date', ...options?.columns };
+        this.scoreEncoding = { ...DEFAULT_SCORE_ENCODING };
+        for (const [encoding, score] of Object.entries(options?.scoreEncoding ?? {})) {
+            if (!(score >= 0 && score <= 1)) {
+                throw new InvalidConfigError('scoreEncoding', score, `Score for "${encoding}" must be between 0 and 1.`);
+            }
+            this.scoreEncoding[encoding.trim().toLowerCase()] = score;
+        }
+
+        const delimiter = this.options.delimiter ?? ',';
+        if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\n' || delimiter === '\r') {
+            throw new InvalidConfigError('delimiter', delimiter, "delimiter must be a single character other than a quote or line break.");
+        }
+        const format = this.options.dateFormat;
+        if (typeof format === 'string' && format !== 'iso' && !['YYYY', 'MM', 'DD'].every(token => format.split(token).length === 2)) {
+            throw new InvalidConfigError('dateFormat', format, "dateFormat must be 'iso' or contain YYYY, MM and DD exactly once.");
+        }
+        if (this.options.hasHeader === false && Object.values(this.columns).some(column => typeof column !== 'number')) {
+            throw new InvalidConfigError('columns', this.columns, "Columns must be given as indices when the CSV has no header.");
+        }
+    }
+
+    /**
+     * Parses a CSV text. Blank lines are ignored.
+     * @param {string} text The CSV file contents.
+     * @returns {GameResult[]} One result per row, in file order.
+     * @throws {ImportParseError} With the line number, for a missing column, an unknown score or an unreadable date.
+     */
+    parse(text: string): GameResult[] {
+        const rows = this.splitRows(text);
+        let indices: Record<Field, number>;
+        let dataRows = rows;
+
+        if (this.options.hasHeader ?? true) {
+            if (rows.length === 0) { return []; }
+            const [header, ...rest] = rows;
+            const names = header.fields.map(name => name.trim());
+            indices = this.resolveColumns(column => {
+                const index = typeof column === 'number' ? column : names.indexOf(column);
+                if (index < 0 || index >= names.length) {
+                    throw new ImportParseError(header.line, 'columns', column, `Header has no column "${column}".`);
+                }
+                return index;
+            });
+            dataRows = rest;
+        } else {
+            indices = this.resolveColumns(column => column as number);
+        }
+
+        const playerId = this.options.playerId ?? ((name: string) => name.trim());
+        return dataRows.map(({ fields, line }) => {
+            const value = (field: Field) => {
+                const raw = fields[indices[field]];
+                if (raw === undefined || raw.trim() === '') {
+                    throw new ImportParseError(line, field, raw, `Missing value for "${field}".`);
+                }
+                return raw.trim();
+            };
+            return {
+                playerId: playerId(value('player')),
+                opponentId: playerId(value('opponent')),
+                score: this.parseScore(value('score'), line),
+                datePlayed: this.parseDate(value('date'), line),
+            };
+        });
+    }
+
+    private resolveColumns(resolve: (column: CsvColumn) => number): Record<Field, number> {
+        return {
+            player: resolve(this.columns.player),
+            opponent: resolve(this.columns.opponent),
+            score: resolve(this.columns.score),
+            date: resolve(this.columns.date),
+        };
+    }
+
+    /**
+     * Splits the text into rows of fields, remembering the line each row starts on.
+     * @private
+     */
+    private splitRows(text: string): { fields: string[]; line: number }[] {
+        const delimiter = this.options.delimiter ?? ',';
+        const rows: { fields: string[]; line: number }[] = [];
+        let fields: string[] = [];
+        let field = '';
+        let quoted = false;
+        let line = 1;
+        let rowLine = 1;
+
+        const endRow = () => {
+            fields.push(field);
+            if (fields.length > 1 || fields[0].trim() !== '') {
+                rows.push({ fields, line: rowLine });
+            }
+            fields = [];
+            field = '';
+        };
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (quoted) {
+                if (char === '"' && text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    if (char === '\n') { line++; }
+                    field += char;
+                }
+            } else if (char === '"' && field.trim() === '') {
+                quoted = true;
+                field = '';
+            } else if (char === delimiter) {
+                fields.push(field);
+                field = '';
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && text[i + 1] === '\n') { i++; }
+                endRow();
+                line++;
+                rowLine = line;
+            } else {
+                field += char;
+            }
+        }
+        if (quoted) {
+            throw new ImportParseError(rowLine, 'text', undefined, "Unterminated quoted field.");
+        }
+        if (field !== '' || fields.length > 0) {
+            endRow();
+        }
+        return rows;
+    }
+
+    /**
+     * Reads a score: a number in [0, 1] or one of the configured encodings.
+     * @private
+     */
+    private parseScore(value: string, line: number): number {
+        const encoded = this.scoreEncoding[value.toLowerCase()];
+        if (encoded !== undefined) { return encoded; }
+        const numeric = Number(value);
+        if (/^\d*\.?\d+$/.test(value) && numeric >= 0 && numeric <= 1) { return numeric; }
+        throw new ImportParseError(line, 'score', value, `Unknown score "${value}".`);
+    }
+
+    /**
+     * Reads a date in the configured format.
+     * @private
+     */
+    private parseDate(value: string, line: number): Date {
+        const format = this.options.dateFormat ?? 'iso';
+        let date: Date | undefined;
+        if (typeof format === 'function') {
+            date = format(value);
+        } else if (format === 'iso') {
+            date = /^\d{4}-\d{2}-\d{2}/.test(value) ? new Date(value) : undefined;
+        } else {
+            date = CsvImporter.parsePatternDate(value, format);
+        }
+        if (!DateUtils.isValidDate(date)) {
+            throw new ImportParseError(line, 'date', value, `Unreadable date "${value}" (expected ${typeof format === 'string' ? format : 'a custom format'}).`);
+        }
+        return date;
+    }
+
+    /**
+     * Reads a date against a pattern such as 'DD/MM/YYYY'. Returns undefined if it does not match or is not a real day.
+     * @private
+     */
+    private static parsePatternDate(value: string, format: string): Date | undefined {
+        const order: string[] = [];
+        const pattern = format.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/YYYY|MM|DD/g, token => {
+            order.push(token);
+            return token === 'YYYY' ? '(\\d{4})' : '(\\d{1,2})';
+        });
+        const match = new RegExp(`^${pattern}$`).exec(value);
+        if (!match) { return undefined; }
+        const part = (token: string) => Number(match[order.indexOf(token) + 1]);
+        const [year, month, day] = [part('YYYY'), part('MM'), part('DD')];
+        const date = new Date(Date.UTC(year, month - 1, day));
+        return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : undefined;
+    }
+}
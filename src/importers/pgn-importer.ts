@@ -0,0 +1,122 @@
+/**
+ * PGN importer.
+ * Reads the White, Black, Result and Date tags of every game in a PGN file into `GameResult`s
+ * (White is the player and moves first, Black the opponent). Movetext is ignored.
+ */
+
+import { GameResult } from '../interfaces/game-result';
+import { PgnImportOptions } from '../interfaces/importer';
+import { ImportParseError } from '../errors';
+
+const TAG_PATTERN = /^\s*\[(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]\s*$/;
+
+const RESULT_SCORES: Record<string, number> = {
+    '1-0': 1,
+    '0-1': 0,
+    '1/2-1/2': 0.5,
+};
+
+export class PgnImporter {
+    private options: PgnImportOptions;
+
+    /**
+     * Creates a PGN importer.
+     * @param {PgnImportOptions} [options] Handling of unknown dates, unfinished games and player ids.
+     */
+    constructor(options?: PgnImportOptions) {
+        this.options = { ...options };
+    }
+
+    /**
+     * Parses every game in a PGN text.
+     * @param {string} text The PGN file contents.
+     * @returns {GameResult[]} One result per finished game, in file order.
+     * @throws {ImportParseError} If a game lacks a player, has an unknown result or an unreadable date.
+     */
+    parse(text: string): GameResult[] {
+        const results: GameResult[] = [];
+        let tags: Record<string, string> = {};
+        let gameLine = 0;
+        let tagSectionClosed = false;
+
+        const finishGame = () => {
+            if (gameLine > 0) {
+                const result = this.toGameResult(tags, gameLine);
+                if (result) { results.push(result); }
+            }
+            tags = {};
+            gameLine = 0;
+            tagSectionClosed = false;
+        };
+
+        text.split(/\r?\n/).forEach((content, index) => {
+            const line = index + 1;
+            const tag = TAG_PATTERN.exec(content);
+            if (tag) {
+                if (tagSectionClosed) { finishGame(); }
+                if (gameLine === 0) { gameLine = line; }
+                tags[tag[1]] = tag[2].replace(/\\(.)/g, '$1');
+            } else if (content.trim() === '' || content.startsWith('%')) {
+                // A blank line ends the tag section, so the next tag pair starts a new game even without movetext.
+                tagSectionClosed = gameLine > 0;
+            } else {
+                if (gameLine === 0) {
+                    throw new ImportParseError(line, 'movetext', content, "Movetext found before any tag pair.");
+                }
+                tagSectionClosed = true;
+            }
+        });
+        finishGame();
+        return results;
+    }
+
+    /**
+     * Converts the tags of one game, or returns undefined for a skipped unfinished game.
+     * @private
+     */
+    private toGameResult(tags: Record<string, string>, line: number): GameResult | undefined {
+        const playerId = this.options.playerId ?? ((name: string) => name.trim());
+        for (const tag of ['White', 'Black', 'Result']) {
+            if (!tags[tag] || tags[tag].trim() === '' || tags[tag] === '?') {
+                throw new ImportParseError(line, tag, tags[tag], `Game is missing the [${tag}] tag.`);
+            }
+        }
+
+        const result = tags.Result.trim();
+        if (result === '*' && (this.options.skipUnfinished ?? true)) {
+            return undefined;
+        }
+        const score = RESULT_SCORES[result];
+        if (score === undefined) {
+            throw new ImportParseError(line, 'Result', result, `Unknown result "${result}".`);
+        }
+
+        return {
+            playerId: playerId(tags.White),
+            opponentId: playerId(tags.Black),
+            score,
+            datePlayed: this.parseDate(tags.Date, line),
+            side: 'first',
+        };
+    }
+
+    /**
+     * Reads a PGN date (YYYY.MM.DD). Unknown months and days ("??") default to 1.
+     * @private
+     */
+    private parseDate(value: string | undefined, line: number): Date {
+        const match = /^(\d{4}|\?{4})\.(\d{2}|\?{2})\.(\d{2}|\?{2})$/.exec((value ?? '').trim());
+        if (!match || match[1] === '????') {
+            if (this.options.defaultDate && (!value || match)) {
+                return new Date(this.options.defaultDate.getTime());
+            }
+            throw new ImportParseError(line, 'Date', value, value ? `Unreadable date "${value}".` : "Game is missing the [Date] tag.");
+        }
+        const [year, month, day] = match.slice(1).map(part => part.startsWith('?') ? 1 : Number(part));
+        const date = new Date(Date.UTC(year, month - 1, day));
+        if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+            throw new ImportParseError(line, 'Date', value, `Unreadable date "${value}".`);
+        }
+        return date;
+    }
+}
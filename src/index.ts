@@ -1,10 +1,116 @@
-// Main Glicko Calculator Class:
+// Main Glicko Calculator Classes:
 export { Glicko } from './glicko';
+export { Glicko2 } from './glicko2';
+export type { Glicko2Rating } from './glicko2';
+
+// Rating Scales:
+export { RatingScale } from './rating-scale';
+
+// Rating Period Processing:
+export { RatingPeriodProcessor } from './rating-period';
+export type { RatingPeriodOptions, RatingPeriodWithWarnings } from './rating-period';
+export { BatchRatingProcessor } from './batch-rating';
+export { StreamingRatingProcessor } from './streaming';
+
+// Rating History:
+export { RatingHistory } from './rating-history';
+
+// Team and Free-for-all Games:
+export { MultiplayerMatches } from './multiplayer';
+
+// Leaderboards:
+export { Leaderboard } from './leaderboard';
+
+// Matchmaking:
+export { Matchmaker } from './matchmaking';
+export type { MatchmakingOptions } from './matchmaking';
+
+// Tournament Simulation:
+export { TournamentSimulator } from './tournament-simulator';
+export { SeededRandom } from './utils/random';
+
+// Swiss Tournaments:
+export { SwissTournament } from './swiss';
+
+// Importers:
+export { PgnImporter } from './importers/pgn-importer';
+export { CsvImporter } from './importers/csv-importer';
+
+// Command-Line Tool:
+export { GlickoCli } from './cli';
+
+// Historical Replay, Backtesting and Parameter Fitting:
+export { HistoryReplay } from './history-replay';
+export { Backtester } from './backtest';
+export { ParameterFitter } from './parameter-fitting';
+
+// Match Ledger:
+export { MatchLedger } from './match-ledger';
+export type { MatchLedgerOptions } from './match-ledger';
+
+// Rating Stores:
+export { InMemoryRatingStore } from './store/in-memory-rating-store';
+export { JsonFileRatingStore } from './store/json-file-rating-store';
+
+// Errors:
+export {
+    GlickoValidationError,
+    InvalidConfigError,
+    InvalidScoreError,
+    InvalidRatingError,
+    InvalidRatingDeviationError,
+    FutureMatchError,
+    ImportParseError,
+    SnapshotError,
+    LateMatchError,
+    CommandLineError,
+} from './errors';
+
+// Serialization:
+export { SnapshotSerializer } from './serialization';
+
+// Utilities:
+export { MathUtils } from './utils/math-utils';
+
+// Clocks:
+export { systemClock, FixedClock } from './utils/clock';
+
+// Engine Selection:
+export { createRatingEngine } from './rating-engine';
+export type { RatingEngineOptions } from './rating-engine';
 
 // Interfaces for Data Structures:
 export type { Player } from './interfaces/player';
 export type { Opponent } from './interfaces/opponent';
-export type { Match } from './interfaces/match';
+export type { Match, MatchSide } from './interfaces/match';
+export type { GameResult } from './interfaces/game-result';
+export type { MatchRecord } from './interfaces/match-record';
+export type { LedgerEvent } from './interfaces/ledger-event';
+export type { Clock } from './interfaces/clock';
+export type { MatchPrediction, PredictionOptions, SeriesPrediction } from './interfaces/prediction';
+export type { Pairing, PairingConstraints, PairingResult, PairingScore } from './interfaces/pairing';
+export type { CreditDistribution, FreeForAllGame, TeamGame } from './interfaces/multiplayer';
+export type { LeaderboardEntry, LeaderboardOptions, LeaderboardPage, LeaderboardQuery } from './interfaces/leaderboard';
+export type { ProcessGameResultsOptions } from './interfaces/process-options';
+export type { ProcessGameResultsWithWarnings, RatingWarning, ValidationMode } from './interfaces/validation';
+export type { MatchExplanation, RatingExplanation } from './interfaces/explanation';
+export type { AppliedSafeguard, SafeguardKind, SafeguardSettings } from './interfaces/safeguards';
+export type { EloPlayer, ScaleParameters } from './interfaces/rating-scale';
+export type { RoundingMode } from './interfaces/rounding';
+export type { CliExitCode, CliIo } from './interfaces/cli';
+export type { BatchAppliedSafeguard, BatchColumns, BatchRatingInput, BatchRatingOptions, BatchRatingResult } from './interfaces/batch';
+export type { ClosedPeriod, LateMatch, LateMatchPolicy, PeriodClosePolicy, StreamingOptions } from './interfaces/streaming';
+export type { HistoricalPrediction, HistoryReplayResult } from './interfaces/history-replay';
+export type { CsvColumn, CsvImportOptions, PgnImportOptions } from './interfaces/importer';
+export type { HeadToHeadRecord, PlayerGameResult, RatingChange, RatingHistoryEntry, RatingTimeSeriesPoint } from './interfaces/rating-history';
+export type { SerializableConfig, Snapshot, SnapshotKind, SnapshotMigration, SnapshotSerializerOptions, SnapshotTypes } from './interfaces/serialization';
+export type { BacktestOptions, BacktestReport, CalibrationBucket } from './interfaces/backtest';
+export type { FitEvaluation, FitOptions, FitResult, FittableParameter, ParameterBounds } from './interfaces/fitting';
+export type { EntrantSimulationResult, TournamentFormat, TournamentSimulationOptions, TournamentSimulationResult } from './interfaces/tournament';
+export type { PieceColor, SwissOptions, SwissPairing, SwissRound, SwissStanding } from './interfaces/swiss';
+export type { RatingEngine, RatingEngineConfig } from './interfaces/rating-engine';
+export type { RatingStore, RatingStoreReader, RatingStoreWriter } from './interfaces/rating-store';
 
-// Configuration Interface:
-export type { GlickoConfig } from './config/glicko_config';
\ No newline at end of file
+// Configuration Interfaces:
+export type { GlickoConfig } from './config/glicko_config';
+export type { Glicko2Config } from './config/glicko2_config';
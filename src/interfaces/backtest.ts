@@ -0,0 +1,30 @@
+/**
+ * Options for a backtest.
+ */
+export interface BacktestOptions {
+    calibrationBuckets?: number; // Number of equal-width predicted-score buckets in the calibration table (default 10)
+    burnInPeriods?: number; // Leading rating periods replayed but not scored (default 0)
+}
+
+/**
+ * One row of the calibration table.
+ */
+export interface CalibrationBucket {
+    lower: number; // Inclusive lower bound of the predicted expected score
+    upper: number; // Exclusive upper bound (inclusive for the last bucket)
+    games: number;
+    meanPredicted: number | null; // Null for an empty bucket
+    meanObserved: number | null; // Mean actual score; null for an empty bucket
+}
+
+/**
+ * Predictive accuracy of a configuration over a historical dataset. Metrics are NaN when no game was scored.
+ */
+export interface BacktestReport {
+    games: number; // Games scored (after burn-in)
+    logLoss: number; // Mean log-loss; draws count as a score of 0.5
+    brierScore: number; // Mean squared error between expected and actual score
+    accuracy: number; // Share of decisive games whose winner was favoured; an even prediction counts as half right
+    decisiveGames: number; // Scored games that were not drawn
+    calibration: CalibrationBucket[];
+}
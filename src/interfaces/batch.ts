@@ -0,0 +1,43 @@
+import { AppliedSafeguard } from "./safeguards";
+
+/**
+ * One rating period in columnar form. Players are identified by their index in the player columns; each game is
+ * recorded once, at the same index in `playerIndex`, `opponentIndex` and `scores`.
+ */
+export interface BatchRatingInput {
+    ratings: Float64Array; // Full-precision rating of each player before the period
+    rds: Float64Array; // Full-precision RD of each player before the period
+    peakRatings?: Float64Array; // Highest rating of each player; used only with `peakFloorOffset`
+    hasPlayed?: Uint8Array; // 1 for players with a previous game (`lastPlayedMatch`); only they receive inactivity RD growth (default all)
+    playerIndex: Uint32Array;
+    opponentIndex: Uint32Array;
+    scores: Float64Array; // From the perspective of `playerIndex`; the opponent scores 1 - score
+    weights?: Float64Array; // Relative weight of each game (default 1)
+    sides?: Int8Array; // 1 if `playerIndex` moved first, -1 if second, 0 if not known (default 0); see `firstMoveAdvantage`
+}
+
+export interface BatchRatingOptions {
+    elapsedDays?: number; // Days of inactivity applied to every player before the games (default `daysPerRatingPeriod`)
+}
+
+/**
+ * Columnar input built from keyed player states, with the id of the player at each index.
+ */
+export interface BatchColumns {
+    ids: string[];
+    input: BatchRatingInput;
+}
+
+export interface BatchAppliedSafeguard extends AppliedSafeguard {
+    playerIndex: number;
+}
+
+export interface BatchRatingResult {
+    ratings: Float64Array; // Full precision, as `Player.precise.rating`
+    rds: Float64Array; // Full precision, as `Player.precise.rd`
+    displayRatings: Float64Array; // Rounded with the engine's precision and mode, as `Player.rating`
+    displayRds: Float64Array;
+    peakRatings?: Float64Array; // Present when `peakFloorOffset` is configured
+    gamesPlayed: Uint32Array;
+    safeguards: BatchAppliedSafeguard[];
+}
@@ -0,0 +1,17 @@
+/**
+ * File and console access used by the command-line tool, so it can run against the real file system or in memory.
+ */
+export interface CliIo {
+    readFile(path: string): string;
+    writeFile(path: string, contents: string): void;
+    stdout(text: string): void; // Receives whole lines without the trailing line break
+    stderr(text: string): void;
+}
+
+/**
+ * Exit codes of the command-line tool.
+ * - 0: success
+ * - 1: invalid input, such as an unreadable file, a malformed match or an out-of-range config value
+ * - 2: invalid usage, such as an unknown command or flag or a missing argument
+ */
+export type CliExitCode = 0 | 1 | 2;
@@ -0,0 +1,6 @@
+/**
+ * Source of the current time, injectable so that processing can be backfilled or tested deterministically.
+ */
+export interface Clock {
+    now(): Date;
+}
@@ -0,0 +1,42 @@
+import { RatingWarning } from "./validation";
+import { AppliedSafeguard } from "./safeguards";
+
+/**
+ * One match's part in a Glicko-1 update. All values are unrounded.
+ */
+export interface MatchExplanation {
+    matchIndex: number; // Index of the match in the input array
+    opponentRating: number;
+    opponentRd: number;
+    score: number;
+    weight: number;
+    advantage: number; // Side advantage in rating points added to the player's rating for E (0 without a `side`)
+    g: number; // g(RD_opp)
+    expectedScore: number; // E
+    varianceContribution: number; // w * g^2 * E * (1-E), this match's share of 1 / (q^2 * d^2)
+    performanceContribution: number; // w * g * (s - E)
+    ratingChange: number; // q * RD'^2 * performanceContribution, this match's share of the rating change
+}
+
+/**
+ * Full trace of a Glicko-1 rating update. Contains only plain numbers, strings and null (dates are ISO strings),
+ * so it survives `JSON.stringify` unchanged.
+ */
+export interface RatingExplanation {
+    playerId: string | null;
+    asOf: string;
+    inactivity: {
+        days: number; // Days of inactivity applied before the matches
+        rdBefore: number;
+        rdAfter: number; // The RD the matches were rated from
+    };
+    start: { rating: number; rd: number };
+    matches: MatchExplanation[];
+    skipped: RatingWarning[]; // Matches skipped in lenient mode; dates in `value` are ISO strings
+    varianceFactorSum: number;
+    dSquared: number | null; // 1 / (q^2 * varianceFactorSum), or null when no match carried information
+    performanceSum: number;
+    unrounded: { rating: number; rd: number; ratingChange: number }; // The rating formula's output, before safeguards
+    safeguards: AppliedSafeguard[];
+    result: { rating: number; rd: number; lastPlayedMatch: string | null };
+}
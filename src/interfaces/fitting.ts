@@ -0,0 +1,38 @@
+import { GlickoConfig } from "../config/glicko_config";
+
+/**
+ * Configuration values the parameter fitter can search.
+ */
+export type FittableParameter = 'initialRD' | 'inactivityConstant' | 'rdCeiling' | 'firstMoveAdvantage';
+
+/**
+ * Inclusive [min, max] search range per parameter. Parameters left out keep their base value.
+ * Only `firstMoveAdvantage` may have a negative range (the second-moving side is favored).
+ */
+export type ParameterBounds = Partial<Record<FittableParameter, [number, number]>>;
+
+export interface FitOptions {
+    parameters: ParameterBounds;
+    method?: 'grid' | 'nelder-mead'; // Default 'nelder-mead'
+    gridSteps?: number; // Values tried per parameter by grid search, including both bounds (default 5)
+    maxIterations?: number; // Nelder-Mead iteration limit (default 100)
+    tolerance?: number; // Nelder-Mead stops when the simplex log-losses differ by less than this (default 1e-6)
+    burnInPeriods?: number; // Leading rating periods replayed but not scored (default 0)
+}
+
+/**
+ * One evaluated point of the search.
+ */
+export interface FitEvaluation {
+    parameters: Partial<Record<FittableParameter, number>>;
+    logLoss: number; // Mean predictive log-loss over the scored games
+}
+
+export interface FitResult {
+    config: Partial<GlickoConfig>; // The base config with the recommended values applied
+    parameters: Partial<Record<FittableParameter, number>>; // The recommended values
+    logLoss: number; // Mean log-loss of the recommended config
+    baselineLogLoss: number; // Mean log-loss of the base config
+    gamesScored: number;
+    evaluations: FitEvaluation[]; // Every point evaluated, in search order
+}
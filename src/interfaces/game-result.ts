@@ -0,0 +1,14 @@
+import { MatchSide } from "./match";
+
+/**
+ * A single game between two identified players, recorded once for both sides.
+ * `score` and `side` are from the perspective of `playerId`; the opponent is credited with `1 - score` and the other side.
+ */
+export interface GameResult {
+    playerId: string;
+    opponentId: string;
+    score: number;
+    datePlayed: Date;
+    side?: MatchSide; // The side `playerId` took, when the game has a first-move or home advantage
+    weight?: number; // Relative weight of the game for both players (default 1), as `Match.weight`
+}
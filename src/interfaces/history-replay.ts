@@ -0,0 +1,17 @@
+import { GameResult } from "./game-result";
+import { Player } from "./player";
+
+/**
+ * A game's predicted expected score, made from the ratings at the start of its period.
+ */
+export interface HistoricalPrediction {
+    game: GameResult;
+    period: number; // Zero-based index of the rating period the game fell into
+    expectedScore: number; // From the first player's (`playerId`) perspective
+}
+
+export interface HistoryReplayResult {
+    predictions: HistoricalPrediction[]; // One per game, in date order
+    ratings: Record<string, Player>; // Ratings after the last period, keyed by id
+    periods: number; // Number of rating periods replayed
+}
@@ -0,0 +1,38 @@
+/**
+ * Options for the PGN importer.
+ */
+export interface PgnImportOptions {
+    defaultDate?: Date; // Used when a game's [Date] year is unknown; without it such games are rejected
+    skipUnfinished?: boolean; // Skip games with result "*" instead of rejecting them (default true)
+    playerId?: (name: string) => string; // Maps a player name to an id (default: the trimmed name)
+}
+
+/**
+ * A CSV column, by header name or zero-based index.
+ */
+export type CsvColumn = string | number;
+
+/**
+ * Options for the CSV importer.
+ */
+export interface CsvImportOptions {
+    columns?: {
+        player?: CsvColumn; // Default 'player'
+        opponent?: CsvColumn; // Default 'opponent'
+        score?: CsvColumn; // Default 'score'
+        date?: CsvColumn; // Default 'date'
+    };
+    delimiter?: string; // Default ','
+    hasHeader?: boolean; // Default true; without a header, columns must be given as indices
+    /**
+     * 'iso' (default) for ISO 8601, a pattern made of YYYY, MM and DD with any separators (e.g. 'DD/MM/YYYY'),
+     * or a function returning the date. Pattern dates are read as UTC midnight.
+     */
+    dateFormat?: string | ((value: string) => Date);
+    /**
+     * Extra score encodings, from the player's perspective, matched case-insensitively. They are added to the
+     * built-in ones: 1/0/0.5 and other numbers in [0, 1], 1-0/0-1/1/2-1/2, W/D/L and win/draw/loss.
+     */
+    scoreEncoding?: Record<string, number>;
+    playerId?: (name: string) => string; // Maps a player name to an id (default: the trimmed name)
+}
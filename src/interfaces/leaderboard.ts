@@ -0,0 +1,37 @@
+import { Player } from "./player";
+
+/**
+ * Settings that define how a leaderboard ranks players.
+ */
+export interface LeaderboardOptions {
+    conservativeFactor?: number; // k in rating - k * RD (default 2)
+    provisionalRDThreshold?: number; // Players with RD above this are provisional (default 110)
+    includeProvisional?: boolean; // Whether provisional players are ranked at all (default true)
+    inactiveAfterDays?: number; // Players idle for longer are inactive; players who never played are always inactive
+    excludeInactive?: boolean; // Whether inactive players are left out (default false; requires inactiveAfterDays)
+}
+
+/**
+ * Per-request parameters for building a leaderboard page.
+ */
+export interface LeaderboardQuery {
+    asOf?: Date; // Date inactivity is applied up to (default: the engine's clock)
+    offset?: number; // Number of ranked entries to skip (default 0)
+    limit?: number; // Maximum number of entries to return (default: all)
+}
+
+export interface LeaderboardEntry {
+    rank: number; // Competition ranking: tied players share a rank and the next rank is skipped
+    player: Player; // The player with inactivity RD growth applied
+    conservativeRating: number;
+    provisional: boolean;
+    inactive: boolean;
+    daysInactive: number;
+}
+
+export interface LeaderboardPage {
+    asOf: Date;
+    total: number; // Number of ranked players before pagination
+    offset: number;
+    entries: LeaderboardEntry[];
+}
@@ -0,0 +1,13 @@
+import { MatchRecord } from "./match-record";
+import { RatingPeriodOptions } from "../rating-period";
+
+/**
+ * An entry in the append-only match ledger. The ledger's state is fully determined by its events.
+ */
+export type LedgerEvent =
+    | { type: 'matchRecorded'; match: MatchRecord }
+    | { type: 'matchAmended'; id: string; changes: Partial<Omit<MatchRecord, 'id'>> }
+    | { type: 'matchRemoved'; id: string }
+    | { type: 'periodClosed'; period: number; options?: RatingPeriodOptions }
+    | { type: 'periodRolledBack'; period: number }
+    | { type: 'periodsRerated'; fromPeriod: number };
@@ -0,0 +1,9 @@
+import { GameResult } from "./game-result";
+
+/**
+ * A game stored in the match ledger: a `GameResult` with a unique id and the rating period it belongs to.
+ */
+export interface MatchRecord extends GameResult {
+    id: string;
+    period: number; // Zero-based index of the rating period the game is rated in
+}
@@ -1,9 +1,16 @@
 import { Opponent } from "./opponent";
 import { Player } from "./player";
 
+/**
+ * The side a player took in a game with a first-move or home advantage, e.g. `'first'` for white in chess.
+ */
+export type MatchSide = 'first' | 'second';
+
 export interface Match {
     player: Player;
     opponent: Opponent;
     score: number;
     datePlayed: Date; // Timestamp of when the game was played
-}
\ No newline at end of file
+    weight?: number; // Relative weight of the result (default 1), e.g. 1/(N-1) for each pairwise result of an N-player free-for-all
+    side?: MatchSide; // The side `player` took; `firstMoveAdvantage` applies only when set
+}
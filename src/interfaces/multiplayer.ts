@@ -0,0 +1,27 @@
+import { Player } from "./player";
+
+/**
+ * How much of a team result each member is credited with.
+ * - `'equal'`: every member is rated as if they played one full game.
+ * - `'rd'`: credit proportional to each member's RD^2, so less certain members move further.
+ * - A record of relative credit per member id.
+ */
+export type CreditDistribution = 'equal' | 'rd' | Record<string, number>;
+
+/**
+ * A game between two teams. `score` is from the perspective of `teams[0]` (1 = win, 0.5 = draw, 0 = loss).
+ */
+export interface TeamGame {
+    teams: [Player[], Player[]];
+    score: number;
+    datePlayed: Date;
+    credit?: CreditDistribution; // Defaults to 'equal'
+}
+
+/**
+ * A free-for-all game. Lower `place` is better; equal places are ties.
+ */
+export interface FreeForAllGame {
+    placements: { player: Player; place: number }[];
+    datePlayed: Date;
+}
@@ -0,0 +1,31 @@
+import { Player } from "./player";
+
+/**
+ * Quality measures for a candidate pairing.
+ */
+export interface PairingScore {
+    expectedScore: number; // Predicted score of the first player
+    closeness: number; // 1 for a perfectly even game, approaching 0 for a foregone conclusion
+    informationGain: number; // Combined RD reduction of both players, in rating points
+    quality: number; // Weighted blend of closeness and relative information gain, 0 to 1
+}
+
+export interface Pairing {
+    player: Player;
+    opponent: Player;
+    score: PairingScore;
+}
+
+/**
+ * Constraints applied when pairing a pool of players.
+ */
+export interface PairingConstraints {
+    maxRatingGap?: number; // Maximum allowed absolute rating difference
+    recentOpponents?: Record<string, string[]>; // Ids each player has recently played and should not be paired with again
+    minQuality?: number; // Pairings below this quality are never made
+}
+
+export interface PairingResult {
+    pairings: Pairing[];
+    unpaired: Player[];
+}
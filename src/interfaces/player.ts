@@ -1,5 +1,11 @@
+import { Opponent } from "./opponent";
+
 export interface Player {
+    id?: string; // Stable identifier, required when the player is kept in a RatingStore
     rating: number;
     rd: number;
+    precise?: Opponent; // Unrounded rating and RD that the engines compute from; `rating` and `rd` are the rounded display values
+    volatility?: number; // Glicko-2 volatility (sigma); ignored by the Glicko-1 engine
+    peakRating?: number; // Highest rating reached; kept up to date when `peakFloorOffset` is configured
     lastPlayedMatch?: Date; // Optional property to track the last active time of the player
-}
\ No newline at end of file
+}
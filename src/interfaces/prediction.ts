@@ -0,0 +1,42 @@
+import { MatchSide } from "./match";
+
+/**
+ * Options for predicting a single game.
+ */
+export interface PredictionOptions {
+    /**
+     * Probability of a draw between two equally rated players, used for draw modeling (0 to <1, default 0).
+     * Draw probabilities for unequal players follow the Davidson model.
+     */
+    drawRate?: number;
+    /** Confidence level of the interval on the expected score (0 to 1, default 0.95). */
+    confidenceLevel?: number;
+    /** The side the first player takes; the engine's `firstMoveAdvantage` applies only when set. */
+    side?: MatchSide;
+}
+
+/**
+ * Predicted outcome of a game, from the first player's perspective.
+ */
+export interface MatchPrediction {
+    expectedScore: number; // Glicko expected score using the combined RD of both players
+    winProbability: number;
+    drawProbability: number;
+    lossProbability: number;
+    confidenceInterval: {
+        level: number;
+        lower: number; // Expected score if the rating difference is at the low end of its uncertainty
+        upper: number; // Expected score if the rating difference is at the high end of its uncertainty
+    };
+}
+
+/**
+ * Predicted outcome of a best-of-N series, from the first player's perspective.
+ * Drawn games are treated as replayed, so only decisive games count towards the series.
+ */
+export interface SeriesPrediction {
+    bestOf: number;
+    gameWinProbability: number; // Probability of winning a single decisive game
+    winProbability: number;
+    lossProbability: number;
+}
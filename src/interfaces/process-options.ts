@@ -0,0 +1,16 @@
+/**
+ * Per-call options for `processGameResults`.
+ */
+export interface ProcessGameResultsOptions {
+    /**
+     * Days between `player.lastPlayedMatch` and the start of the rating period.
+     * When omitted, it is derived from `player.lastPlayedMatch` and the earliest `Match.datePlayed`
+     * (or `asOf` when there are no matches).
+     */
+    daysSinceLastActive?: number;
+    /**
+     * The date the update is computed "as of". Defaults to the configured clock's current time.
+     * Used for inactivity when there are no matches, and as `lastPlayedMatch` when no match carries a valid date.
+     */
+    asOf?: Date;
+}
@@ -0,0 +1,38 @@
+import { Match } from "./match";
+import { Player } from "./player";
+import { ProcessGameResultsOptions } from "./process-options";
+import { Clock } from "./clock";
+import { ProcessGameResultsWithWarnings, ValidationMode } from "./validation";
+import { RoundingMode } from "./rounding";
+
+/**
+ * Configuration values every engine understands.
+ */
+export interface RatingEngineConfig {
+    initialRating: number;
+    initialRD: number;
+    rdCeiling: number;
+    daysPerRatingPeriod: number;
+    roundingPrecision: number;
+    roundingMode: RoundingMode;
+    firstMoveAdvantage: number;
+    clock: Clock;
+    validationMode: ValidationMode;
+}
+
+/**
+ * Common surface shared by the Glicko-1 and Glicko-2 calculators, so pipelines can switch engines
+ * without changing how players and matches are passed around.
+ */
+export interface RatingEngine {
+    getConfig(): Readonly<RatingEngineConfig>;
+    initializeNewPlayer(overrides?: Partial<Player>): Player;
+    updateRDForInactivity(player: Player, daysSinceLastActive: number): Player;
+    /**
+     * Days of inactivity to apply before rating a player who competes in a period, given the days since they were
+     * last active. Glicko-1 applies them all; Glicko-2 leaves out the one period its own update already accounts for.
+     */
+    preRatingInactivityDays(daysSinceLastActive: number): number;
+    processGameResults(player: Player, matchs: Match[], options?: number | ProcessGameResultsOptions): Player;
+    processGameResultsWithWarnings(player: Player, matchs: Match[], options?: number | ProcessGameResultsOptions): ProcessGameResultsWithWarnings;
+}
@@ -0,0 +1,54 @@
+/**
+ * A game from one player's point of view.
+ */
+export interface PlayerGameResult {
+    opponentId: string;
+    score: number; // The player's score (1 = win, 0.5 = draw, 0 = loss)
+    datePlayed: Date;
+}
+
+/**
+ * A player's state at the end of a rating period, with the games played in it.
+ */
+export interface RatingHistoryEntry {
+    playerId: string;
+    date: Date; // When the state took effect, usually the end of the period
+    rating: number;
+    rd: number;
+    volatility?: number;
+    games: PlayerGameResult[];
+}
+
+/**
+ * Wins, draws and losses against one opponent.
+ */
+export interface HeadToHeadRecord {
+    opponentId: string;
+    games: number;
+    wins: number;
+    draws: number;
+    losses: number;
+    score: number; // Total points scored
+}
+
+/**
+ * Rating and RD change between two dates.
+ */
+export interface RatingChange {
+    from: RatingHistoryEntry; // State in effect at the start date, or the first state after it
+    to: RatingHistoryEntry; // State in effect at the end date
+    ratingChange: number;
+    rdChange: number;
+}
+
+/**
+ * One point of an exported rating time series. Dates are ISO strings so the series can be sent as JSON.
+ */
+export interface RatingTimeSeriesPoint {
+    playerId: string;
+    date: string;
+    rating: number;
+    rd: number;
+    volatility?: number;
+    games: number;
+}
@@ -0,0 +1,18 @@
+/**
+ * A logistic rating scale: a player rated `spread` points above another is expected to score 10:1 against them,
+ * and `center` is the rating of an average player. Classic Elo and Glicko-1 both use a spread of 400.
+ */
+export interface ScaleParameters {
+    center: number;
+    spread: number;
+}
+
+/**
+ * An existing Elo rating to migrate.
+ */
+export interface EloPlayer {
+    id?: string;
+    rating: number; // Elo rating
+    gamesPlayed: number; // Rated games behind the Elo rating, used to choose the starting RD
+    lastPlayedMatch?: Date;
+}
@@ -0,0 +1,22 @@
+import { Player } from "./player";
+
+/**
+ * Read/write access to stored players, as seen inside or outside a transaction.
+ */
+export interface RatingStoreReader {
+    get(id: string): Promise<Player | undefined>;
+    list(): Promise<Player[]>;
+}
+
+export interface RatingStoreWriter extends RatingStoreReader {
+    put(player: Player): Promise<void>;
+}
+
+/**
+ * Persistent storage for player ratings, keyed by `Player.id`.
+ * Writes made inside `transaction` become visible together when the callback resolves,
+ * and are discarded if it throws.
+ */
+export interface RatingStore extends RatingStoreWriter {
+    transaction<T>(work: (tx: RatingStoreWriter) => Promise<T> | T): Promise<T>;
+}
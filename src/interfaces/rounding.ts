@@ -0,0 +1,7 @@
+/**
+ * How values are rounded for display.
+ * - `'half-up'`: ties round away from zero (2.5 -> 3, -2.5 -> -3).
+ * - `'half-even'`: ties round to the even neighbour (2.5 -> 2, 3.5 -> 4), so rounding errors do not accumulate in one direction.
+ * - `'truncate'`: digits beyond the precision are dropped (2.59 -> 2.5, -2.59 -> -2.5).
+ */
+export type RoundingMode = 'half-up' | 'half-even' | 'truncate';
@@ -0,0 +1,22 @@
+/**
+ * Rating stability limits, shared by the Glicko-1 and Glicko-2 configurations. Every limit is off when undefined.
+ */
+export interface SafeguardSettings {
+    ratingFloor?: number; // No update takes a rating below this value
+    peakFloorOffset?: number; // No update takes a rating below (highest rating achieved - offset); tracked in `Player.peakRating`
+    maxRatingChangePerPeriod?: number; // Largest rating change, up or down, in one rating period
+    minRD?: number; // Lowest RD an update can produce, so established ratings keep moving
+}
+
+export type SafeguardKind = 'minRD' | 'maxRatingChange' | 'ratingFloor' | 'peakFloor';
+
+/**
+ * A safeguard that changed the result of an update. Values are unrounded.
+ */
+export interface AppliedSafeguard {
+    safeguard: SafeguardKind;
+    field: 'rating' | 'rd';
+    before: number; // The value the safeguard received
+    after: number; // The value it produced
+    limit: number; // The bound it enforced, e.g. the floor or the capped rating
+}
@@ -0,0 +1,44 @@
+import { GlickoConfig } from "../config/glicko_config";
+import { MatchRecord } from "./match-record";
+import { Player } from "./player";
+
+/**
+ * The kinds of value that can be serialized.
+ */
+export interface SnapshotTypes {
+    player: Player;
+    players: Record<string, Player>; // Keyed by player id, as used by rating periods and the match ledger
+    config: Partial<SerializableConfig>;
+    matchRecords: MatchRecord[];
+}
+
+export type SnapshotKind = keyof SnapshotTypes;
+
+/**
+ * The configuration values that can be serialized. `q` is derived, and the clock and warning callback are code.
+ */
+export type SerializableConfig = Omit<GlickoConfig, 'q' | 'clock' | 'onWarning'>;
+
+/**
+ * A versioned, JSON-safe envelope. Dates inside `data` are ISO 8601 strings.
+ */
+export interface Snapshot<K extends SnapshotKind = SnapshotKind> {
+    schema: 'glicko-ts';
+    kind: K;
+    version: number;
+    data: unknown;
+}
+
+/**
+ * Upgrades the `data` of one kind of snapshot from `fromVersion` to `fromVersion + 1`.
+ * Version 0 is a bare value written without an envelope, e.g. by `JSON.stringify(player)`.
+ */
+export interface SnapshotMigration {
+    kind: SnapshotKind;
+    fromVersion: number;
+    migrate: (data: unknown) => unknown;
+}
+
+export interface SnapshotSerializerOptions {
+    migrations?: SnapshotMigration[]; // Added to the built-in migrations; later entries replace earlier ones for the same step
+}
@@ -0,0 +1,56 @@
+import { GameResult } from "./game-result";
+import { Match } from "./match";
+import { Player } from "./player";
+import { RatingWarning } from "./validation";
+
+/**
+ * What happens to a match whose rating period has already been closed.
+ * - `'drop'`: the match is left out and reported.
+ * - `'next-period'`: the match is rated in the earliest open period instead, and reported.
+ * - `'error'`: a `LateMatchError` is thrown.
+ */
+export type LateMatchPolicy = 'drop' | 'next-period' | 'error';
+
+/**
+ * When a rating period is closed.
+ * - `'watermark'`: once a match dated at least `allowedLatenessDays` after the period's end arrives.
+ * - `'schedule'`: once the engine's clock is at least `allowedLatenessDays` past the period's end.
+ */
+export type PeriodClosePolicy = 'watermark' | 'schedule';
+
+export interface StreamingOptions {
+    origin?: Date; // Start of period 0 (default: the date of the first match)
+    closeOn?: PeriodClosePolicy; // Default 'watermark'
+    allowedLatenessDays?: number; // How long a period stays open after its end for late matches (default 0)
+    lateMatchPolicy?: LateMatchPolicy; // Default 'drop'
+    players?: Record<string, Player>; // Player states before the first period, keyed by id
+    onLateMatch?: (late: LateMatch) => void; // Called for each dropped or moved match
+}
+
+/**
+ * A match that arrived after its rating period was closed.
+ */
+export interface LateMatch {
+    match: Match;
+    period: number; // The period the match's date falls into
+    action: 'dropped' | 'moved';
+    ratedInPeriod?: number; // The period it was rated in, when moved
+}
+
+/**
+ * A rating period closed by the streaming processor.
+ */
+export interface ClosedPeriod {
+    period: number; // Zero-based index from `origin`
+    start: Date;
+    end: Date; // Exclusive; the start of the next period
+    games: GameResult[]; // The games rated in the period, in arrival order; skipped games are left out
+    warnings: RatingWarning[]; // One per game skipped in lenient mode; `matchIndex` counts the period's games in arrival order, skipped ones included
+    players: Record<string, Player>; // Every known player's state after the period, keyed by id
+    /**
+     * Late matches dropped or moved while the period was the earliest open one.
+     * Matches dropped while no period is open are listed in the next period that closes; if none does, only
+     * `onLateMatch` sees them.
+     */
+    lateMatches: LateMatch[];
+}
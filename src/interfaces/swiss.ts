@@ -0,0 +1,43 @@
+import { Player } from "./player";
+import { Clock } from "./clock";
+
+export type PieceColor = 'white' | 'black';
+
+/**
+ * Options for a Swiss-system event.
+ */
+export interface SwissOptions {
+    byeScore?: number; // Points awarded for a bye (default 1)
+    clock?: Clock; // Source of the round date when none is given (default: system clock)
+}
+
+/**
+ * One board of a Swiss round. `score` is from White's perspective and is undefined until recorded.
+ */
+export interface SwissPairing {
+    board: number;
+    white: Player;
+    black: Player;
+    score?: number;
+}
+
+export interface SwissRound {
+    round: number; // 1-based
+    datePlayed: Date;
+    pairings: SwissPairing[];
+    bye?: Player;
+}
+
+/**
+ * A row of the standings. Byes count towards points but not towards the tiebreaks.
+ */
+export interface SwissStanding {
+    rank: number; // Equal points, Buchholz and Sonneborn-Berger share a rank
+    player: Player;
+    points: number;
+    buchholz: number; // Sum of the final points of every opponent faced
+    sonnebornBerger: number; // Sum of the points of beaten opponents plus half the points of drawn opponents
+    gamesPlayed: number;
+    byes: number;
+    colorBalance: number; // Games with White minus games with Black
+}
@@ -0,0 +1,38 @@
+/**
+ * Supported tournament formats.
+ */
+export type TournamentFormat = 'single-elimination' | 'double-elimination' | 'round-robin';
+
+export interface TournamentSimulationOptions {
+    format: TournamentFormat;
+    runs?: number; // Number of simulated tournaments (default 10000)
+    seed?: number; // Seed for reproducible results; random if omitted
+    /**
+     * Draw a "true" skill for each entrant per run from N(rating, RD^2) and play every game on those skills.
+     * Without it, each game uses the expected score from `Glicko.predict` (default false).
+     */
+    sampleSkill?: boolean;
+    drawRate?: number; // Round robin only: draw probability between equal players (default 0); elimination games are replayed until decided
+    roundRobinCycles?: number; // Round robin only: times each pair meets (default 1)
+    grandFinalReset?: boolean; // Double elimination only: replay the grand final if the losers-bracket champion wins it (default true)
+    topCuts?: number[]; // Places for which P(finishing in the top k) is reported (default [1, 2, 4, 8], capped at the field size)
+}
+
+/**
+ * The simulated finishing distribution of one entrant.
+ */
+export interface EntrantSimulationResult {
+    playerId: string;
+    seed: number; // 1-based position in the entrant list; elimination brackets are seeded in this order
+    placementProbabilities: number[]; // Index k holds P(finishing in place k + 1); tied elimination places use the best place of the tier
+    winProbability: number;
+    top: Record<number, number>; // P(finishing in place k or better) for each top cut
+    expectedPlacement: number;
+}
+
+export interface TournamentSimulationResult {
+    format: TournamentFormat;
+    runs: number;
+    seed: number;
+    entrants: EntrantSimulationResult[]; // In entrant order
+}
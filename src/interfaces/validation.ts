@@ -0,0 +1,26 @@
+import { Player } from "./player";
+import { AppliedSafeguard } from "./safeguards";
+
+/**
+ * How invalid matches are handled.
+ * - `'strict'`: the first invalid match throws a typed error.
+ * - `'lenient'`: invalid matches are skipped and reported as warnings.
+ */
+export type ValidationMode = 'strict' | 'lenient';
+
+/**
+ * A match skipped in lenient mode.
+ */
+export interface RatingWarning {
+    code: string; // The `code` of the error strict mode would have thrown, e.g. 'INVALID_RD'
+    message: string;
+    field: string; // The offending field, e.g. 'opponent.rd'
+    value: unknown;
+    matchIndex: number; // Index of the skipped match in the input array
+}
+
+export interface ProcessGameResultsWithWarnings {
+    player: Player;
+    warnings: RatingWarning[];
+    safeguards: AppliedSafeguard[]; // Rating stability limits that changed the result, in the order applied
+}
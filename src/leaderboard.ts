@@ -0,0 +1,106 @@
+/**
+ * Leaderboard builder.
+ * Ranks players by a conservative rating estimate (rating - k * RD) so that players with few games and a high
+ * RD cannot top the table, after bringing every player's RD up to date for inactivity.
+ */
+
+import { Glicko } from './glicko';
+import { Player } from './interfaces/player';
+import { RatingEngine } from './interfaces/rating-engine';
+import { LeaderboardEntry, LeaderboardOptions, LeaderboardPage, LeaderboardQuery } from './interfaces/leaderboard';
+import { DateUtils } from './utils/date-utils';
+import { MathUtils } from './utils/math-utils';
+import { GlickoValidationError, InvalidConfigError } from './errors';
+
+export class Leaderboard {
+    private engine: RatingEngine;
+    private options: Required<Omit<LeaderboardOptions, 'inactiveAfterDays'>> & Pick<LeaderboardOptions, 'inactiveAfterDays'>;
+
+    /**
+     * Creates a leaderboard builder.
+     * @param {RatingEngine} [engine] The engine used for inactivity updates. Defaults to a Glicko-1 engine with default config.
+     * @param {LeaderboardOptions} [options] Ranking settings.
+     * @throws {InvalidConfigError} If an option is out of range.
+     */
+    constructor(engine?: RatingEngine, options?: LeaderboardOptions) {
+        this.engine = engine ?? new Glicko();
+        this.options = {
+            conservativeFactor: 2,
+            provisionalRDThreshold: 110,
+            includeProvisional: true,
+            excludeInactive: false,
+            ...options,
+        };
+
+        if (this.options.conservativeFactor < 0) {
+            throw new InvalidConfigError('conservativeFactor', this.options.conservativeFactor, "conservativeFactor must be non-negative.");
+        }
+        if (this.options.provisionalRDThreshold < 0) {
+            throw new InvalidConfigError('provisionalRDThreshold', this.options.provisionalRDThreshold, "provisionalRDThreshold must be non-negative.");
+        }
+        if (this.options.inactiveAfterDays !== undefined && this.options.inactiveAfterDays < 0) {
+            throw new InvalidConfigError('inactiveAfterDays', this.options.inactiveAfterDays, "inactiveAfterDays must be non-negative.");
+        }
+        if (this.options.excludeInactive && this.options.inactiveAfterDays === undefined) {
+            throw new InvalidConfigError('excludeInactive', this.options.excludeInactive, "excludeInactive requires inactiveAfterDays.");
+        }
+    }
+
+    /**
+     * Builds one page of the leaderboard.
+     *
+     * The process involves these steps:
+     * 1. Each player's RD is increased for inactivity up to `asOf` via the engine's `updateRDForInactivity`.
+     * 2. The conservative rating (rating - k * RD) is computed and rounded to the engine's precision.
+     * 3. Provisional and inactive players are flagged, and filtered out if configured.
+     * 4. Players are sorted by conservative rating; equal values share a rank.
+     * 5. The requested page is sliced out.
+     *
+     * @param {Player[]} players The players to rank.
+     * @param {LeaderboardQuery} [query] The as-of date and pagination.
+     * @returns {LeaderboardPage} The requested page.
+     * @throws {GlickoValidationError} If `offset` or `limit` is invalid.
+     */
+    build(players: Player[], query?: LeaderboardQuery): LeaderboardPage {
+        const offset = query?.offset ?? 0;
+        const limit = query?.limit;
+        if (offset < 0 || !Number.isInteger(offset)) { throw new GlickoValidationError('offset', offset, "offset must be a non-negative integer."); }
+        if (limit !== undefined && (limit < 0 || !Number.isInteger(limit))) { throw new GlickoValidationError('limit', limit, "limit must be a non-negative integer."); }
+
+        const config = this.engine.getConfig();
+        const asOf = query?.asOf ?? config.clock.now();
+        const { conservativeFactor, provisionalRDThreshold, includeProvisional, inactiveAfterDays, excludeInactive } = this.options;
+
+        const candidates = players.map(player => {
+            const daysInactive = DateUtils.daysBetween(player.lastPlayedMatch, asOf);
+            const adjusted = this.engine.updateRDForInactivity(player, daysInactive);
+            return {
+                player: adjusted,
+                conservativeRating: MathUtils.roundToDecimalPlaces(adjusted.rating - conservativeFactor * adjusted.rd, config.roundingPrecision, config.roundingMode),
+                provisional: adjusted.rd > provisionalRDThreshold,
+                inactive: inactiveAfterDays !== undefined && (!player.lastPlayedMatch || daysInactive > inactiveAfterDays),
+                daysInactive,
+            };
+        });
+
+        const ranked = candidates
+            .filter(entry => (includeProvisional || !entry.provisional) && (!excludeInactive || !entry.inactive))
+            .sort((a, b) => b.conservativeRating - a.conservativeRating
+                || b.player.rating - a.player.rating
+                || (a.player.id ?? '').localeCompare(b.player.id ?? ''));
+
+        const entries: LeaderboardEntry[] = [];
+        ranked.forEach((entry, index) => {
+            const previous = entries[index - 1];
+            const rank = previous && previous.conservativeRating === entry.conservativeRating ? previous.rank : index + 1;
+            entries.push({ rank, ...entry });
+        });
+
+        return {
+            asOf,
+            total: entries.length,
+            offset,
+            entries: entries.slice(offset, limit === undefined ? undefined : offset + limit),
+        };
+    }
+}
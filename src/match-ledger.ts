@@ -0,0 +1,302 @@
+/**
+ * Event-sourced match ledger.
+ * Every recorded, amended or removed match and every closed, rolled-back or re-rated period is appended as an event.
+ * Ratings are derived by replaying closed periods through a `RatingPeriodProcessor`, so corrections to old
+ * results can be applied by re-rating from the affected period onwards.
+ */
+
+import { Player } from './interfaces/player';
+import { MatchRecord } from './interfaces/match-record';
+import { LedgerEvent } from './interfaces/ledger-event';
+import { GameResult } from './interfaces/game-result';
+import { RatingPeriodOptions, RatingPeriodProcessor } from './rating-period';
+import { GlickoValidationError } from './errors';
+
+/**
+ * Options for creating a match ledger.
+ */
+export interface MatchLedgerOptions {
+    processor?: RatingPeriodProcessor; // Defaults to a Glicko-1 processor with default config
+    initialPlayers?: Record<string, Player>; // Player states before the first period, keyed by id
+}
+
+export class MatchLedger {
+    private processor: RatingPeriodProcessor;
+    private events: LedgerEvent[] = [];
+    private matches = new Map<string, MatchRecord>();
+    private closedPeriodOptions: (RatingPeriodOptions | undefined)[] = [];
+    private snapshots: Record<string, Player>[];
+    private stalePeriod: number | undefined;
+
+    /**
+     * Creates an empty ledger.
+     * @param {MatchLedgerOptions} [options] The processor used for rating and the starting player states.
+     */
+    constructor(options?: MatchLedgerOptions) {
+        this.processor = options?.processor ?? new RatingPeriodProcessor();
+        this.snapshots = [{ ...(options?.initialPlayers ?? {}) }];
+    }
+
+    /**
+     * Rebuilds a ledger from a previously exported event log, re-rating every closed period.
+     * @param {LedgerEvent[]} events Events as returned by `getEvents`.
+     * @param {MatchLedgerOptions} [options] Must use the same processor configuration and initial players as the original ledger.
+     * @returns {MatchLedger} The rebuilt ledger.
+     */
+    static fromEvents(events: LedgerEvent[], options?: MatchLedgerOptions): MatchLedger {
+        const ledger = new MatchLedger(options);
+        for (const event of events) {
+            ledger.apply(event);
+        }
+        return ledger;
+    }
+
+    /**
+     * Appends an event to the log and applies it to the derived state.
+     * @param {LedgerEvent} event The event to apply.
+     * @private
+     */
+    private apply(event: LedgerEvent): void {
+        switch (event.type) {
+            case 'matchRecorded':
+                this.applyRecorded(event.match);
+                break;
+            case 'matchAmended':
+                this.applyAmended(event.id, event.changes);
+                break;
+            case 'matchRemoved':
+                this.applyRemoved(event.id);
+                break;
+            case 'periodClosed':
+                this.applyPeriodClosed(event.period, event.options);
+                break;
+            case 'periodRolledBack':
+                this.applyPeriodRolledBack(event.period);
+                break;
+            case 'periodsRerated':
+                this.applyPeriodsRerated(event.fromPeriod);
+                break;
+        }
+        this.events.push(event);
+    }
+
+    private applyRecorded(match: MatchRecord): void {
+        if (this.matches.has(match.id)) { throw new GlickoValidationError('id', match.id, `Match ${match.id} is already recorded.`); }
+        this.validatePeriod(match.period);
+        this.matches.set(match.id, { ...match });
+        this.markStale(match.period);
+    }
+
+    private applyAmended(id: string, changes: Partial<Omit<MatchRecord, 'id'>>): void {
+        const existing = this.requireMatch(id);
+        const amended = { ...existing, ...changes, id };
+        this.validatePeriod(amended.period);
+        this.matches.set(id, amended);
+        this.markStale(Math.min(existing.period, amended.period));
+    }
+
+    private applyRemoved(id: string): void {
+        const existing = this.requireMatch(id);
+        this.matches.delete(id);
+        this.markStale(existing.period);
+    }
+
+    private applyPeriodClosed(period: number, options?: RatingPeriodOptions): void {
+        if (period !== this.closedPeriodOptions.length) {
+            throw new GlickoValidationError('period', period, `Period ${period} cannot be closed; the next period to close is ${this.closedPeriodOptions.length}.`);
+        }
+        const ratings = this.processor.process(this.snapshots[period], this.gamesForPeriod(period), options);
+        this.closedPeriodOptions.push(options);
+        this.snapshots.push(ratings);
+    }
+
+    private applyPeriodRolledBack(period: number): void {
+        if (period !== this.closedPeriodOptions.length - 1) {
+            throw new GlickoValidationError('period', period, `Period ${period} is not the last closed period.`);
+        }
+        this.closedPeriodOptions.pop();
+        this.snapshots.pop();
+        if (this.stalePeriod !== undefined && this.stalePeriod >= this.closedPeriodOptions.length) {
+            this.stalePeriod = undefined;
+        }
+    }
+
+    /**
+     * Collects the games of a period in the order they were first recorded, so replays are deterministic.
+     * @param {number} period The period.
+     * @returns {GameResult[]} The period's games.
+     * @private
+     */
+    private gamesForPeriod(period: number): GameResult[] {
+        const games: GameResult[] = [];
+        for (const match of this.matches.values()) {
+            if (match.period === period) {
+                const { playerId, opponentId, score, datePlayed, side, weight } = match;
+                games.push({ playerId, opponentId, score, datePlayed, side, weight });
+            }
+        }
+        return games;
+    }
+
+    private applyPeriodsRerated(fromPeriod: number): void {
+        if (fromPeriod < 0 || fromPeriod >= this.closedPeriodOptions.length || !Number.isInteger(fromPeriod)) {
+            throw new GlickoValidationError('period', fromPeriod, `Period ${fromPeriod} is not a closed period.`);
+        }
+        const snapshots = this.snapshots.slice(0, fromPeriod + 1);
+        for (let p = fromPeriod; p < this.closedPeriodOptions.length; p++) {
+            snapshots.push(this.processor.process(snapshots[p], this.gamesForPeriod(p), this.closedPeriodOptions[p]));
+        }
+        this.snapshots = snapshots;
+        if (this.stalePeriod !== undefined && this.stalePeriod >= fromPeriod) {
+            this.stalePeriod = undefined;
+        }
+    }
+
+    private requireMatch(id: string): MatchRecord {
+        const match = this.matches.get(id);
+        if (!match) { throw new GlickoValidationError('id', id, `Match ${id} is not recorded.`); }
+        return match;
+    }
+
+    private validatePeriod(period: number): void {
+        if (period < 0 || !Number.isInteger(period)) {
+            throw new GlickoValidationError('period', period, "Match period must be a non-negative integer.");
+        }
+    }
+
+    /**
+     * Remembers the earliest closed period whose ratings no longer reflect the recorded matches.
+     * @param {number} period The period touched by a change.
+     * @private
+     */
+    private markStale(period: number): void {
+        if (period < this.closedPeriodOptions.length) {
+            this.stalePeriod = Math.min(this.stalePeriod ?? period, period);
+        }
+    }
+
+    /**
+     * Records a new match.
+     * @param {MatchRecord} match The match, with a unique id and its rating period.
+     * @throws {GlickoValidationError} If the id is already recorded or the period is invalid.
+     */
+    record(match: MatchRecord): void {
+        this.apply({ type: 'matchRecorded', match: { ...match } });
+    }
+
+    /**
+     * Corrects a recorded match. If it belongs to a closed period, that period becomes stale until re-rated.
+     * @param {string} id The match id.
+     * @param {Partial<Omit<MatchRecord, 'id'>>} changes The fields to change.
+     * @throws {GlickoValidationError} If the match is not recorded.
+     */
+    amend(id: string, changes: Partial<Omit<MatchRecord, 'id'>>): void {
+        this.apply({ type: 'matchAmended', id, changes: { ...changes } });
+    }
+
+    /**
+     * Deletes a recorded match. If it belongs to a closed period, that period becomes stale until re-rated.
+     * @param {string} id The match id.
+     * @throws {GlickoValidationError} If the match is not recorded.
+     */
+    remove(id: string): void {
+        this.apply({ type: 'matchRemoved', id });
+    }
+
+    /**
+     * Rates the next open period using every match recorded for it.
+     * The period is rated as of `options.asOf`, defaulting to the engine clock's current time; the date is kept with
+     * the period, so matches skipped as future-dated now are skipped on every replay too.
+     * @param {RatingPeriodOptions} [options] Options for the period; kept in the ledger so replays use them too.
+     * @returns {Record<string, Player>} Player states after the period.
+     */
+    closePeriod(options?: RatingPeriodOptions): Record<string, Player> {
+        const asOf = options?.asOf ?? this.processor.getConfig().clock.now();
+        this.apply({ type: 'periodClosed', period: this.closedPeriodOptions.length, options: { ...options, asOf } });
+        return this.getRatings();
+    }
+
+    /**
+     * Undoes the rating of the last closed period. Its matches stay recorded and are rated again when it is re-closed.
+     * @returns {Record<string, Player>} Player states after the new last closed period.
+     * @throws {GlickoValidationError} If no period has been closed.
+     */
+    rollbackLastPeriod(): Record<string, Player> {
+        if (this.closedPeriodOptions.length === 0) { throw new GlickoValidationError('period', this.closedPeriodOptions.length, "No closed period to roll back."); }
+        this.apply({ type: 'periodRolledBack', period: this.closedPeriodOptions.length - 1 });
+        return this.getRatings();
+    }
+
+    /**
+     * Re-rates every closed period from `period` onwards, starting from the stored ratings before it.
+     * @param {number} [period] First period to re-rate. Defaults to the earliest stale period, or 0 if none is stale.
+     * @returns {Record<string, Player>} Player states after the last closed period.
+     * @throws {GlickoValidationError} If the period is not a closed period.
+     */
+    rerateFrom(period?: number): Record<string, Player> {
+        if (this.closedPeriodOptions.length === 0) {
+            return this.getRatings();
+        }
+        this.apply({ type: 'periodsRerated', fromPeriod: period ?? this.stalePeriod ?? 0 });
+        return this.getRatings();
+    }
+
+    /**
+     * Recomputes every closed period from the initial player states.
+     * @returns {Record<string, Player>} Player states after the last closed period.
+     */
+    replay(): Record<string, Player> {
+        return this.rerateFrom(0);
+    }
+
+    /**
+     * Returns player states after a closed period.
+     * @param {number} [period] The closed period. Defaults to the last closed period (or the initial states if none).
+     * @returns {Record<string, Player>} Player states keyed by id.
+     * @throws {GlickoValidationError} If the period has not been closed.
+     */
+    getRatings(period?: number): Record<string, Player> {
+        const index = period === undefined ? this.snapshots.length - 1 : period + 1;
+        if (index < 0 || index >= this.snapshots.length) {
+            throw new GlickoValidationError('period', period, `Period ${period} has not been closed.`);
+        }
+        const ratings: Record<string, Player> = {};
+        for (const [id, player] of Object.entries(this.snapshots[index])) {
+            ratings[id] = { ...player };
+        }
+        return ratings;
+    }
+
+    /**
+     * Returns the currently recorded matches, in the order they were first recorded.
+     * @param {number} [period] Only return matches of this period.
+     * @returns {MatchRecord[]} The matches.
+     */
+    getMatches(period?: number): MatchRecord[] {
+        return Array.from(this.matches.values())
+            .filter(match => period === undefined || match.period === period)
+            .map(match => ({ ...match }));
+    }
+
+    /**
+     * Returns the full, append-only event log.
+     * @returns {LedgerEvent[]} A copy of the events.
+     */
+    getEvents(): LedgerEvent[] {
+        return [...this.events];
+    }
+
+    /**
+     * @returns {number} The number of closed periods.
+     */
+    getClosedPeriodCount(): number {
+        return this.closedPeriodOptions.length;
+    }
+
+    /**
+     * @returns {number | undefined} The earliest closed period changed since it was last rated, if any.
+     */
+    getStalePeriod(): number | undefined {
+        return this.stalePeriod;
+    }
+}
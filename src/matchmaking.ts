@@ -0,0 +1,274 @@
+/**
+ * Matchmaking based on Glicko ratings.
+ * Candidate pairings are scored by how close the game is predicted to be and by how much it would shrink the
+ * players' RDs, and a pool of waiting players is paired to maximise the total quality under configurable constraints.
+ */
+
+import { Glicko } from './glicko';
+import { Player } from './interfaces/player';
+import { Pairing, PairingConstraints, PairingResult, PairingScore } from './interfaces/pairing';
+import { GlickoValidationError, InvalidConfigError } from './errors';
+
+/**
+ * Options for the matchmaker.
+ */
+export interface MatchmakingOptions {
+    closenessWeight?: number; // Weight of predicted closeness in the quality score (default 1)
+    informationWeight?: number; // Weight of relative RD reduction in the quality score (default 1)
+    exactSearchLimit?: number; // Largest pool paired by exhaustive search; larger pools use greedy pairing with local improvement (default 16)
+}
+
+export class Matchmaker {
+    private glicko: Glicko;
+    private options: Required<MatchmakingOptions>;
+
+    /**
+     * Creates a matchmaker.
+     * @param {Glicko} [glicko] The Glicko calculator used for predictions and RD projections.
+     * @param {MatchmakingOptions} [options] Scoring weights and search limits.
+     * @throws {InvalidConfigError} If an option is out of range.
+     */
+    constructor(glicko?: Glicko, options?: MatchmakingOptions) {
+        this.glicko = glicko ?? new Glicko();
+        this.options = { closenessWeight: 1, informationWeight: 1, exactSearchLimit: 16, ...options };
+
+        if (this.options.closenessWeight < 0 || this.options.informationWeight < 0) {
+            const field = this.options.closenessWeight < 0 ? 'closenessWeight' : 'informationWeight';
+            throw new InvalidConfigError(field, this.options[field], "Matchmaking weights must be non-negative.");
+        }
+        if (this.options.closenessWeight + this.options.informationWeight === 0) {
+            throw new InvalidConfigError('closenessWeight', this.options.closenessWeight, "At least one matchmaking weight must be positive.");
+        }
+        if (this.options.exactSearchLimit < 0 || !Number.isInteger(this.options.exactSearchLimit) || this.options.exactSearchLimit > 20) {
+            throw new InvalidConfigError('exactSearchLimit', this.options.exactSearchLimit, "exactSearchLimit must be an integer between 0 and 20.");
+        }
+    }
+
+    /**
+     * Scores a candidate pairing.
+     * Closeness is 1 - |2E - 1|, where E is the predicted score using both players' RDs.
+     * Information gain is the sum of both players' RD reductions from playing each other (via `Glicko.projectRD`);
+     * the quality score uses it relative to the players' combined RD, so both terms lie between 0 and 1.
+     * @param {Player} player The first player.
+     * @param {Player} opponent The second player.
+     * @returns {PairingScore} The pairing's scores.
+     */
+    scorePairing(player: Player, opponent: Player): PairingScore {
+        const expectedScore = this.glicko.predict(player, opponent).expectedScore;
+        const closeness = 1 - Math.abs(2 * expectedScore - 1);
+        const informationGain = (player.rd - this.glicko.projectRD(player, [opponent]))
+            + (opponent.rd - this.glicko.projectRD(opponent, [player]));
+        const relativeInformationGain = informationGain / (player.rd + opponent.rd);
+
+        const { closenessWeight, informationWeight } = this.options;
+        const quality = (closenessWeight * closeness + informationWeight * relativeInformationGain) / (closenessWeight + informationWeight);
+
+        return { expectedScore, closeness, informationGain, quality };
+    }
+
+    /**
+     * Checks the pairing constraints for two players.
+     * @private
+     */
+    private isAllowed(player: Player, opponent: Player, score: PairingScore, constraints?: PairingConstraints): boolean {
+        if (constraints?.maxRatingGap !== undefined && Math.abs(player.rating - opponent.rating) > constraints.maxRatingGap) {
+            return false;
+        }
+        if (constraints?.minQuality !== undefined && score.quality < constraints.minQuality) {
+            return false;
+        }
+        const recent = constraints?.recentOpponents;
+        if (recent && (recent[player.id as string]?.includes(opponent.id as string) || recent[opponent.id as string]?.includes(player.id as string))) {
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Pairs a pool of waiting players. Pools up to `exactSearchLimit` players are solved exactly: as many players as
+     * the constraints allow are paired, and among such choices the total pairing quality is maximised. Larger pools
+     * are paired on a best-effort basis: greedily by quality, then two unpaired players are paired through an existing
+     * pair where its players can take them as partners, then partners are swapped between pairs while that raises
+     * the total. This pairs most large pools fully, but may leave players unpaired that an exact search would pair.
+     * @param {Player[]} pool The waiting players. Each must have a unique `id`.
+     * @param {PairingConstraints} [constraints] Constraints such as a maximum rating gap or recent opponents to avoid.
+     * @returns {PairingResult} The chosen pairings (highest quality first) and the players left unpaired.
+     * @throws {GlickoValidationError} If a player has no id or ids are duplicated.
+     */
+    findPairings(pool: Player[], constraints?: PairingConstraints): PairingResult {
+        const ids = new Set<string>();
+        for (const player of pool) {
+            if (!player.id) { throw new GlickoValidationError('id', player.id, "Every player in the pool must have an id."); }
+            if (ids.has(player.id)) { throw new GlickoValidationError('id', player.id, `Player ${player.id} appears more than once in the pool.`); }
+            ids.add(player.id);
+        }
+
+        const n = pool.length;
+        const scores: (PairingScore | undefined)[][] = Array.from({ length: n }, () => new Array(n));
+        for (let i = 0; i < n; i++) {
+            for (let j = i + 1; j < n; j++) {
+                const score = this.scorePairing(pool[i], pool[j]);
+                if (this.isAllowed(pool[i], pool[j], score, constraints)) {
+                    scores[i][j] = score;
+                    scores[j][i] = score;
+                }
+            }
+        }
+
+        const pairs = n <= this.options.exactSearchLimit ? this.exactPairs(scores) : this.greedyPairs(scores);
+        const paired = new Set(pairs.flat());
+        const pairings: Pairing[] = pairs
+            .map(([i, j]) => ({ player: pool[i], opponent: pool[j], score: scores[i][j] as PairingScore }))
+            .sort((a, b) => b.score.quality - a.score.quality);
+
+        return {
+            pairings,
+            unpaired: pool.filter((_, index) => !paired.has(index)),
+        };
+    }
+
+    /**
+     * Finds the largest, then highest-quality, set of pairs by dynamic programming over subsets of players.
+     * Each pair is worth `n + quality`, so one extra pair always outweighs any difference in total quality.
+     * @param {(PairingScore | undefined)[][]} scores Allowed pairing scores by index.
+     * @returns {[number, number][]} The chosen index pairs.
+     * @private
+     */
+    private exactPairs(scores: (PairingScore | undefined)[][]): [number, number][] {
+        const n = scores.length;
+        const full = (1 << n) - 1;
+        const best = new Float64Array(1 << n).fill(-1);
+        const pairValue = (score: PairingScore) => n + score.quality;
+        best[full] = 0;
+
+        // best[mask] is the highest total quality achievable for the players *not* in mask.
+        const solve = (mask: number): number => {
+            if (best[mask] >= 0) { return best[mask]; }
+            let i = 0;
+            while (mask & (1 << i)) { i++; }
+            let value = solve(mask | (1 << i));
+            for (let j = i + 1; j < n; j++) {
+                const score = scores[i][j];
+                if (score && !(mask & (1 << j))) {
+                    value = Math.max(value, pairValue(score) + solve(mask | (1 << i) | (1 << j)));
+                }
+            }
+            best[mask] = value;
+            return value;
+        };
+        solve(0);
+
+        const pairs: [number, number][] = [];
+        let mask = 0;
+        while (mask !== full) {
+            let i = 0;
+            while (mask & (1 << i)) { i++; }
+            let next = mask | (1 << i);
+            let partner = -1;
+            for (let j = i + 1; j < n; j++) {
+                const score = scores[i][j];
+                const candidate = mask | (1 << i) | (1 << j);
+                if (score && !(mask & (1 << j)) && Math.abs(pairValue(score) + best[candidate] - best[mask]) < 1e-9) {
+                    partner = j;
+                    next = candidate;
+                    break;
+                }
+            }
+            if (partner >= 0) {
+                pairs.push([i, partner]);
+            }
+            mask = next;
+        }
+        return pairs;
+    }
+
+    /**
+     * Pairs players greedily by descending quality, pairs left-over players through existing pairs, then repeatedly
+     * swaps partners between two pairs whenever that increases the total quality.
+     * @param {(PairingScore | undefined)[][]} scores Allowed pairing scores by index.
+     * @returns {[number, number][]} The chosen index pairs.
+     * @private
+     */
+    private greedyPairs(scores: (PairingScore | undefined)[][]): [number, number][] {
+        const n = scores.length;
+        const candidates: [number, number, number][] = [];
+        for (let i = 0; i < n; i++) {
+            for (let j = i + 1; j < n; j++) {
+                const score = scores[i][j];
+                if (score) {
+                    candidates.push([i, j, score.quality]);
+                }
+            }
+        }
+        candidates.sort((a, b) => b[2] - a[2]);
+
+        const used = new Set<number>();
+        const pairs: [number, number][] = [];
+        for (const [i, j] of candidates) {
+            if (!used.has(i) && !used.has(j)) {
+                pairs.push([i, j]);
+                used.add(i);
+                used.add(j);
+            }
+        }
+
+        this.augmentPairs(scores, pairs, used);
+
+        const quality = (i: number, j: number) => scores[i][j]?.quality;
+        let improved = true;
+        while (improved) {
+            improved = false;
+            for (let x = 0; x < pairs.length && !improved; x++) {
+                for (let y = x + 1; y < pairs.length && !improved; y++) {
+                    const [a, b] = pairs[x];
+                    const [c, d] = pairs[y];
+                    const current = (quality(a, b) as number) + (quality(c, d) as number);
+                    for (const [p1, p2] of [[[a, c], [b, d]], [[a, d], [b, c]]] as [number, number][][]) {
+                        const q1 = quality(p1[0], p1[1]);
+                        const q2 = quality(p2[0], p2[1]);
+                        if (q1 !== undefined && q2 !== undefined && q1 + q2 > current + 1e-12) {
+                            pairs[x] = p1;
+                            pairs[y] = p2;
+                            improved = true;
+                            break;
+                        }
+                    }
+                }
+            }
+        }
+        return pairs;
+    }
+
+    /**
+     * Pairs two unpaired players u and v through an existing pair (a, b) whenever u can play a and v can play b,
+     * turning one pair into two, until no such pair is left. Changes `pairs` and `used` in place.
+     * @param {(PairingScore | undefined)[][]} scores Allowed pairing scores by index.
+     * @param {[number, number][]} pairs The current pairs.
+     * @param {Set<number>} used The indices of the paired players.
+     * @private
+     */
+    private augmentPairs(scores: (PairingScore | undefined)[][], pairs: [number, number][], used: Set<number>): void {
+        const find = (): [number, [number, number], [number, number]] | undefined => {
+            const unpaired = scores.map((_, index) => index).filter(index => !used.has(index));
+            for (let x = 0; x < pairs.length; x++) {
+                const [a, b] = pairs[x];
+                for (const u of unpaired) {
+                    for (const v of unpaired) {
+                        if (u !== v && scores[u][a] && scores[v][b]) {
+                            return [x, [u, a], [v, b]];
+                        }
+                    }
+                }
+            }
+            return undefined;
+        };
+
+        for (let found = find(); found; found = find()) {
+            const [x, first, second] = found;
+            pairs[x] = first;
+            pairs.push(second);
+            used.add(first[0]);
+            used.add(second[0]);
+        }
+    }
+}
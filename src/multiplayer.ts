@@ -0,0 +1,144 @@
+/**
+ * Team and free-for-all match support.
+ * Converts multi-player games into ordinary `Match` objects per player, so they can be rated with
+ * `processGameResults` (or merged with 1v1 matches of the same rating period).
+ */
+
+import { Player } from './interfaces/player';
+import { Match } from './interfaces/match';
+import { Opponent } from './interfaces/opponent';
+import { CreditDistribution, FreeForAllGame, TeamGame } from './interfaces/multiplayer';
+import { GlickoValidationError, InvalidScoreError } from './errors';
+
+export class MultiplayerMatches {
+    /**
+     * Calculates the composite rating of a team: the mean member rating, with the RD of that mean
+     * (sqrt(sum RD_i^2) / n, treating members as independent).
+     * @param {Player[]} members The team members.
+     * @returns {Opponent} The composite team rating and RD.
+     * @throws {GlickoValidationError} If the team is empty.
+     */
+    static compositeRating(members: Player[]): Opponent {
+        if (members.length === 0) { throw new GlickoValidationError('members', members, "A team must have at least one member."); }
+        const rating = members.reduce((sum, member) => sum + member.rating, 0) / members.length;
+        const rd = Math.sqrt(members.reduce((sum, member) => sum + Math.pow(member.rd, 2), 0)) / members.length;
+        return { rating, rd };
+    }
+
+    /**
+     * Expands a team game into one match per member.
+     * Each member faces a composite opponent placed so that the member's expected score equals the team-vs-team
+     * expectation: opponent rating = member rating + (opposing composite - own composite), with the opposing
+     * composite RD. The member's share of the result is given by the match weight: credit_i * teamSize,
+     * so with equal credit each member is rated as if they played one full game.
+     * @param {TeamGame} game The team game.
+     * @returns {Record<string, Match[]>} Matches keyed by member id.
+     * @throws {InvalidScoreError} If the score is outside [0, 1].
+     * @throws {GlickoValidationError} If a member has no id, a player is on both teams, or the credit is invalid.
+     */
+    static teamMatches(game: TeamGame): Record<string, Match[]> {
+        if (!(game.score >= 0 && game.score <= 1)) { throw new InvalidScoreError('score', game.score, "Team score must be between 0 and 1."); }
+        const [home, away] = game.teams;
+        const ids = new Set<string>();
+        for (const member of [...home, ...away]) {
+            const id = MultiplayerMatches.requireId(member);
+            if (ids.has(id)) { throw new GlickoValidationError('id', id, `Player ${id} appears more than once in the game.`); }
+            ids.add(id);
+        }
+
+        const homeComposite = MultiplayerMatches.compositeRating(home);
+        const awayComposite = MultiplayerMatches.compositeRating(away);
+        const matches: Record<string, Match[]> = {};
+
+        const addTeam = (members: Player[], own: Opponent, opposing: Opponent, score: number) => {
+            const credits = MultiplayerMatches.normalizeCredit(members, game.credit ?? 'equal');
+            members.forEach((member, index) => {
+                const opponent: Opponent = { rating: member.rating + (opposing.rating - own.rating), rd: opposing.rd };
+                matches[member.id as string] = [{
+                    player: member,
+                    opponent,
+                    score,
+                    datePlayed: game.datePlayed,
+                    weight: credits[index] * members.length,
+                }];
+            });
+        };
+
+        addTeam(home, homeComposite, awayComposite, game.score);
+        addTeam(away, awayComposite, homeComposite, 1 - game.score);
+        return matches;
+    }
+
+    /**
+     * Decomposes a free-for-all game into pairwise results between every pair of players.
+     * A better place scores 1, an equal place 0.5 and a worse place 0. Each pairwise match is weighted 1/(N-1),
+     * so one N-player game counts as a single game for each player rather than N-1 games.
+     * @param {FreeForAllGame} game The free-for-all game.
+     * @returns {Record<string, Match[]>} Matches keyed by player id.
+     * @throws {GlickoValidationError} If fewer than two players took part, a player has no id, or a player is listed twice.
+     */
+    static freeForAllMatches(game: FreeForAllGame): Record<string, Match[]> {
+        const placements = game.placements;
+        if (placements.length < 2) { throw new GlickoValidationError('placements', placements.length, "A free-for-all game needs at least two players."); }
+        const matches: Record<string, Match[]> = {};
+        for (const { player } of placements) {
+            const id = MultiplayerMatches.requireId(player);
+            if (matches[id]) { throw new GlickoValidationError('id', id, `Player ${id} appears more than once in the game.`); }
+            matches[id] = [];
+        }
+
+        const weight = 1 / (placements.length - 1);
+        for (const { player, place } of placements) {
+            for (const other of placements) {
+                if (other.player === player) { continue; }
+                const score = place < other.place ? 1 : place === other.place ? 0.5 : 0;
+                matches[player.id as string].push({ player, opponent: other.player, score, datePlayed: game.datePlayed, weight });
+            }
+        }
+        return matches;
+    }
+
+    /**
+     * Combines several per-player match records (e.g. from different games of the same rating period).
+     * @param {Record<string, Match[]>[]} records The records to merge.
+     * @returns {Record<string, Match[]>} All matches keyed by player id.
+     */
+    static merge(...records: Record<string, Match[]>[]): Record<string, Match[]> {
+        const merged: Record<string, Match[]> = {};
+        for (const record of records) {
+            for (const [id, matches] of Object.entries(record)) {
+                merged[id] = [...(merged[id] ?? []), ...matches];
+            }
+        }
+        return merged;
+    }
+
+    private static requireId(player: Player): string {
+        if (!player.id) { throw new GlickoValidationError('id', player.id, "Every player in a multiplayer game must have an id."); }
+        return player.id;
+    }
+
+    /**
+     * Resolves a credit distribution into per-member fractions summing to 1.
+     * @private
+     */
+    private static normalizeCredit(members: Player[], credit: CreditDistribution): number[] {
+        let raw: number[];
+        if (credit === 'equal') {
+            raw = members.map(() => 1);
+        } else if (credit === 'rd') {
+            raw = members.map(member => Math.pow(member.rd, 2));
+        } else {
+            raw = members.map(member => {
+                const value = credit[member.id as string];
+                if (value === undefined) { throw new GlickoValidationError('credit', member.id, `No credit given for player ${member.id}.`); }
+                return value;
+            });
+        }
+        const invalid = raw.find(value => !(value >= 0 && Number.isFinite(value)));
+        if (invalid !== undefined) { throw new GlickoValidationError('credit', invalid, "Credit must be a non-negative finite number."); }
+        const total = raw.reduce((sum, value) => sum + value, 0);
+        if (total <= 0) { throw new GlickoValidationError('credit', total, "Total team credit must be positive."); }
+        return raw.map(value => value / total);
+    }
+}
@@ -0,0 +1,159 @@
+/**
+ * Parameter fitting from historical games.
+ * Replays a dataset through the Glicko-1 engine for candidate configurations and recommends the one whose
+ * predictions have the lowest mean log-loss. Everything runs in-process; no external services are needed.
+ */
+
+import { Glicko } from './glicko';
+import { GameResult } from './interfaces/game-result';
+import { FitEvaluation, FitOptions, FitResult, FittableParameter } from './interfaces/fitting';
+import { GlickoConfig } from './config/glicko_config';
+import { Backtester } from './backtest';
+import { Optimization } from './utils/optimization';
+import { GlickoValidationError, InvalidConfigError } from './errors';
+
+export class ParameterFitter {
+    private baseConfig: Partial<GlickoConfig>;
+
+    /**
+     * Creates a parameter fitter.
+     * @param {Partial<GlickoConfig>} [baseConfig] Config used for every value not being fitted.
+     */
+    constructor(baseConfig?: Partial<GlickoConfig>) {
+        this.baseConfig = { ...baseConfig };
+    }
+
+    /**
+     * Replays games with a config and scores its predictions.
+     * @param {GameResult[]} games The historical games.
+     * @param {Partial<GlickoConfig>} [config] Overrides applied on top of the base config.
+     * @param {number} [burnInPeriods] Leading rating periods replayed but not scored (default 0).
+     * @returns {{ logLoss: number, gamesScored: number }} The mean log-loss (NaN if no game was scored) and the number of games scored.
+     */
+    evaluate(games: GameResult[], config?: Partial<GlickoConfig>, burnInPeriods = 0): { logLoss: number; gamesScored: number } {
+        const report = new Backtester({ ...this.baseConfig, ...config }).run(games, { burnInPeriods, calibrationBuckets: 1 });
+        return { logLoss: report.logLoss, gamesScored: report.games };
+    }
+
+    /**
+     * Searches the given parameter ranges for the config with the lowest mean predictive log-loss.
+     * Grid search tries every combination of `gridSteps` evenly spaced values; Nelder-Mead starts from the base
+     * values (clamped into range, or the middle of the range) and refines from there.
+     * @param {GameResult[]} games The historical games.
+     * @param {FitOptions} options The parameters to fit and the search method.
+     * @returns {FitResult} The recommended values with their score and every evaluated point.
+     * @throws {InvalidConfigError} If no parameter is given, a range is invalid (RD ranges must be positive), or the search options are out of range.
+     * @throws {GlickoValidationError} If no game is left to score after the burn-in.
+     */
+    fit(games: GameResult[], options: FitOptions): FitResult {
+        const names = Object.keys(options.parameters) as FittableParameter[];
+        const bounds = names.map(name => options.parameters[name] as [number, number]);
+        const burnInPeriods = options.burnInPeriods ?? 0;
+        const gridSteps = options.gridSteps ?? 5;
+        if (names.length === 0) {
+            throw new InvalidConfigError('parameters', options.parameters, "At least one parameter must be fitted.");
+        }
+        names.forEach((name, i) => {
+            const [min, max] = bounds[i];
+            // An RD of 0 makes every opponent invalid, so RD-valued parameters must stay positive.
+            const lower = name === 'firstMoveAdvantage' ? 'min' : name === 'inactivityConstant' ? '0 <= min' : '0 < min';
+            const minValid = name === 'firstMoveAdvantage' ? Number.isFinite(min) : name === 'inactivityConstant' ? min >= 0 : min > 0;
+            if (!minValid || !(max >= min)) {
+                throw new InvalidConfigError(name, bounds[i], `Range for ${name} must satisfy ${lower} <= max.`);
+            }
+        });
+        if (gridSteps < 2 || !Number.isInteger(gridSteps)) {
+            throw new InvalidConfigError('gridSteps', gridSteps, "gridSteps must be an integer of at least 2.");
+        }
+        if (burnInPeriods < 0 || !Number.isInteger(burnInPeriods)) {
+            throw new InvalidConfigError('burnInPeriods', burnInPeriods, "burnInPeriods must be a non-negative integer.");
+        }
+
+        const baseline = this.evaluate(games, undefined, burnInPeriods);
+        if (baseline.gamesScored === 0) {
+            throw new GlickoValidationError('games', games.length, "No games left to score after the burn-in periods.");
+        }
+
+        const evaluations: FitEvaluation[] = [];
+        const cache = new Map<string, number>();
+        const objective = (point: number[]): number => {
+            const key = point.join(',');
+            const cached = cache.get(key);
+            if (cached !== undefined) { return cached; }
+            const parameters = this.toParameters(names, point);
+            const { logLoss } = this.evaluate(games, parameters, burnInPeriods);
+            cache.set(key, logLoss);
+            evaluations.push({ parameters, logLoss });
+            return logLoss;
+        };
+
+        let best: { point: number[]; value: number };
+        if (options.method === 'grid') {
+            best = this.gridSearch(objective, bounds, gridSteps);
+        } else {
+            const defaults = new Glicko(this.baseConfig).getConfig();
+            const start = names.map((name, i) => Math.min(Math.max(defaults[name], bounds[i][0]), bounds[i][1]));
+            best = Optimization.nelderMead(objective, start, {
+                lowerBounds: bounds.map(([min]) => min),
+                upperBounds: bounds.map(([, max]) => max),
+                maxIterations: options.maxIterations,
+                tolerance: options.tolerance,
+            });
+        }
+
+        const parameters = this.toParameters(names, best.point);
+        return {
+            config: { ...this.baseConfig, ...parameters },
+            parameters,
+            logLoss: best.value,
+            baselineLogLoss: baseline.logLoss,
+            gamesScored: baseline.gamesScored,
+            evaluations,
+        };
+    }
+
+    /**
+     * Estimates the first-move advantage from historical games: fits `firstMoveAdvantage` by log-loss, with every
+     * other value taken from the base config. Only games with a `side` carry information about the advantage.
+     * @param {GameResult[]} games The historical games.
+     * @param {Omit<FitOptions, 'parameters'> & { range?: [number, number] }} [options] Search options and the range
+     * searched (default +/- scaleSpread / 4, i.e. up to a 64% expected score for the first-moving side).
+     * @returns {FitResult} The fit; `parameters.firstMoveAdvantage` is the estimate.
+     * @throws {GlickoValidationError} If no game has a `side`, or as for `fit`.
+     */
+    estimateFirstMoveAdvantage(games: GameResult[], options?: Omit<FitOptions, 'parameters'> & { range?: [number, number] }): FitResult {
+        if (!games.some(game => game.side !== undefined)) {
+            throw new GlickoValidationError('games', games.length, "No game has a side; the first-move advantage cannot be estimated.");
+        }
+        const { range, ...fitOptions } = options ?? {};
+        const spread = new Glicko(this.baseConfig).getConfig().scaleSpread;
+        return this.fit(games, { ...fitOptions, parameters: { firstMoveAdvantage: range ?? [-spread / 4, spread / 4] } });
+    }
+
+    /**
+     * Evaluates every combination of evenly spaced values and returns the best.
+     * @private
+     */
+    private gridSearch(objective: (point: number[]) => number, bounds: [number, number][], steps: number): { point: number[]; value: number } {
+        let best = { point: [] as number[], value: Infinity };
+        const visit = (prefix: number[]) => {
+            if (prefix.length === bounds.length) {
+                const value = objective(prefix);
+                if (value < best.value) { best = { point: prefix, value }; }
+                return;
+            }
+            const [min, max] = bounds[prefix.length];
+            for (let step = 0; step < steps; step++) {
+                visit([...prefix, min + (max - min) * step / (steps - 1)]);
+            }
+        };
+        visit([]);
+        return best;
+    }
+
+    private toParameters(names: FittableParameter[], point: number[]): Partial<Record<FittableParameter, number>> {
+        const parameters: Partial<Record<FittableParameter, number>> = {};
+        names.forEach((name, i) => { parameters[name] = point[i]; });
+        return parameters;
+    }
+}
@@ -0,0 +1,29 @@
+import { Glicko } from './glicko';
+import { Glicko2 } from './glicko2';
+import { GlickoConfig } from './config/glicko_config';
+import { Glicko2Config } from './config/glicko2_config';
+import { RatingEngine } from './interfaces/rating-engine';
+
+/**
+ * Engine selection plus the configuration for the chosen engine.
+ * `engine` defaults to `'glicko1'` when omitted.
+ */
+export type RatingEngineOptions =
+    | ({ engine?: 'glicko1' } & Partial<GlickoConfig>)
+    | ({ engine: 'glicko2' } & Partial<Glicko2Config>);
+
+/**
+ * Creates a rating engine from configuration, allowing callers to switch between Glicko-1 and Glicko-2
+ * without changing the rest of their pipeline.
+ * @param {RatingEngineOptions} [options] Engine selection and configuration.
+ * @returns {RatingEngine} The configured engine.
+ */
+export function createRatingEngine(options?: RatingEngineOptions): RatingEngine {
+    // The selector is not a config key, so it is left out of the config passed to the engine.
+    const config: Partial<RatingEngineOptions> = { ...options };
+    delete config.engine;
+    if (options?.engine === 'glicko2') {
+        return new Glicko2(config as Partial<Glicko2Config>);
+    }
+    return new Glicko(config as Partial<GlickoConfig>);
+}
@@ -0,0 +1,204 @@
+/**
+ * Per-player rating history.
+ * Keeps every recorded end-of-period state and the games behind it in memory, and answers career questions
+ * (rating at a date, peaks, streaks, head-to-head records) or exports the history as a time series.
+ */
+
+import { Player } from './interfaces/player';
+import { GameResult } from './interfaces/game-result';
+import {
+    HeadToHeadRecord,
+    PlayerGameResult,
+    RatingChange,
+    RatingHistoryEntry,
+    RatingTimeSeriesPoint,
+} from './interfaces/rating-history';
+import { DateUtils } from './utils/date-utils';
+import { GlickoValidationError } from './errors';
+
+export class RatingHistory {
+    private entries = new Map<string, RatingHistoryEntry[]>();
+
+    /**
+     * Records the end-of-period state of every player in a rating period.
+     * @param {Record<string, Player>} ratings States after the period keyed by id, e.g. from `RatingPeriodProcessor.process`.
+     * @param {GameResult[]} games The games of the period; each is stored for both players.
+     * @param {Date} date When the states took effect.
+     * @throws {GlickoValidationError} If the date is invalid.
+     */
+    recordPeriod(ratings: Record<string, Player>, games: GameResult[], date: Date): void {
+        const gamesByPlayer = new Map<string, PlayerGameResult[]>();
+        const add = (id: string, game: PlayerGameResult) => gamesByPlayer.set(id, [...(gamesByPlayer.get(id) ?? []), game]);
+        for (const game of games) {
+            add(game.playerId, { opponentId: game.opponentId, score: game.score, datePlayed: game.datePlayed });
+            add(game.opponentId, { opponentId: game.playerId, score: 1 - game.score, datePlayed: game.datePlayed });
+        }
+        for (const [id, player] of Object.entries(ratings)) {
+            this.record(id, player, date, gamesByPlayer.get(id));
+        }
+    }
+
+    /**
+     * Records one player's state.
+     * @param {string} playerId The player's id.
+     * @param {Player} player The player's state.
+     * @param {Date} date When the state took effect.
+     * @param {PlayerGameResult[]} [games] The games that led to this state.
+     * @throws {GlickoValidationError} If the date is invalid.
+     */
+    record(playerId: string, player: Player, date: Date, games?: PlayerGameResult[]): void {
+        if (!DateUtils.isValidDate(date)) {
+            throw new GlickoValidationError('date', date, "History entries need a valid date.");
+        }
+        const entry: RatingHistoryEntry = {
+            playerId,
+            date: new Date(date.getTime()),
+            rating: player.rating,
+            rd: player.rd,
+            games: (games ?? []).map(game => ({ ...game })),
+        };
+        if (player.volatility !== undefined) { entry.volatility = player.volatility; }
+
+        const history = this.entries.get(playerId) ?? [];
+        // Keep entries in date order; an entry dated like an existing one goes after it.
+        let index = history.length;
+        while (index > 0 && history[index - 1].date.getTime() > date.getTime()) { index--; }
+        history.splice(index, 0, entry);
+        this.entries.set(playerId, history);
+    }
+
+    /**
+     * @returns {string[]} The ids of every player with a recorded state.
+     */
+    getPlayerIds(): string[] {
+        return Array.from(this.entries.keys());
+    }
+
+    /**
+     * @param {string} playerId The player's id.
+     * @returns {RatingHistoryEntry[]} The player's states in date order.
+     */
+    getHistory(playerId: string): RatingHistoryEntry[] {
+        return (this.entries.get(playerId) ?? []).map(entry => this.copy(entry));
+    }
+
+    /**
+     * Finds the state in effect at a date: the last one recorded on or before it.
+     * @param {string} playerId The player's id.
+     * @param {Date} date The date.
+     * @returns {RatingHistoryEntry | undefined} The state, or undefined if none was recorded by then.
+     */
+    ratingAt(playerId: string, date: Date): RatingHistoryEntry | undefined {
+        const history = this.entries.get(playerId) ?? [];
+        let found: RatingHistoryEntry | undefined;
+        for (const entry of history) {
+            if (entry.date.getTime() > date.getTime()) { break; }
+            found = entry;
+        }
+        return found && this.copy(found);
+    }
+
+    /**
+     * @param {string} playerId The player's id.
+     * @returns {RatingHistoryEntry | undefined} The earliest state with the highest rating.
+     */
+    peak(playerId: string): RatingHistoryEntry | undefined {
+        return this.extreme(playerId, (a, b) => a > b);
+    }
+
+    /**
+     * @param {string} playerId The player's id.
+     * @returns {RatingHistoryEntry | undefined} The earliest state with the lowest rating.
+     */
+    lowest(playerId: string): RatingHistoryEntry | undefined {
+        return this.extreme(playerId, (a, b) => a < b);
+    }
+
+    /**
+     * Finds the longest run of consecutive wins. Games are taken in date order; a draw or loss ends a streak.
+     * @param {string} playerId The player's id.
+     * @returns {number} The number of games in the longest winning streak.
+     */
+    longestWinStreak(playerId: string): number {
+        let longest = 0;
+        let current = 0;
+        for (const game of this.games(playerId)) {
+            current = game.score === 1 ? current + 1 : 0;
+            longest = Math.max(longest, current);
+        }
+        return longest;
+    }
+
+    /**
+     * Summarizes a player's results against one opponent.
+     * @param {string} playerId The player's id.
+     * @param {string} opponentId The opponent's id.
+     * @returns {HeadToHeadRecord} Wins, draws and losses. Scores above 0.5 count as wins, below as losses.
+     */
+    recordAgainst(playerId: string, opponentId: string): HeadToHeadRecord {
+        const record: HeadToHeadRecord = { opponentId, games: 0, wins: 0, draws: 0, losses: 0, score: 0 };
+        for (const game of this.games(playerId).filter(g => g.opponentId === opponentId)) {
+            record.games++;
+            record.score += game.score;
+            if (game.score > 0.5) { record.wins++; } else if (game.score < 0.5) { record.losses++; } else { record.draws++; }
+        }
+        return record;
+    }
+
+    /**
+     * Measures how a player's rating and RD changed over a date range.
+     * @param {string} playerId The player's id.
+     * @param {Date} from Start of the range. If no state was recorded by then, the first state in the range is used.
+     * @param {Date} to End of the range.
+     * @returns {RatingChange | undefined} The change, or undefined if the player has no state in effect at `to`.
+     */
+    changeBetween(playerId: string, from: Date, to: Date): RatingChange | undefined {
+        const end = this.ratingAt(playerId, to);
+        const start = this.ratingAt(playerId, from) ?? this.getHistory(playerId).find(entry => entry.date.getTime() >= from.getTime());
+        if (!end || !start || start.date.getTime() > end.date.getTime()) { return undefined; }
+        return { from: start, to: end, ratingChange: end.rating - start.rating, rdChange: end.rd - start.rd };
+    }
+
+    /**
+     * Exports recorded states as a JSON-friendly time series, ordered by date and then player id.
+     * @param {string[]} [playerIds] Only export these players. Defaults to every player.
+     * @returns {RatingTimeSeriesPoint[]} One point per recorded state.
+     */
+    toTimeSeries(playerIds?: string[]): RatingTimeSeriesPoint[] {
+        const points: { time: number; point: RatingTimeSeriesPoint }[] = [];
+        for (const id of playerIds ?? this.getPlayerIds()) {
+            for (const entry of this.entries.get(id) ?? []) {
+                const point: RatingTimeSeriesPoint = { playerId: id, date: entry.date.toISOString(), rating: entry.rating, rd: entry.rd, games: entry.games.length };
+                if (entry.volatility !== undefined) { point.volatility = entry.volatility; }
+                points.push({ time: entry.date.getTime(), point });
+            }
+        }
+        return points
+            .sort((a, b) => a.time - b.time || a.point.playerId.localeCompare(b.point.playerId))
+            .map(({ point }) => point);
+    }
+
+    /**
+     * Collects a player's games from every entry, in date order.
+     * @private
+     */
+    private games(playerId: string): PlayerGameResult[] {
+        return (this.entries.get(playerId) ?? [])
+            .flatMap(entry => entry.games)
+            .map((game, index) => ({ game, index }))
+            .sort((a, b) => a.game.datePlayed.getTime() - b.game.datePlayed.getTime() || a.index - b.index)
+            .map(({ game }) => game);
+    }
+
+    private extreme(playerId: string, isBetter: (a: number, b: number) => boolean): RatingHistoryEntry | undefined {
+        let best: RatingHistoryEntry | undefined;
+        for (const entry of this.entries.get(playerId) ?? []) {
+            if (!best || isBetter(entry.rating, best.rating)) { best = entry; }
+        }
+        return best && this.copy(best);
+    }
+
+    private copy(entry: RatingHistoryEntry): RatingHistoryEntry {
+        return { ...entry, date: new Date(entry.date.getTime()), games: entry.games.map(game => ({ ...game })) };
+    }
+}
@@ -0,0 +1,267 @@
+/**
+ * Simultaneous rating period processing.
+ * Updates every participant of a rating period at once, so that each player is rated against the
+ * start-of-period state of their opponents rather than against states already updated this period.
+ */
+
+import { Glicko } from './glicko';
+import { Player } from './interfaces/player';
+import { Match, MatchSide } from './interfaces/match';
+import { GameResult } from './interfaces/game-result';
+import { RatingEngine, RatingEngineConfig } from './interfaces/rating-engine';
+import { RatingStore } from './interfaces/rating-store';
+import { RatingWarning } from './interfaces/validation';
+import { GlickoValidationError } from './errors';
+
+/**
+ * Options for a single rating period.
+ */
+export interface RatingPeriodOptions {
+    /**
+     * Days of inactivity applied to every known player at the start of the period (Glicko step 1).
+     * Defaults to the engine's `daysPerRatingPeriod`; pass 0 to disable the inactivity update.
+     */
+    elapsedDays?: number;
+    /**
+     * The date the period is rated as of; games dated later are future-dated and skipped (or rejected in strict mode).
+     * Defaults to the engine's clock.
+     */
+    asOf?: Date;
+}
+
+/**
+ * The result of a rating period together with the games skipped in lenient mode.
+ */
+export interface RatingPeriodWithWarnings {
+    players: Record<string, Player>;
+    warnings: RatingWarning[]; // One per skipped game, in game order; `matchIndex` is the game's index in the input array
+}
+
+export class RatingPeriodProcessor {
+    private engine: RatingEngine;
+
+    /**
+     * Creates a processor for the given rating engine.
+     * @param {RatingEngine} [engine] The engine used for updates. Defaults to a Glicko-1 engine with default config.
+     */
+    constructor(engine?: RatingEngine) {
+        this.engine = engine ?? new Glicko();
+    }
+
+    /**
+     * Returns the configuration of the engine used for updates.
+     * @returns {Readonly<RatingEngineConfig>} The engine's configuration.
+     */
+    getConfig(): Readonly<RatingEngineConfig> {
+        return this.engine.getConfig();
+    }
+
+    /**
+     * Builds the start-of-period state for every player: known players receive the inactivity update,
+     * players appearing for the first time are initialized by the engine.
+     * Players who compete receive only the engine's `preRatingInactivityDays` of it, so that engines whose update
+     * already grows the deviation (Glicko-2) do not inflate it twice.
+     * @param {Record<string, Player>} players Player states keyed by id.
+     * @param {GameResult[]} games Games played during the period.
+     * @param {number} elapsedDays Days of inactivity to apply.
+     * @returns {Record<string, Player>} Start-of-period states keyed by id.
+     * @private
+     */
+    private buildPeriodStartStates(players: Record<string, Player>, games: GameResult[], elapsedDays: number): Record<string, Player> {
+        const competing = new Set(games.flatMap(game => [game.playerId, game.opponentId]));
+        const competingDays = this.engine.preRatingInactivityDays(elapsedDays);
+        const startStates: Record<string, Player> = {};
+        for (const [id, player] of Object.entries(players)) {
+            const days = competing.has(id) ? competingDays : elapsedDays;
+            startStates[id] = days > 0 ? this.engine.updateRDForInactivity(player, days) : { ...player };
+        }
+        for (const game of games) {
+            for (const id of [game.playerId, game.opponentId]) {
+                if (!startStates[id]) {
+                    startStates[id] = this.engine.initializeNewPlayer({ id });
+                }
+            }
+        }
+        return startStates;
+    }
+
+    /**
+     * Expands each game into one `Match` per side, using start-of-period states for both `player` and `opponent`.
+     * @param {Record<string, Player>} startStates Start-of-period states keyed by id.
+     * @param {GameResult[]} games Games played during the period.
+     * @returns {Map<string, { matches: Match[]; gameIndices: number[]; asRecorded: boolean[] }>} Matches grouped by the id
+     * of the player they belong to, with the index of the game each match comes from and whether it is the game as
+     * recorded (the `playerId` side).
+     * @throws {GlickoValidationError} If a game has a player facing themselves.
+     * @private
+     */
+    private groupMatchesByPlayer(startStates: Record<string, Player>, games: GameResult[]): Map<string, { matches: Match[]; gameIndices: number[]; asRecorded: boolean[] }> {
+        const matchesByPlayer = new Map<string, { matches: Match[]; gameIndices: number[]; asRecorded: boolean[] }>();
+        let gameIndex = 0;
+        const addMatch = (id: string, match: Match, asRecorded: boolean) => {
+            const existing = matchesByPlayer.get(id);
+            if (existing) {
+                existing.matches.push(match);
+                existing.gameIndices.push(gameIndex);
+                existing.asRecorded.push(asRecorded);
+            } else {
+                matchesByPlayer.set(id, { matches: [match], gameIndices: [gameIndex], asRecorded: [asRecorded] });
+            }
+        };
+
+        for (; gameIndex < games.length; gameIndex++) {
+            const game = games[gameIndex];
+            if (game.playerId === game.opponentId) {
+                throw new GlickoValidationError('opponentId', game.opponentId, `Player ${game.playerId} cannot play against themselves.`);
+            }
+            const player = startStates[game.playerId];
+            const opponent = startStates[game.opponentId];
+            const { datePlayed, weight } = game;
+            addMatch(game.playerId, { player, opponent, score: game.score, datePlayed, weight, side: game.side }, true);
+            addMatch(game.opponentId, { player: opponent, opponent: player, score: 1 - game.score, datePlayed, weight, side: RatingPeriodProcessor.otherSide(game.side) }, false);
+        }
+        return matchesByPlayer;
+    }
+
+    /**
+     * Returns the side the opponent took in a game.
+     * @param {MatchSide} [side] The side the player took, if known.
+     * @returns {MatchSide | undefined} The other side, or undefined if the side is not known.
+     */
+    static otherSide(side?: MatchSide): MatchSide | undefined {
+        if (side === undefined) { return undefined; }
+        return side === 'first' ? 'second' : 'first';
+    }
+
+    /**
+     * Processes one rating period for every participant at once.
+     *
+     * The process involves these steps:
+     * 1. Every known player receives the inactivity RD update for the elapsed period (for players who compete, as much
+     *    of it as the engine's `preRatingInactivityDays` allows); new ids are initialized.
+     * 2. Each game is expanded into a match for both sides, using the frozen start-of-period states.
+     * 3. Each player who played is updated from their start-of-period state; players who sat out keep
+     *    their start-of-period state (i.e. only the inactivity RD growth is applied).
+     *
+     * @param {Record<string, Player>} players Player states *before* the period, keyed by player id.
+     * @param {GameResult[]} games Every game played during the period, each recorded once.
+     * @param {RatingPeriodOptions} [options] Optional settings for the period.
+     * @returns {Record<string, Player>} Updated states for every known player and every new participant, keyed by id.
+     * @throws {GlickoValidationError} If `elapsedDays` is negative or a game has a player facing themselves.
+     */
+    process(players: Record<string, Player>, games: GameResult[], options?: RatingPeriodOptions): Record<string, Player> {
+        return this.processWithWarnings(players, games, options).players;
+    }
+
+    /**
+     * Same as `process`, but also reports the games skipped in lenient mode.
+     * A game skipped for either side is reported once, preferring the warning for the `playerId` side so that
+     * values such as the score read as recorded.
+     * @param {Record<string, Player>} players Player states *before* the period, keyed by player id.
+     * @param {GameResult[]} games Every game played during the period, each recorded once.
+     * @param {RatingPeriodOptions} [options] Optional settings for the period.
+     * @returns {RatingPeriodWithWarnings} The updated players and a warning for each skipped game.
+     * @throws {GlickoValidationError} As for `process`.
+     */
+    processWithWarnings(players: Record<string, Player>, games: GameResult[], options?: RatingPeriodOptions): RatingPeriodWithWarnings {
+        const elapsedDays = options?.elapsedDays ?? this.engine.getConfig().daysPerRatingPeriod;
+        if (elapsedDays < 0) { throw new GlickoValidationError('elapsedDays', elapsedDays, "elapsedDays cannot be negative."); }
+
+        const startStates = this.buildPeriodStartStates(players, games ?? [], elapsedDays);
+        const matchesByPlayer = this.groupMatchesByPlayer(startStates, games ?? []);
+
+        const updated: Record<string, Player> = {};
+        const warningsByGame = new Map<number, RatingWarning>();
+        for (const [id, startState] of Object.entries(startStates)) {
+            const grouped = matchesByPlayer.get(id);
+            if (!grouped) {
+                updated[id] = startState;
+                continue;
+            }
+            // Inactivity was already applied to the start-of-period state, so none is derived from match dates here.
+            const result = this.engine.processGameResultsWithWarnings(startState, grouped.matches, { daysSinceLastActive: 0, asOf: options?.asOf });
+            updated[id] = result.player;
+            for (const warning of result.warnings) {
+                const gameIndex = grouped.gameIndices[warning.matchIndex];
+                if (grouped.asRecorded[warning.matchIndex] || !warningsByGame.has(gameIndex)) {
+                    warningsByGame.set(gameIndex, { ...warning, matchIndex: gameIndex });
+                }
+            }
+        }
+        const warnings = [...warningsByGame.values()].sort((a, b) => a.matchIndex - b.matchIndex);
+        return { players: updated, warnings };
+    }
+
+    /**
+     * Processes one rating period from `Match`es between identified players, so that `Match.player` and
+     * `Match.opponent` name the two sides of each game. Each game is recorded once, from `player`'s perspective.
+     * Players missing from `players` start from the state the match carries for them, or are initialized by the
+     * engine if it carries no rating.
+     * @param {Record<string, Player>} players Player states *before* the period, keyed by player id.
+     * @param {Match[]} matches Every game played during the period, each recorded once.
+     * @param {RatingPeriodOptions} [options] Optional settings for the period.
+     * @returns {Record<string, Player>} Updated states for every known player and every new participant, keyed by id.
+     * @throws {GlickoValidationError} If a side has no id, or as for `process`.
+     */
+    processMatches(players: Record<string, Player>, matches: Match[], options?: RatingPeriodOptions): Record<string, Player> {
+        const games = matches.map(match => RatingPeriodProcessor.toGameResult(match));
+        const startPlayers = { ...players };
+        matches.forEach((match, i) => {
+            for (const [id, state] of [[games[i].playerId, match.player], [games[i].opponentId, match.opponent]] as const) {
+                if (!startPlayers[id] && state.rating !== undefined) {
+                    startPlayers[id] = { ...state, id };
+                }
+            }
+        });
+        return this.process(startPlayers, games, options);
+    }
+
+    /**
+     * Converts a match between identified players into a game record from `player`'s perspective.
+     * @param {Match} match The match; `player` and `opponent` both need an `id`.
+     * @returns {GameResult} The game, keeping the match's side and weight.
+     * @throws {GlickoValidationError} If either side has no id or a player faces themselves.
+     */
+    static toGameResult(match: Match): GameResult {
+        const playerId = match.player?.id;
+        const opponentId = (match.opponent as Player | undefined)?.id;
+        if (!playerId || !opponentId) {
+            throw new GlickoValidationError(playerId ? 'opponent.id' : 'player.id', playerId ? opponentId : playerId,
+                "Matches between identified players need an id on both the player and the opponent.");
+        }
+        if (playerId === opponentId) {
+            throw new GlickoValidationError('opponent.id', opponentId, `Player ${playerId} cannot play against themselves.`);
+        }
+        return {
+            playerId,
+            opponentId,
+            score: match.score,
+            datePlayed: match.datePlayed,
+            ...(match.side !== undefined && { side: match.side }),
+            ...(match.weight !== undefined && { weight: match.weight }),
+        };
+    }
+
+    /**
+     * Processes one rating period for every player in a rating store and writes the results back in one transaction.
+     * @param {RatingStore} store The store holding the players, keyed by `Player.id`.
+     * @param {GameResult[]} games Every game played during the period, each recorded once.
+     * @param {RatingPeriodOptions} [options] Optional settings for the period.
+     * @returns {Promise<Record<string, Player>>} Updated states for every player, keyed by id.
+     */
+    async processStore(store: RatingStore, games: GameResult[], options?: RatingPeriodOptions): Promise<Record<string, Player>> {
+        return store.transaction(async tx => {
+            const players: Record<string, Player> = {};
+            for (const player of await tx.list()) {
+                if (player.id) {
+                    players[player.id] = player;
+                }
+            }
+            const updated = this.process(players, games, options);
+            for (const [id, player] of Object.entries(updated)) {
+                await tx.put({ ...player, id });
+            }
+            return updated;
+        });
+    }
+}
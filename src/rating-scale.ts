@@ -0,0 +1,86 @@
+/**
+ * Rating scale conversions.
+ * Maps ratings and RDs between logistic scales with different centers and spreads (e.g. a house 0-3000 scale,
+ * classic Elo) and to and from the Glicko-2 internal mu/phi scale.
+ */
+
+import { Opponent } from './interfaces/opponent';
+import { ScaleParameters } from './interfaces/rating-scale';
+import { Glicko2Rating } from './glicko2';
+import { DEFAULT_SCALE_SPREAD, INITIAL_RATING } from './constants';
+import { InvalidConfigError } from './errors';
+
+export class RatingScale implements ScaleParameters {
+    readonly center: number;
+    readonly spread: number;
+
+    /**
+     * Creates a scale.
+     * @param {number} [center] The rating of an average player (default 1500).
+     * @param {number} [spread] The rating difference giving 10:1 odds (default 400).
+     * @throws {InvalidConfigError} If the center is not finite or the spread is not positive.
+     */
+    constructor(center: number = INITIAL_RATING, spread: number = DEFAULT_SCALE_SPREAD) {
+        if (!Number.isFinite(center)) { throw new InvalidConfigError('center', center, "Scale center must be a finite number."); }
+        if (!Number.isFinite(spread) || spread <= 0) { throw new InvalidConfigError('spread', spread, "Scale spread must be a positive number."); }
+        this.center = center;
+        this.spread = spread;
+    }
+
+    /**
+     * The Glicko constant for this scale: q = ln(10) / spread.
+     */
+    get q(): number {
+        return Math.log(10) / this.spread;
+    }
+
+    /**
+     * Converts a rating to another scale, preserving expected scores: the distance from the center is
+     * rescaled by the ratio of the spreads.
+     * @param {number} rating A rating on this scale.
+     * @param {ScaleParameters} target The target scale.
+     * @returns {number} The equivalent rating on the target scale.
+     */
+    convertRating(rating: number, target: ScaleParameters): number {
+        return target.center + (rating - this.center) * target.spread / this.spread;
+    }
+
+    /**
+     * Converts an RD to another scale.
+     * @param {number} rd An RD on this scale.
+     * @param {ScaleParameters} target The target scale.
+     * @returns {number} The equivalent RD on the target scale.
+     */
+    convertRD(rd: number, target: ScaleParameters): number {
+        return rd * target.spread / this.spread;
+    }
+
+    /**
+     * Converts a rating and RD to another scale, keeping every other field.
+     * @param {T} player The rating on this scale.
+     * @param {ScaleParameters} target The target scale.
+     * @returns {T} A copy with the rating and RD on the target scale.
+     */
+    convert<T extends Opponent>(player: T, target: ScaleParameters): T {
+        return { ...player, rating: this.convertRating(player.rating, target), rd: this.convertRD(player.rd, target) };
+    }
+
+    /**
+     * Converts a rating and RD to the Glicko-2 internal scale.
+     * Formula: mu = (r - center) * q, phi = RD * q (with the default scale, mu = (r - 1500) / 173.7178).
+     * @param {Opponent} player The rating and RD on this scale.
+     * @returns {Pick<Glicko2Rating, 'mu' | 'phi'>} The equivalent mu and phi.
+     */
+    toGlicko2(player: Opponent): Pick<Glicko2Rating, 'mu' | 'phi'> {
+        return { mu: (player.rating - this.center) * this.q, phi: player.rd * this.q };
+    }
+
+    /**
+     * Converts Glicko-2 internal values to this scale.
+     * @param {Pick<Glicko2Rating, 'mu' | 'phi'>} rating The mu and phi values.
+     * @returns {Opponent} The equivalent rating and RD.
+     */
+    fromGlicko2(rating: Pick<Glicko2Rating, 'mu' | 'phi'>): Opponent {
+        return { rating: this.center + rating.mu / this.q, rd: rating.phi / this.q };
+    }
+}
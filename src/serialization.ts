@@ -0,0 +1,296 @@
+/**
+ * Versioned JSON serialization.
+ * Players, player maps, configuration and match records are wrapped in a `{ schema, kind, version, data }` envelope,
+ * with dates written as ISO strings. Loading validates the data and runs migrations for older versions, so a
+ * snapshot written by one release can be read by the next.
+ */
+
+import { Player } from './interfaces/player';
+import { MatchRecord } from './interfaces/match-record';
+import {
+    SerializableConfig,
+    Snapshot,
+    SnapshotKind,
+    SnapshotMigration,
+    SnapshotSerializerOptions,
+    SnapshotTypes,
+} from './interfaces/serialization';
+import { DateUtils } from './utils/date-utils';
+import { SNAPSHOT_SCHEMA, SNAPSHOT_VERSION } from './constants';
+import { SnapshotError } from './errors';
+
+type JsonObject = Record<string, unknown>;
+
+const CONFIG_NUMBER_KEYS = [
+    'initialRating', 'initialRD', 'inactivityConstant', 'rdCeiling', 'daysPerRatingPeriod', 'roundingPrecision',
+    'scaleCenter', 'scaleSpread', 'ratingFloor', 'peakFloorOffset', 'maxRatingChangePerPeriod', 'minRD',
+    'firstMoveAdvantage',
+] as const;
+
+/**
+ * Replaces Date instances with ISO strings, for bare (version 0) values that were never passed through JSON.
+ */
+function datesToStrings(value: unknown): unknown {
+    if (value instanceof Date) { return value.toISOString(); }
+    if (Array.isArray(value)) { return value.map(datesToStrings); }
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, datesToStrings(entry)]));
+    }
+    return value;
+}
+
+/**
+ * Migrations shipped with the library. Bare values written before the envelope existed already have the
+ * version 1 shape once their dates are strings.
+ */
+const BUILT_IN_MIGRATIONS: SnapshotMigration[] = (['player', 'players', 'config', 'matchRecords'] as SnapshotKind[])
+    .map(kind => ({ kind, fromVersion: 0, migrate: datesToStrings }));
+
+export class SnapshotSerializer {
+    private migrations = new Map<string, (data: unknown) => unknown>();
+
+    /**
+     * Creates a serializer.
+     * @param {SnapshotSerializerOptions} [options] Additional migrations, e.g. for snapshots of an application's own older format.
+     */
+    constructor(options?: SnapshotSerializerOptions) {
+        for (const { kind, fromVersion, migrate } of [...BUILT_IN_MIGRATIONS, ...(options?.migrations ?? [])]) {
+            this.migrations.set(`${kind}@${fromVersion}`, migrate);
+        }
+    }
+
+    /**
+     * Wraps a value in a versioned, JSON-safe envelope.
+     * @param {SnapshotKind} kind What the value is.
+     * @param {SnapshotTypes[K]} value The value.
+     * @returns {Snapshot<K>} The envelope; pass it to `JSON.stringify` or use `stringify`.
+     */
+    serialize<K extends SnapshotKind>(kind: K, value: SnapshotTypes[K]): Snapshot<K> {
+        return { schema: SNAPSHOT_SCHEMA, kind, version: SNAPSHOT_VERSION, data: this.encode(kind, value) };
+    }
+
+    /**
+     * Serializes a value to a JSON string.
+     * @param {SnapshotKind} kind What the value is.
+     * @param {SnapshotTypes[K]} value The value.
+     * @param {number} [space] Indentation passed to `JSON.stringify`.
+     * @returns {string} The JSON text.
+     */
+    stringify<K extends SnapshotKind>(kind: K, value: SnapshotTypes[K], space?: number): string {
+        return JSON.stringify(this.serialize(kind, value), null, space);
+    }
+
+    /**
+     * Loads a snapshot: parses it if it is a string, migrates it to the current version and validates it.
+     * Input without an envelope is treated as a bare version 0 value (e.g. the output of `JSON.stringify(player)`).
+     * @param {SnapshotKind} kind The kind of value expected.
+     * @param {string | unknown} input JSON text or an already parsed value.
+     * @returns {SnapshotTypes[K]} The value, with dates revived.
+     * @throws {SnapshotError} If the JSON is invalid, the kind does not match, the version is newer than this release
+     * or has no migration, or the data fails validation.
+     */
+    deserialize<K extends SnapshotKind>(kind: K, input: string | unknown): SnapshotTypes[K] {
+        let parsed = input;
+        if (typeof input === 'string') {
+            try {
+                parsed = JSON.parse(input);
+            } catch (error) {
+                throw new SnapshotError('', input, `Snapshot is not valid JSON: ${(error as Error).message}`);
+            }
+        }
+
+        let version = 0;
+        let data = parsed;
+        if (parsed !== null && typeof parsed === 'object' && (parsed as JsonObject).schema === SNAPSHOT_SCHEMA) {
+            const envelope = parsed as JsonObject;
+            if (envelope.kind !== kind) {
+                throw new SnapshotError('kind', envelope.kind, `Expected a "${kind}" snapshot but found "${envelope.kind}".`);
+            }
+            if (typeof envelope.version !== 'number' || !Number.isInteger(envelope.version) || envelope.version < 0) {
+                throw new SnapshotError('version', envelope.version, "Snapshot version must be a non-negative integer.");
+            }
+            version = envelope.version;
+            data = envelope.data;
+        }
+
+        if (version > SNAPSHOT_VERSION) {
+            throw new SnapshotError('version', version, `Snapshot version ${version} is newer than the supported version ${SNAPSHOT_VERSION}.`);
+        }
+        for (; version < SNAPSHOT_VERSION; version++) {
+            const migrate = this.migrations.get(`${kind}@${version}`);
+            if (!migrate) {
+                throw new SnapshotError('version', version, `No migration for "${kind}" snapshots from version ${version}.`);
+            }
+            data = migrate(data);
+        }
+        return this.decode(kind, data);
+    }
+
+    private encode<K extends SnapshotKind>(kind: K, value: SnapshotTypes[K]): unknown {
+        switch (kind) {
+            case 'player':
+                return this.encodePlayer(value as Player);
+            case 'players':
+                return Object.fromEntries(Object.entries(value as Record<string, Player>).map(([id, player]) => [id, this.encodePlayer(player)]));
+            case 'config': {
+                const config = value as Partial<SerializableConfig>;
+                const data: JsonObject = {};
+                for (const key of [...CONFIG_NUMBER_KEYS, 'validationMode', 'roundingMode'] as const) {
+                    if (config[key] !== undefined) { data[key] = config[key]; }
+                }
+                return data;
+            }
+            default:
+                return (value as MatchRecord[]).map(record => ({
+                    id: record.id,
+                    period: record.period,
+                    playerId: record.playerId,
+                    opponentId: record.opponentId,
+                    score: record.score,
+                    datePlayed: record.datePlayed.toISOString(),
+                    ...(record.side !== undefined && { side: record.side }),
+                    ...(record.weight !== undefined && { weight: record.weight }),
+                }));
+        }
+    }
+
+    private encodePlayer(player: Player): JsonObject {
+        const data: JsonObject = {};
+        if (player.id !== undefined) { data.id = player.id; }
+        data.rating = player.rating;
+        data.rd = player.rd;
+        if (player.precise !== undefined) { data.precise = { rating: player.precise.rating, rd: player.precise.rd }; }
+        if (player.volatility !== undefined) { data.volatility = player.volatility; }
+        if (player.peakRating !== undefined) { data.peakRating = player.peakRating; }
+        if (player.lastPlayedMatch !== undefined) { data.lastPlayedMatch = player.lastPlayedMatch.toISOString(); }
+        return data;
+    }
+
+    private decode<K extends SnapshotKind>(kind: K, data: unknown): SnapshotTypes[K] {
+        switch (kind) {
+            case 'player':
+                return this.decodePlayer(data, 'data') as SnapshotTypes[K];
+            case 'players': {
+                const players: Record<string, Player> = {};
+                for (const [id, player] of Object.entries(this.requireObject(data, 'data'))) {
+                    players[id] = this.decodePlayer(player, `data.${id}`);
+                }
+                return players as SnapshotTypes[K];
+            }
+            case 'config':
+                return this.decodeConfig(data) as SnapshotTypes[K];
+            default: {
+                if (!Array.isArray(data)) { throw new SnapshotError('data', data, "data must be an array."); }
+                return data.map((raw, index) => this.decodeMatchRecord(raw, `data[${index}]`)) as SnapshotTypes[K];
+            }
+        }
+    }
+
+    private decodePlayer(raw: unknown, path: string): Player {
+        const data = this.requireObject(raw, path);
+        const player: Player = {
+            rating: this.requireNumber(data.rating, `${path}.rating`),
+            rd: this.requireNumber(data.rd, `${path}.rd`, true),
+        };
+        if (data.id !== undefined) { player.id = this.requireString(data.id, `${path}.id`); }
+        if (data.precise !== undefined) {
+            const precise = this.requireObject(data.precise, `${path}.precise`);
+            player.precise = {
+                rating: this.requireNumber(precise.rating, `${path}.precise.rating`),
+                rd: this.requireNumber(precise.rd, `${path}.precise.rd`, true),
+            };
+        }
+        if (data.volatility !== undefined) { player.volatility = this.requireNumber(data.volatility, `${path}.volatility`, true); }
+        if (data.peakRating !== undefined) { player.peakRating = this.requireNumber(data.peakRating, `${path}.peakRating`); }
+        if (data.lastPlayedMatch !== undefined && data.lastPlayedMatch !== null) {
+            player.lastPlayedMatch = this.requireDate(data.lastPlayedMatch, `${path}.lastPlayedMatch`);
+        }
+        return player;
+    }
+
+    private decodeConfig(raw: unknown): Partial<SerializableConfig> {
+        const data = this.requireObject(raw, 'data');
+        const config: Partial<SerializableConfig> = {};
+        for (const [key, value] of Object.entries(data)) {
+            if ((CONFIG_NUMBER_KEYS as readonly string[]).includes(key)) {
+                config[key as typeof CONFIG_NUMBER_KEYS[number]] = this.requireNumber(value, `data.${key}`);
+            } else if (key === 'validationMode') {
+                if (value !== 'strict' && value !== 'lenient') {
+                    throw new SnapshotError('data.validationMode', value, "data.validationMode must be 'strict' or 'lenient'.");
+                }
+                config.validationMode = value;
+            } else if (key === 'roundingMode') {
+                if (value !== 'half-up' && value !== 'half-even' && value !== 'truncate') {
+                    throw new SnapshotError('data.roundingMode', value, "data.roundingMode must be 'half-up', 'half-even' or 'truncate'.");
+                }
+                config.roundingMode = value;
+            } else {
+                throw new SnapshotError(`data.${key}`, value, `Unknown configuration key "${key}".`);
+            }
+        }
+        return config;
+    }
+
+    private decodeMatchRecord(raw: unknown, path: string): MatchRecord {
+        const data = this.requireObject(raw, path);
+        const period = this.requireNumber(data.period, `${path}.period`);
+        if (period < 0 || !Number.isInteger(period)) {
+            throw new SnapshotError(`${path}.period`, period, `${path}.period must be a non-negative integer.`);
+        }
+        const score = this.requireNumber(data.score, `${path}.score`);
+        if (score < 0 || score > 1) {
+            throw new SnapshotError(`${path}.score`, score, `${path}.score must be between 0 and 1.`);
+        }
+        const record: MatchRecord = {
+            id: this.requireString(data.id, `${path}.id`),
+            period,
+            playerId: this.requireString(data.playerId, `${path}.playerId`),
+            opponentId: this.requireString(data.opponentId, `${path}.opponentId`),
+            score,
+            datePlayed: this.requireDate(data.datePlayed, `${path}.datePlayed`),
+        };
+        if (data.side !== undefined) {
+            if (data.side !== 'first' && data.side !== 'second') {
+                throw new SnapshotError(`${path}.side`, data.side, `${path}.side must be 'first' or 'second'.`);
+            }
+            record.side = data.side;
+        }
+        if (data.weight !== undefined) {
+            const weight = this.requireNumber(data.weight, `${path}.weight`);
+            if (weight < 0) {
+                throw new SnapshotError(`${path}.weight`, weight, `${path}.weight must be non-negative.`);
+            }
+            record.weight = weight;
+        }
+        return record;
+    }
+
+    private requireObject(value: unknown, path: string): JsonObject {
+        if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+            throw new SnapshotError(path, value, `${path} must be an object.`);
+        }
+        return value as JsonObject;
+    }
+
+    private requireNumber(value: unknown, path: string, positive = false): number {
+        if (typeof value !== 'number' || !Number.isFinite(value) || (positive && value <= 0)) {
+            throw new SnapshotError(path, value, `${path} must be a ${positive ? 'positive' : 'finite'} number.`);
+        }
+        return value;
+    }
+
+    private requireString(value: unknown, path: string): string {
+        if (typeof value !== 'string') {
+            throw new SnapshotError(path, value, `${path} must be a string.`);
+        }
+        return value;
+    }
+
+    private requireDate(value: unknown, path: string): Date {
+        const date = typeof value === 'string' ? new Date(value) : undefined;
+        if (!DateUtils.isValidDate(date)) {
+            throw new SnapshotError(path, value, `${path} must be an ISO 8601 date string.`);
+        }
+        return date;
+    }
+}
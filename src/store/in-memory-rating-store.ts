@@ -0,0 +1,98 @@
+import { Player } from '../interfaces/player';
+import { RatingStore, RatingStoreWriter } from '../interfaces/rating-store';
+import { GlickoValidationError } from '../errors';
+
+/**
+ * Rating store that keeps players in memory.
+ * Transactions run one at a time; their writes are staged and applied together when the transaction completes.
+ */
+export class InMemoryRatingStore implements RatingStore {
+    protected players = new Map<string, Player>();
+    private pendingTransaction: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Creates an in-memory store, optionally seeded with players.
+     * @param {Player[]} [players] Initial players. Each must have an `id`.
+     */
+    constructor(players?: Player[]) {
+        for (const player of players ?? []) {
+            this.players.set(this.requireId(player), { ...player });
+        }
+    }
+
+    /**
+     * Returns the id of a player that is about to be stored.
+     * @param {Player} player The player.
+     * @returns {string} The player's id.
+     * @throws {GlickoValidationError} If the player has no id.
+     * @protected
+     */
+    protected requireId(player: Player): string {
+        if (!player.id) { throw new GlickoValidationError('id', player.id, "Player must have an id to be stored."); }
+        return player.id;
+    }
+
+    /**
+     * Called before the stored players change. Subclasses implement this to persist the new state; if it rejects,
+     * the change is not applied.
+     * @param {Map<string, Player>} players Every player after the change, keyed by id.
+     * @protected
+     */
+    protected persist?(players: Map<string, Player>): Promise<void>;
+
+    async get(id: string): Promise<Player | undefined> {
+        const player = this.players.get(id);
+        return player ? { ...player } : undefined;
+    }
+
+    async list(): Promise<Player[]> {
+        return Array.from(this.players.values(), player => ({ ...player }));
+    }
+
+    /**
+     * Stores a player. Runs as a single-write transaction, so it is queued behind pending transactions and writes.
+     * Inside a `transaction` callback, use the callback's `tx.put` instead: this call would wait for the
+     * transaction it is part of and never resolve.
+     * @param {Player} player The player. Must have an `id`.
+     * @returns {Promise<void>} Resolves once the player is stored and persisted.
+     */
+    async put(player: Player): Promise<void> {
+        await this.transaction(tx => tx.put(player));
+    }
+
+    /**
+     * Runs `work` against a staged view of the store. Reads see the transaction's own writes;
+     * writes are applied to the store only if `work` resolves and they are persisted.
+     * Transactions run one at a time, so `work` must not call `put` or `transaction` on the store itself.
+     * @param {(tx: RatingStoreWriter) => Promise<T> | T} work The transactional work.
+     * @returns {Promise<T>} The value returned by `work`.
+     */
+    async transaction<T>(work: (tx: RatingStoreWriter) => Promise<T> | T): Promise<T> {
+        const run = this.pendingTransaction.then(async () => {
+            const staged = new Map<string, Player>();
+            const tx: RatingStoreWriter = {
+                get: async (id: string) => {
+                    const player = staged.get(id) ?? this.players.get(id);
+                    return player ? { ...player } : undefined;
+                },
+                list: async () => {
+                    const merged = new Map([...this.players, ...staged]);
+                    return Array.from(merged.values(), player => ({ ...player }));
+                },
+                put: async (player: Player) => {
+                    staged.set(this.requireId(player), { ...player });
+                },
+            };
+
+            const result = await work(tx);
+            if (staged.size > 0) {
+                const next = new Map([...this.players, ...staged]);
+                await this.persist?.(next);
+                this.players = next;
+            }
+            return result;
+        });
+        this.pendingTransaction = run.catch(() => undefined);
+        return run;
+    }
+}
@@ -0,0 +1,58 @@
+import { promises as fs } from 'fs';
+import { Player } from '../interfaces/player';
+import { InMemoryRatingStore } from './in-memory-rating-store';
+import { SnapshotSerializer } from '../serialization';
+import { SnapshotError } from '../errors';
+
+/**
+ * Rating store backed by a JSON file containing an array of players.
+ * The file is read once by `open` and rewritten after every committed change.
+ */
+export class JsonFileRatingStore extends InMemoryRatingStore {
+    private constructor(private readonly filePath: string, players: Player[]) {
+        super(players);
+    }
+
+    /**
+     * Opens (or prepares to create) a JSON file store.
+     * @param {string} filePath Path to the JSON file. A missing file is treated as an empty store.
+     * @returns {Promise<JsonFileRatingStore>} The opened store.
+     * @throws {SnapshotError} If the file exists but does not contain a JSON array of players, or a player in it is malformed.
+     */
+    static async open(filePath: string): Promise<JsonFileRatingStore> {
+        let contents: string;
+        try {
+            contents = await fs.readFile(filePath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return new JsonFileRatingStore(filePath, []);
+            }
+            throw error;
+        }
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(contents);
+        } catch (error) {
+            throw new SnapshotError('players', contents, `Rating store file ${filePath} is not valid JSON: ${(error as Error).message}`);
+        }
+        if (!Array.isArray(parsed)) {
+            throw new SnapshotError('players', parsed, `Rating store file ${filePath} must contain a JSON array of players.`);
+        }
+        const serializer = new SnapshotSerializer();
+        const players = parsed.map(raw => serializer.deserialize('player', raw));
+        return new JsonFileRatingStore(filePath, players);
+    }
+
+    /**
+     * Writes all players to a temporary file and renames it over the store file,
+     * so a crash mid-write never leaves a truncated file behind.
+     * @param {Map<string, Player>} players Every player after the change, keyed by id.
+     * @protected
+     */
+    protected async persist(players: Map<string, Player>): Promise<void> {
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(Array.from(players.values()), null, 2), 'utf8');
+        await fs.rename(tempPath, this.filePath);
+    }
+}
@@ -0,0 +1,243 @@
+/**
+ * Streaming rating periods.
+ * Consumes a feed of matches, buckets them into rating periods by `datePlayed`, closes each period by watermark or
+ * on a schedule and rates it with `RatingPeriodProcessor`, so callers never have to group matches themselves.
+ */
+
+import { Glicko } from './glicko';
+import { Player } from './interfaces/player';
+import { Match } from './interfaces/match';
+import { GameResult } from './interfaces/game-result';
+import { RatingEngine } from './interfaces/rating-engine';
+import { ClosedPeriod, LateMatch, StreamingOptions } from './interfaces/streaming';
+import { RatingPeriodProcessor } from './rating-period';
+import { DateUtils } from './utils/date-utils';
+import { GlickoValidationError, InvalidConfigError, LateMatchError } from './errors';
+
+export class StreamingRatingProcessor {
+    private engine: RatingEngine;
+    private processor: RatingPeriodProcessor;
+    private options: Required<Omit<StreamingOptions, 'origin' | 'players' | 'onLateMatch'>> & Pick<StreamingOptions, 'onLateMatch'>;
+    private origin: Date | undefined;
+    private players: Record<string, Player>;
+    private openPeriods = new Map<number, GameResult[]>();
+    private seeds = new Map<string, Player>();
+    private lateMatches: LateMatch[] = [];
+    private nextPeriod = 0; // The earliest period not yet closed
+    private latestDate: number | undefined;
+
+    /**
+     * Creates a streaming processor.
+     * @param {RatingEngine} [engine] The engine used for updates. Defaults to a Glicko-1 engine with default config.
+     * @param {StreamingOptions} [options] Period origin, closing and late-match policies and initial player states.
+     * @throws {InvalidConfigError} If an option is out of range.
+     */
+    constructor(engine?: RatingEngine, options?: StreamingOptions) {
+        this.engine = engine ?? new Glicko();
+        this.processor = new RatingPeriodProcessor(this.engine);
+        this.options = { closeOn: 'watermark', allowedLatenessDays: 0, lateMatchPolicy: 'drop', ...options };
+        this.origin = options?.origin;
+        this.players = { ...options?.players };
+
+        if (this.origin !== undefined && !DateUtils.isValidDate(this.origin)) {
+            throw new InvalidConfigError('origin', this.origin, "origin must be a valid date.");
+        }
+        if (!(this.options.allowedLatenessDays >= 0)) {
+            throw new InvalidConfigError('allowedLatenessDays', this.options.allowedLatenessDays, "allowedLatenessDays must be non-negative.");
+        }
+        if (this.options.closeOn !== 'watermark' && this.options.closeOn !== 'schedule') {
+            throw new InvalidConfigError('closeOn', this.options.closeOn, "closeOn must be 'watermark' or 'schedule'.");
+        }
+        if (!['drop', 'next-period', 'error'].includes(this.options.lateMatchPolicy)) {
+            throw new InvalidConfigError('lateMatchPolicy', this.options.lateMatchPolicy, "lateMatchPolicy must be 'drop', 'next-period' or 'error'.");
+        }
+    }
+
+    /**
+     * Returns every known player's state after the last closed period.
+     * @returns {Record<string, Player>} Player states keyed by id.
+     */
+    getPlayers(): Record<string, Player> {
+        return { ...this.players };
+    }
+
+    /**
+     * Consumes a feed of matches and yields each rating period as it is closed.
+     * With `closeOn: 'schedule'`, periods are also checked against the clock as each match arrives; use
+     * `closeDuePeriods` from a timer to close periods while the feed is quiet.
+     * @param {AsyncIterable<Match> | Iterable<Match>} matches The feed. Each match is one game, recorded once: both
+     * `player` and `opponent` are rated, and both need an `id`.
+     * @param {{ flushOnEnd?: boolean }} [options] Whether the periods still open are closed when the feed ends (default true).
+     * @returns {AsyncGenerator<ClosedPeriod>} The closed periods, in order.
+     * @throws {GlickoValidationError} As for `push`.
+     */
+    async *process(matches: AsyncIterable<Match> | Iterable<Match>, options?: { flushOnEnd?: boolean }): AsyncGenerator<ClosedPeriod> {
+        for await (const match of matches) {
+            yield* this.push(match);
+            if (this.options.closeOn === 'schedule') {
+                yield* this.closeDuePeriods();
+            }
+        }
+        if (options?.flushOnEnd ?? true) {
+            yield* this.flush();
+        }
+    }
+
+    /**
+     * Adds one match and closes every period its date makes due under the watermark policy.
+     *
+     * The process involves these steps:
+     * 1. The match is assigned to the period containing its `datePlayed`; period 0 starts at `origin`, or at the
+     *    first match's date, and every period lasts `daysPerRatingPeriod` days.
+     * 2. If that period is already closed, the late-match policy drops it, moves it to the earliest open period or throws.
+     *    A match dated before the origin belongs to no period and is rejected.
+     * 3. With `closeOn: 'watermark'`, every period ending at least `allowedLatenessDays` before the latest match
+     *    date seen so far is closed, in order; empty periods in between are closed too and apply one period of inactivity.
+     *
+     * Players appearing for the first time start from the state carried by the match.
+     * @param {Match} match The match, recorded once for both players.
+     * @returns {ClosedPeriod[]} The periods closed by this match, in order.
+     * @throws {GlickoValidationError} If a player has no id, a player faces themselves, or the date is invalid or before the origin.
+     * @throws {LateMatchError} If the match is late and the policy is `'error'`.
+     */
+    push(match: Match): ClosedPeriod[] {
+        const game = this.toGameResult(match);
+        const origin = this.origin ??= game.datePlayed;
+        const { daysPerRatingPeriod } = this.engine.getConfig();
+        const period = DateUtils.periodIndex(origin, game.datePlayed, daysPerRatingPeriod);
+
+        if (period < 0) {
+            throw new GlickoValidationError('datePlayed', game.datePlayed,
+                `Match between ${game.playerId} and ${game.opponentId} is dated before the stream's origin (${origin.toISOString()}); `
+                + "set `origin` to the start of the earliest period the feed can contain.");
+        }
+
+        let target = period;
+        if (period < this.nextPeriod) {
+            const { lateMatchPolicy, onLateMatch } = this.options;
+            if (lateMatchPolicy === 'error') {
+                throw new LateMatchError('datePlayed', game.datePlayed,
+                    `Match between ${game.playerId} and ${game.opponentId} belongs to period ${period}, which is already closed.`);
+            }
+            const late: LateMatch = lateMatchPolicy === 'next-period'
+                ? { match, period, action: 'moved', ratedInPeriod: this.nextPeriod }
+                : { match, period, action: 'dropped' };
+            this.lateMatches.push(late);
+            onLateMatch?.(late);
+            if (lateMatchPolicy === 'drop') {
+                return [];
+            }
+            target = this.nextPeriod;
+        }
+
+        for (const [id, player] of [[game.playerId, match.player], [game.opponentId, match.opponent]] as const) {
+            if (!this.players[id] && !this.seeds.has(id)) {
+                this.seeds.set(id, player?.rating !== undefined ? { ...player, id } : this.engine.initializeNewPlayer({ id }));
+            }
+        }
+        const games = this.openPeriods.get(target);
+        if (games) {
+            games.push(game);
+        } else {
+            this.openPeriods.set(target, [game]);
+        }
+
+        this.latestDate = Math.max(this.latestDate ?? -Infinity, game.datePlayed.getTime());
+        if (this.options.closeOn !== 'watermark') {
+            return [];
+        }
+        return this.closeEndedBy(new Date(this.latestDate));
+    }
+
+    /**
+     * Closes every open period that ended at least `allowedLatenessDays` before the given time (the scheduled policy).
+     * Can be called with either policy, e.g. from a timer.
+     * @param {Date} [now] The current time (default: the engine's clock).
+     * @returns {ClosedPeriod[]} The periods closed, in order.
+     */
+    closeDuePeriods(now?: Date): ClosedPeriod[] {
+        return this.closeEndedBy(now ?? this.engine.getConfig().clock.now());
+    }
+
+    /**
+     * Closes every open period, regardless of the closing policy, e.g. at the end of a feed.
+     * Late matches dropped after the last open period closed are not returned, as no period is left to list them;
+     * `onLateMatch` is the only way to see them.
+     * @returns {ClosedPeriod[]} The periods closed, in order.
+     */
+    flush(): ClosedPeriod[] {
+        if (this.openPeriods.size === 0) { return []; }
+        return this.closeThrough(Math.max(...this.openPeriods.keys()));
+    }
+
+    /**
+     * Closes the periods whose end plus the allowed lateness is at or before `time`.
+     * @private
+     */
+    private closeEndedBy(time: Date): ClosedPeriod[] {
+        if (!this.origin || this.openPeriods.size === 0) { return []; }
+        const { daysPerRatingPeriod } = this.engine.getConfig();
+        const lastOpen = Math.max(...this.openPeriods.keys());
+        let last = this.nextPeriod - 1;
+        while (last < lastOpen) {
+            const end = DateUtils.periodStart(this.origin, last + 2, daysPerRatingPeriod);
+            if (end > time || DateUtils.daysBetween(end, time) < this.options.allowedLatenessDays) { break; }
+            last++;
+        }
+        return this.closeThrough(last);
+    }
+
+    /**
+     * Rates and closes every period from the earliest open one up to `last`, including empty ones.
+     * @private
+     */
+    private closeThrough(last: number): ClosedPeriod[] {
+        const closed: ClosedPeriod[] = [];
+        const { daysPerRatingPeriod } = this.engine.getConfig();
+        for (; this.nextPeriod <= last; this.nextPeriod++) {
+            const period = this.nextPeriod;
+            const games = this.openPeriods.get(period) ?? [];
+            this.openPeriods.delete(period);
+            for (const game of games) {
+                for (const id of [game.playerId, game.opponentId]) {
+                    const seed = this.seeds.get(id);
+                    if (seed && !this.players[id]) {
+                        this.players[id] = seed;
+                    }
+                    this.seeds.delete(id);
+                }
+            }
+
+            // The first period starts the stream, so no inactivity is applied before it. Games are checked against
+            // the period's end rather than the clock, so a feed can be replayed at any time.
+            const end = DateUtils.periodStart(this.origin as Date, period + 1, daysPerRatingPeriod);
+            const { players, warnings } = this.processor.processWithWarnings(this.players, games,
+                period === 0 ? { elapsedDays: 0, asOf: end } : { asOf: end });
+            const skipped = new Set(warnings.map(warning => warning.matchIndex));
+            this.players = players;
+            closed.push({
+                period,
+                start: DateUtils.periodStart(this.origin as Date, period, daysPerRatingPeriod),
+                end,
+                games: games.filter((_, i) => !skipped.has(i)),
+                warnings,
+                players: { ...this.players },
+                lateMatches: this.lateMatches,
+            });
+            this.lateMatches = [];
+        }
+        return closed;
+    }
+
+    /**
+     * Converts a streamed match into a game record, checking the ids and the date.
+     * @private
+     */
+    private toGameResult(match: Match): GameResult {
+        const game = RatingPeriodProcessor.toGameResult(match);
+        if (!DateUtils.isValidDate(game.datePlayed)) {
+            throw new GlickoValidationError('datePlayed', game.datePlayed, `Match between ${game.playerId} and ${game.opponentId} has no valid date.`);
+        }
+        return game;
+    }
+}
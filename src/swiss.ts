@@ -0,0 +1,363 @@
+/**
+ * Swiss-system tournament pairing.
+ * Pairs each round by score group and then by rating, never repeats a pairing, hands out byes and balances colors,
+ * and turns the recorded results into matches for rating updates at the end of the event.
+ */
+
+import { Player } from './interfaces/player';
+import { Match } from './interfaces/match';
+import { GameResult } from './interfaces/game-result';
+import { PieceColor, SwissOptions, SwissPairing, SwissRound, SwissStanding } from './interfaces/swiss';
+import { Clock } from './interfaces/clock';
+import { systemClock } from './utils/clock';
+import { GlickoValidationError, InvalidConfigError, InvalidScoreError } from './errors';
+
+/**
+ * Pairing-time view of an entrant.
+ */
+interface EntrantState {
+    player: Player;
+    id: string;
+    points: number;
+    opponents: Set<string>;
+    colors: PieceColor[];
+    hadBye: boolean;
+}
+
+interface RecordedRound {
+    datePlayed: Date;
+    pairings: { white: string; black: string; score?: number }[];
+    bye?: string;
+}
+
+export class SwissTournament {
+    private entrants = new Map<string, Player>();
+    private rounds: RecordedRound[] = [];
+    private byeScore: number;
+    private clock: Clock;
+
+    /**
+     * Creates a Swiss-system event.
+     * @param {Player[]} entrants The entrants, each with a unique `id`. Their ratings are used for pairing and as the
+     * start-of-event state in `toMatches`.
+     * @param {SwissOptions} [options] Bye score and clock.
+     * @throws {GlickoValidationError} If there are fewer than two entrants or an id is missing or duplicated.
+     * @throws {InvalidConfigError} If the bye score is outside [0, 1].
+     */
+    constructor(entrants: Player[], options?: SwissOptions) {
+        if (entrants.length < 2) {
+            throw new GlickoValidationError('entrants', entrants.length, "A Swiss event needs at least two entrants.");
+        }
+        for (const entrant of entrants) {
+            if (!entrant.id) { throw new GlickoValidationError('id', entrant.id, "Every entrant must have an id."); }
+            if (this.entrants.has(entrant.id)) { throw new GlickoValidationError('id', entrant.id, `Entrant ${entrant.id} appears more than once.`); }
+            this.entrants.set(entrant.id, entrant);
+        }
+        this.byeScore = options?.byeScore ?? 1;
+        if (this.byeScore < 0 || this.byeScore > 1) {
+            throw new InvalidConfigError('byeScore', this.byeScore, "byeScore must be between 0 and 1.");
+        }
+        this.clock = options?.clock ?? systemClock;
+    }
+
+    /**
+     * Pairs the next round.
+     *
+     * The process involves these steps:
+     * 1. Entrants are ranked by points, then rating (then id).
+     * 2. With an odd field, the bye goes to the lowest-ranked entrant who has not had one yet.
+     * 3. From the top, each entrant is paired within their score group, top half against bottom half; an entrant who
+     *    cannot be paired in their group floats down to the next one. Rematches and pairings that would force a
+     *    player into a third consecutive game, or a color imbalance above 2, with the same color are ruled out, and
+     *    the search backtracks until every entrant is paired. If the color rules leave no pairing, the round is paired
+     *    again under the rematch rule alone.
+     * 4. Colors go to the player with fewer Whites so far, then to the one who had Black last; otherwise the
+     *    higher-ranked player alternates (or, in round 1, takes White on odd boards).
+     *
+     * @param {Date} [datePlayed] The date of the round. Defaults to the clock's current time.
+     * @returns {SwissRound} The pairings, in board order.
+     * @throws {GlickoValidationError} If the previous round has unrecorded results or no pairing without rematches exists.
+     */
+    pairNextRound(datePlayed?: Date): SwissRound {
+        const previous = this.rounds[this.rounds.length - 1];
+        if (previous && previous.pairings.some(pairing => pairing.score === undefined)) {
+            throw new GlickoValidationError('round', this.rounds.length, `Round ${this.rounds.length} still has unrecorded results.`);
+        }
+
+        const states = this.buildStates();
+        const ranked = [...states.values()].sort((a, b) => b.points - a.points
+            || b.player.rating - a.player.rating
+            || a.id.localeCompare(b.id));
+
+        // Color constraints are dropped only when they are all that stands in the way of a pairing without rematches.
+        const paired = this.pairRound(ranked, true) ?? this.pairRound(ranked, false);
+        if (!paired) {
+            throw new GlickoValidationError('round', this.rounds.length + 1, `Round ${this.rounds.length + 1} cannot be paired without rematches.`);
+        }
+        const { pairs, bye } = paired;
+
+        const round: RecordedRound = {
+            datePlayed: datePlayed ?? this.clock.now(),
+            pairings: pairs.map(([higher, lower], index) => {
+                const higherColor = this.chooseColor(higher, lower, index + 1);
+                return higherColor === 'white' ? { white: higher.id, black: lower.id } : { white: lower.id, black: higher.id };
+            }),
+            bye: bye?.id,
+        };
+        this.rounds.push(round);
+        return this.toSwissRound(round, this.rounds.length);
+    }
+
+    /**
+     * Records (or corrects) the result of one board.
+     * @param {number} board The 1-based board number.
+     * @param {number} score White's score: 1 = White won, 0.5 = draw, 0 = Black won.
+     * @param {number} [round] The 1-based round. Defaults to the latest round.
+     * @throws {InvalidScoreError} If the score is outside [0, 1].
+     * @throws {GlickoValidationError} If the round or board does not exist.
+     */
+    recordResult(board: number, score: number, round?: number): void {
+        if (score < 0 || score > 1) { throw new InvalidScoreError('score', score, "Score must be between 0 and 1."); }
+        const roundNumber = round ?? this.rounds.length;
+        const recorded = this.rounds[roundNumber - 1];
+        if (!recorded) { throw new GlickoValidationError('round', roundNumber, `Round ${roundNumber} has not been paired.`); }
+        const pairing = recorded.pairings[board - 1];
+        if (!pairing) { throw new GlickoValidationError('board', board, `Round ${roundNumber} has no board ${board}.`); }
+        pairing.score = score;
+    }
+
+    /**
+     * @returns {SwissRound[]} Every round paired so far, with any recorded results.
+     */
+    getRounds(): SwissRound[] {
+        return this.rounds.map((round, index) => this.toSwissRound(round, index + 1));
+    }
+
+    /**
+     * Computes the current standings from the recorded results, sorted by points, Buchholz, Sonneborn-Berger
+     * and rating. Unrecorded games count for neither side.
+     * @returns {SwissStanding[]} One row per entrant.
+     */
+    standings(): SwissStanding[] {
+        const states = this.buildStates();
+        const rows = [...states.values()].map(state => {
+            let buchholz = 0;
+            let sonnebornBerger = 0;
+            let gamesPlayed = 0;
+            for (const { opponentId, score } of this.gamesOf(state.id)) {
+                const opponentPoints = (states.get(opponentId) as EntrantState).points;
+                buchholz += opponentPoints;
+                sonnebornBerger += score * opponentPoints;
+                gamesPlayed++;
+            }
+            const whites = state.colors.filter(color => color === 'white').length;
+            return {
+                player: state.player,
+                points: state.points,
+                buchholz,
+                sonnebornBerger,
+                gamesPlayed,
+                byes: this.rounds.filter(round => round.bye === state.id).length,
+                colorBalance: whites - (state.colors.length - whites),
+            };
+        }).sort((a, b) => b.points - a.points
+            || b.buchholz - a.buchholz
+            || b.sonnebornBerger - a.sonnebornBerger
+            || b.player.rating - a.player.rating
+            || (a.player.id as string).localeCompare(b.player.id as string));
+
+        const standings: SwissStanding[] = [];
+        rows.forEach((row, index) => {
+            const previous = standings[index - 1];
+            const tied = previous && previous.points === row.points && previous.buchholz === row.buchholz
+                && previous.sonnebornBerger === row.sonnebornBerger;
+            standings.push({ rank: tied ? previous.rank : index + 1, ...row });
+        });
+        return standings;
+    }
+
+    /**
+     * Expands every recorded game into one `Match` per side, against the opponent's start-of-event state, ready for
+     * `processGameResults` at the end of the event, with White on the first-moving side. Byes are not rated.
+     * @returns {Record<string, Match[]>} Matches keyed by entrant id; entrants without a rated game are omitted.
+     */
+    toMatches(): Record<string, Match[]> {
+        const matches: Record<string, Match[]> = {};
+        for (const game of this.toGameResults()) {
+            const player = this.entrants.get(game.playerId) as Player;
+            const opponent = this.entrants.get(game.opponentId) as Player;
+            (matches[game.playerId] ??= []).push({ player, opponent, score: game.score, datePlayed: game.datePlayed, side: 'first' });
+            (matches[game.opponentId] ??= []).push({ player: opponent, opponent: player, score: 1 - game.score, datePlayed: game.datePlayed, side: 'second' });
+        }
+        return matches;
+    }
+
+    /**
+     * Lists every recorded game once, from White's perspective (White moves first), for use with `RatingPeriodProcessor`.
+     * @returns {GameResult[]} The games in round and board order.
+     */
+    toGameResults(): GameResult[] {
+        return this.rounds.flatMap(round => round.pairings
+            .filter(pairing => pairing.score !== undefined)
+            .map(pairing => ({
+                playerId: pairing.white,
+                opponentId: pairing.black,
+                score: pairing.score as number,
+                datePlayed: round.datePlayed,
+                side: 'first' as const,
+            })));
+    }
+
+    /**
+     * Derives points, opponents, colors and byes for every entrant from the recorded rounds.
+     * @private
+     */
+    private buildStates(): Map<string, EntrantState> {
+        const states = new Map<string, EntrantState>();
+        for (const [id, player] of this.entrants) {
+            states.set(id, { player, id, points: 0, opponents: new Set(), colors: [], hadBye: false });
+        }
+        for (const round of this.rounds) {
+            for (const { white, black, score } of round.pairings) {
+                const whiteState = states.get(white) as EntrantState;
+                const blackState = states.get(black) as EntrantState;
+                whiteState.opponents.add(black);
+                blackState.opponents.add(white);
+                whiteState.colors.push('white');
+                blackState.colors.push('black');
+                if (score !== undefined) {
+                    whiteState.points += score;
+                    blackState.points += 1 - score;
+                }
+            }
+            if (round.bye) {
+                const byeState = states.get(round.bye) as EntrantState;
+                byeState.points += this.byeScore;
+                byeState.hadBye = true;
+            }
+        }
+        return states;
+    }
+
+    private gamesOf(id: string): { opponentId: string; score: number }[] {
+        const games: { opponentId: string; score: number }[] = [];
+        for (const round of this.rounds) {
+            for (const { white, black, score } of round.pairings) {
+                if (score === undefined) { continue; }
+                if (white === id) { games.push({ opponentId: black, score }); }
+                if (black === id) { games.push({ opponentId: white, score: 1 - score }); }
+            }
+        }
+        return games;
+    }
+
+    /**
+     * Pairs a round, choosing the bye for an odd field: the lowest-ranked entrant without one for whom the rest can be paired.
+     * @returns The pairs and the bye, or null if no valid pairing exists.
+     * @private
+     */
+    private pairRound(ranked: EntrantState[], enforceColors: boolean): { pairs: [EntrantState, EntrantState][]; bye?: EntrantState } | null {
+        if (ranked.length % 2 === 0) {
+            const pairs = this.pairPlayers(ranked, enforceColors);
+            return pairs && { pairs };
+        }
+        const withoutBye = ranked.filter(state => !state.hadBye).reverse();
+        for (const candidate of withoutBye.length > 0 ? withoutBye : [...ranked].reverse()) {
+            const pairs = this.pairPlayers(ranked.filter(state => state !== candidate), enforceColors);
+            if (pairs) { return { pairs, bye: candidate }; }
+        }
+        return null;
+    }
+
+    /**
+     * Pairs ranked entrants by backtracking search, trying candidates in Dutch order: the rest of the top entrant's
+     * score group from the middle down, then from the middle up, then lower-ranked entrants.
+     * Subsets already shown to be unpairable are remembered, so hopeless branches are not searched twice.
+     * @returns The pairs (higher-ranked entrant first), or null if no valid pairing exists.
+     * @private
+     */
+    private pairPlayers(ranked: EntrantState[], enforceColors: boolean): [EntrantState, EntrantState][] | null {
+        const failed = new Set<string>();
+        const solve = (remaining: EntrantState[]): [EntrantState, EntrantState][] | null => {
+            if (remaining.length === 0) { return []; }
+            const key = remaining.map(state => state.id).join('\u0000');
+            if (failed.has(key)) { return null; }
+
+            const [top, ...others] = remaining;
+            const group = others.filter(state => state.points === top.points);
+            const half = Math.floor((group.length + 1) / 2);
+            const candidates = [
+                ...group.slice(half - 1),
+                ...group.slice(0, half - 1).reverse(),
+                ...others.filter(state => state.points !== top.points),
+            ];
+            for (const candidate of candidates) {
+                if (!this.canPair(top, candidate, enforceColors)) { continue; }
+                const rest = solve(others.filter(state => state !== candidate));
+                if (rest) { return [[top, candidate], ...rest]; }
+            }
+            failed.add(key);
+            return null;
+        };
+        return solve(ranked);
+    }
+
+    private canPair(a: EntrantState, b: EntrantState, enforceColors: boolean): boolean {
+        if (a.opponents.has(b.id)) { return false; }
+        if (!enforceColors) { return true; }
+        const forbidden = this.forbiddenColor(a);
+        return forbidden === undefined || forbidden !== this.forbiddenColor(b);
+    }
+
+    /**
+     * The color a player must not receive next: a third consecutive game with it, or a color balance beyond 2.
+     * @private
+     */
+    private forbiddenColor(state: EntrantState): PieceColor | undefined {
+        const balance = this.colorBalance(state);
+        const [last, beforeLast] = [state.colors[state.colors.length - 1], state.colors[state.colors.length - 2]];
+        if (balance >= 2 || (last === 'white' && beforeLast === 'white')) { return 'white'; }
+        if (balance <= -2 || (last === 'black' && beforeLast === 'black')) { return 'black'; }
+        return undefined;
+    }
+
+    private colorBalance(state: EntrantState): number {
+        return state.colors.reduce((sum, color) => sum + (color === 'white' ? 1 : -1), 0);
+    }
+
+    /**
+     * Picks the higher-ranked player's color.
+     * @private
+     */
+    private chooseColor(higher: EntrantState, lower: EntrantState, board: number): PieceColor {
+        const higherForbidden = this.forbiddenColor(higher);
+        const lowerForbidden = this.forbiddenColor(lower);
+        if (higherForbidden === 'white' || lowerForbidden === 'black') { return 'black'; }
+        if (higherForbidden === 'black' || lowerForbidden === 'white') { return 'white'; }
+
+        const higherBalance = this.colorBalance(higher);
+        const lowerBalance = this.colorBalance(lower);
+        if (higherBalance !== lowerBalance) { return higherBalance < lowerBalance ? 'white' : 'black'; }
+
+        const higherLast = higher.colors[higher.colors.length - 1];
+        const lowerLast = lower.colors[lower.colors.length - 1];
+        if (higherLast) { return higherLast === 'black' ? 'white' : 'black'; }
+        if (lowerLast) { return lowerLast; }
+        return board % 2 === 1 ? 'white' : 'black';
+    }
+
+    private toSwissRound(round: RecordedRound, number: number): SwissRound {
+        const player = (id: string) => this.entrants.get(id) as Player;
+        return {
+            round: number,
+            datePlayed: round.datePlayed,
+            pairings: round.pairings.map((pairing, index): SwissPairing => ({
+                board: index + 1,
+                white: player(pairing.white),
+                black: player(pairing.black),
+                score: pairing.score,
+            })),
+            bye: round.bye ? player(round.bye) : undefined,
+        };
+    }
+}
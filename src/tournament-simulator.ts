@@ -0,0 +1,262 @@
+/**
+ * Monte Carlo tournament simulator.
+ * Plays a tournament many times with results sampled from the Glicko expected-score model and reports how often
+ * each entrant finishes in each place.
+ */
+
+import { Glicko } from './glicko';
+import { Player } from './interfaces/player';
+import {
+    EntrantSimulationResult,
+    TournamentSimulationOptions,
+    TournamentSimulationResult,
+} from './interfaces/tournament';
+import { MathUtils } from './utils/math-utils';
+import { SeededRandom } from './utils/random';
+import { GlickoValidationError, InvalidConfigError } from './errors';
+
+/** Index of an entrant, or null for a bye. */
+type Slot = number | null;
+
+/**
+ * Plays one game between two entrants and returns the first entrant's score.
+ */
+type PlayGame = (a: number, b: number, allowDraw: boolean) => number;
+
+export class TournamentSimulator {
+    private glicko: Glicko;
+
+    /**
+     * Creates a simulator.
+     * @param {Glicko} [glicko] The calculator whose expected-score model is used. Defaults to a Glicko-1 calculator with default config.
+     */
+    constructor(glicko?: Glicko) {
+        this.glicko = glicko ?? new Glicko();
+    }
+
+    /**
+     * Simulates a tournament.
+     *
+     * Elimination brackets are seeded in entrant order (1 vs N, 2 vs N-1, ...), with byes for the top seeds when the
+     * field is not a power of two. Eliminated entrants share the best place of their tier (e.g. both losing
+     * semifinalists of a single-elimination bracket place 3rd). Round-robin standings are ordered by points, with
+     * ties broken at random.
+     * @param {Player[]} entrants The entrants, each with a unique `id`.
+     * @param {TournamentSimulationOptions} options The format and simulation settings.
+     * @returns {TournamentSimulationResult} The placement distribution of every entrant.
+     * @throws {GlickoValidationError} If there are fewer than two entrants or an id is missing or duplicated.
+     * @throws {InvalidConfigError} If an option is out of range.
+     */
+    simulate(entrants: Player[], options: TournamentSimulationOptions): TournamentSimulationResult {
+        const n = entrants.length;
+        const runs = options.runs ?? 10000;
+        const drawRate = options.drawRate ?? 0;
+        const cycles = options.roundRobinCycles ?? 1;
+        this.validate(entrants, options, runs, drawRate, cycles);
+
+        const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+        const random = new SeededRandom(seed);
+        const q = this.glicko.getConfig().q;
+        const fixedExpected = entrants.map(a => entrants.map(b => this.glicko.predict(a, b).expectedScore));
+        const counts = entrants.map(() => new Array<number>(n).fill(0));
+
+        for (let run = 0; run < runs; run++) {
+            let expected = (a: number, b: number) => fixedExpected[a][b];
+            if (options.sampleSkill) {
+                const skills = entrants.map(entrant => random.normal(entrant.rating, entrant.rd));
+                expected = (a, b) => 1 / (1 + Math.exp(-(skills[a] - skills[b]) * q));
+            }
+            const playGame: PlayGame = (a, b, allowDraw) => {
+                const e = expected(a, b);
+                if (!allowDraw || drawRate === 0) {
+                    return random.next() < e ? 1 : 0;
+                }
+                const { win, draw } = MathUtils.davidsonProbabilities(e, drawRate);
+                const u = random.next();
+                return u < win ? 1 : u < win + draw ? 0.5 : 0;
+            };
+
+            let placements: number[];
+            switch (options.format) {
+                case 'single-elimination':
+                    placements = this.singleElimination(n, playGame);
+                    break;
+                case 'double-elimination':
+                    placements = this.doubleElimination(n, playGame, options.grandFinalReset ?? true);
+                    break;
+                default:
+                    placements = this.roundRobin(n, cycles, playGame, random);
+            }
+            placements.forEach((place, index) => { counts[index][place - 1]++; });
+        }
+
+        const topCuts = (options.topCuts ?? [1, 2, 4, 8]).filter(cut => cut <= n);
+        const results: EntrantSimulationResult[] = entrants.map((entrant, index) => {
+            const placementProbabilities = counts[index].map(count => count / runs);
+            const top: Record<number, number> = {};
+            for (const cut of topCuts) {
+                top[cut] = placementProbabilities.slice(0, cut).reduce((sum, p) => sum + p, 0);
+            }
+            return {
+                playerId: entrant.id as string,
+                seed: index + 1,
+                placementProbabilities,
+                winProbability: placementProbabilities[0],
+                top,
+                expectedPlacement: placementProbabilities.reduce((sum, p, place) => sum + p * (place + 1), 0),
+            };
+        });
+
+        return { format: options.format, runs, seed, entrants: results };
+    }
+
+    private validate(entrants: Player[], options: TournamentSimulationOptions, runs: number, drawRate: number, cycles: number): void {
+        if (entrants.length < 2) {
+            throw new GlickoValidationError('entrants', entrants.length, "A tournament needs at least two entrants.");
+        }
+        const ids = new Set<string>();
+        for (const entrant of entrants) {
+            if (!entrant.id) { throw new GlickoValidationError('id', entrant.id, "Every entrant must have an id."); }
+            if (ids.has(entrant.id)) { throw new GlickoValidationError('id', entrant.id, `Entrant ${entrant.id} appears more than once.`); }
+            ids.add(entrant.id);
+        }
+        if (!['single-elimination', 'double-elimination', 'round-robin'].includes(options.format)) {
+            throw new InvalidConfigError('format', options.format, `Unknown tournament format "${options.format}".`);
+        }
+        if (runs < 1 || !Number.isInteger(runs)) {
+            throw new InvalidConfigError('runs', runs, "runs must be a positive integer.");
+        }
+        if (drawRate < 0 || drawRate >= 1) {
+            throw new InvalidConfigError('drawRate', drawRate, "drawRate must be in the range [0, 1).");
+        }
+        if (cycles < 1 || !Number.isInteger(cycles)) {
+            throw new InvalidConfigError('roundRobinCycles', cycles, "roundRobinCycles must be a positive integer.");
+        }
+    }
+
+    /**
+     * Places entrants in a power-of-two bracket in standard seed order, padding with byes.
+     * @private
+     */
+    private seedBracket(n: number): Slot[] {
+        let order = [1];
+        while (order.length < n) {
+            const size = order.length * 2;
+            order = order.flatMap(seed => [seed, size + 1 - seed]);
+        }
+        return order.map(seed => seed <= n ? seed - 1 : null);
+    }
+
+    /**
+     * Plays one round of pairings. Byes advance their opponent; two byes advance a bye.
+     * @returns The winners and the (non-bye) losers, in bracket order.
+     * @private
+     */
+    private playRound(pairs: [Slot, Slot][], playGame: PlayGame): { winners: Slot[]; losers: number[] } {
+        const winners: Slot[] = [];
+        const losers: number[] = [];
+        for (const [a, b] of pairs) {
+            if (a === null || b === null) {
+                winners.push(a ?? b);
+                continue;
+            }
+            const aWins = playGame(a, b, false) === 1;
+            winners.push(aWins ? a : b);
+            losers.push(aWins ? b : a);
+        }
+        return { winners, losers };
+    }
+
+    private adjacentPairs(slots: Slot[]): [Slot, Slot][] {
+        const pairs: [Slot, Slot][] = [];
+        for (let i = 0; i < slots.length; i += 2) {
+            pairs.push([slots[i], slots[i + 1] ?? null]);
+        }
+        return pairs;
+    }
+
+    private singleElimination(n: number, playGame: PlayGame): number[] {
+        const placements = new Array<number>(n);
+        let alive = n;
+        let bracket = this.seedBracket(n);
+        while (bracket.length > 1) {
+            const { winners, losers } = this.playRound(this.adjacentPairs(bracket), playGame);
+            alive -= losers.length;
+            losers.forEach(loser => { placements[loser] = alive + 1; });
+            bracket = winners;
+        }
+        placements[bracket[0] as number] = 1;
+        return placements;
+    }
+
+    /**
+     * Plays a double-elimination bracket. Losers of each winners-bracket round drop into the losers bracket,
+     * where they meet its survivors (in reverse order, to delay rematches) before the survivors play each other.
+     * @private
+     */
+    private doubleElimination(n: number, playGame: PlayGame, grandFinalReset: boolean): number[] {
+        const placements = new Array<number>(n);
+        let alive = n;
+        const eliminate = (losers: number[]) => {
+            alive -= losers.length;
+            losers.forEach(loser => { placements[loser] = alive + 1; });
+        };
+
+        let winnersBracket = this.seedBracket(n);
+        let losersBracket: Slot[] = [];
+        let firstRound = true;
+        while (winnersBracket.length > 1) {
+            const pairs = this.adjacentPairs(winnersBracket);
+            const round = this.playRound(pairs, playGame);
+            // Keep a slot per match so the losers bracket stays aligned when a match had a bye.
+            const dropped: Slot[] = pairs.map(([a, b], i) => a === null || b === null ? null : (round.winners[i] === a ? b : a));
+            winnersBracket = round.winners;
+
+            if (firstRound) {
+                losersBracket = dropped;
+                firstRound = false;
+            } else {
+                const major = this.playRound(losersBracket.map((slot, i) => [slot, dropped[dropped.length - 1 - i]] as [Slot, Slot]), playGame);
+                eliminate(major.losers);
+                losersBracket = major.winners;
+            }
+            if (losersBracket.length > 1) {
+                const minor = this.playRound(this.adjacentPairs(losersBracket), playGame);
+                eliminate(minor.losers);
+                losersBracket = minor.winners;
+            }
+        }
+
+        const champion = winnersBracket[0] as number;
+        const challenger = losersBracket[0];
+        if (challenger === null || challenger === undefined) {
+            placements[champion] = 1;
+            return placements;
+        }
+        let winner = playGame(champion, challenger, false) === 1 ? champion : challenger;
+        if (winner === challenger && grandFinalReset) {
+            winner = playGame(champion, challenger, false) === 1 ? champion : challenger;
+        }
+        placements[winner] = 1;
+        placements[winner === champion ? challenger : champion] = 2;
+        return placements;
+    }
+
+    private roundRobin(n: number, cycles: number, playGame: PlayGame, random: SeededRandom): number[] {
+        const points = new Array<number>(n).fill(0);
+        for (let cycle = 0; cycle < cycles; cycle++) {
+            for (let a = 0; a < n; a++) {
+                for (let b = a + 1; b < n; b++) {
+                    const score = playGame(a, b, true);
+                    points[a] += score;
+                    points[b] += 1 - score;
+                }
+            }
+        }
+        const tieBreak = random.shuffle(Array.from({ length: n }, (_, i) => i));
+        const order = Array.from({ length: n }, (_, i) => i).sort((a, b) => points[b] - points[a] || tieBreak[a] - tieBreak[b]);
+        const placements = new Array<number>(n);
+        order.forEach((index, position) => { placements[index] = position + 1; });
+        return placements;
+    }
+}
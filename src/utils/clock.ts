@@ -0,0 +1,23 @@
+import { Clock } from '../interfaces/clock';
+
+/**
+ * Clock reading the system time. This is the default clock of every engine.
+ */
+export const systemClock: Clock = {
+    now: () => new Date(),
+};
+
+/**
+ * Clock that always returns the same instant, for backfilling historical seasons and for tests.
+ */
+export class FixedClock implements Clock {
+    private readonly time: number;
+
+    constructor(date: Date) {
+        this.time = date.getTime();
+    }
+
+    now(): Date {
+        return new Date(this.time);
+    }
+}
@@ -0,0 +1,77 @@
+import { Match } from '../interfaces/match';
+
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export class DateUtils {
+    /**
+     * Checks whether a value is a Date holding a valid time.
+     * @param date The value to check.
+     * @returns True if the value is a valid Date.
+     */
+    static isValidDate(date: unknown): date is Date {
+        return date instanceof Date && !isNaN(date.getTime());
+    }
+
+    /**
+     * Calculates the (fractional) number of days from one date to a later one.
+     * @param from The earlier date. If missing, the result is 0.
+     * @param to The later date.
+     * @returns The number of days, never negative.
+     */
+    static daysBetween(from: Date | undefined, to: Date): number {
+        if (!DateUtils.isValidDate(from)) {
+            return 0;
+        }
+        return Math.max(0, (to.getTime() - from.getTime()) / MILLISECONDS_PER_DAY);
+    }
+
+    /**
+     * Calculates the zero-based index of the rating period a date falls into.
+     * @param origin The start of period 0.
+     * @param date The date.
+     * @param daysPerPeriod The length of a period in days.
+     * @returns The period index (negative for dates before `origin`).
+     */
+    static periodIndex(origin: Date, date: Date, daysPerPeriod: number): number {
+        return Math.floor((date.getTime() - origin.getTime()) / (daysPerPeriod * MILLISECONDS_PER_DAY));
+    }
+
+    /**
+     * Calculates the date a rating period starts on.
+     * @param origin The start of period 0.
+     * @param index The zero-based period index.
+     * @param daysPerPeriod The length of a period in days.
+     * @returns The start of the period; the period ends where the next one starts.
+     */
+    static periodStart(origin: Date, index: number, daysPerPeriod: number): Date {
+        return new Date(origin.getTime() + index * daysPerPeriod * MILLISECONDS_PER_DAY);
+    }
+
+    /**
+     * Finds the earliest valid `datePlayed` among matches.
+     * @param matchs The matches.
+     * @returns The earliest date, or undefined if no match carries a valid date.
+     */
+    static earliestMatchDate(matchs: Match[]): Date | undefined {
+        return DateUtils.extremeMatchDate(matchs, (a, b) => a < b);
+    }
+
+    /**
+     * Finds the latest valid `datePlayed` among matches.
+     * @param matchs The matches.
+     * @returns The latest date, or undefined if no match carries a valid date.
+     */
+    static latestMatchDate(matchs: Match[]): Date | undefined {
+        return DateUtils.extremeMatchDate(matchs, (a, b) => a > b);
+    }
+
+    private static extremeMatchDate(matchs: Match[], isBetter: (a: number, b: number) => boolean): Date | undefined {
+        let best: Date | undefined;
+        for (const match of matchs ?? []) {
+            if (DateUtils.isValidDate(match.datePlayed) && (!best || isBetter(match.datePlayed.getTime(), best.getTime()))) {
+                best = match.datePlayed;
+            }
+        }
+        return best ? new Date(best.getTime()) : undefined;
+    }
+}
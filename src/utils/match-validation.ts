@@ -0,0 +1,84 @@
+import { Match } from '../interfaces/match';
+import { Player } from '../interfaces/player';
+import { RatingWarning, ValidationMode } from '../interfaces/validation';
+import {
+    FutureMatchError,
+    GlickoValidationError,
+    InvalidRatingDeviationError,
+    InvalidRatingError,
+    InvalidScoreError,
+} from '../errors';
+import { DateUtils } from './date-utils';
+
+export class MatchValidation {
+    /**
+     * Checks the rating and RD of the player being updated. These are never skipped, so they always throw.
+     * @param player The player.
+     * @throws {InvalidRatingError} If the rating is NaN or infinite.
+     * @throws {InvalidRatingDeviationError} If the RD is not positive and finite.
+     */
+    static validatePlayer(player: Player): void {
+        if (!Number.isFinite(player.rating)) {
+            throw new InvalidRatingError('rating', player.rating, `Player rating must be a finite number: ${player.rating}`);
+        }
+        if (!Number.isFinite(player.rd) || player.rd <= 0) {
+            throw new InvalidRatingDeviationError('rd', player.rd, "Player RD must be positive for calculations.");
+        }
+    }
+
+    /**
+     * Finds the first problem with a match, if any.
+     * @param match The match.
+     * @param asOf The date the update is computed as of; later matches are future-dated.
+     * @returns The error describing the problem, or undefined if the match is valid.
+     */
+    static findMatchError(match: Match, asOf: Date): GlickoValidationError | undefined {
+        const { opponent, score } = match;
+        if (!Number.isFinite(score) || score < 0 || score > 1) {
+            return new InvalidScoreError('score', score, `Match score must be between 0 and 1: ${score}`);
+        }
+        if (!Number.isFinite(opponent.rating)) {
+            return new InvalidRatingError('opponent.rating', opponent.rating, `Opponent rating must be a finite number: ${opponent.rating}`);
+        }
+        if (!Number.isFinite(opponent.rd) || opponent.rd <= 0) {
+            return new InvalidRatingDeviationError('opponent.rd', opponent.rd, `Opponent RD must be positive: ${opponent.rd}`);
+        }
+        if (match.weight !== undefined && !(Number.isFinite(match.weight) && match.weight >= 0)) {
+            return new GlickoValidationError('weight', match.weight, `Match weight must be a non-negative finite number: ${match.weight}`);
+        }
+        if (match.side !== undefined && match.side !== 'first' && match.side !== 'second') {
+            return new GlickoValidationError('side', match.side, `Match side must be 'first' or 'second': ${match.side}`);
+        }
+        if (DateUtils.isValidDate(match.datePlayed) && match.datePlayed.getTime() > asOf.getTime()) {
+            return new FutureMatchError('datePlayed', match.datePlayed, `Match is dated after ${asOf.toISOString()}: ${match.datePlayed.toISOString()}`);
+        }
+        return undefined;
+    }
+
+    /**
+     * Validates matches according to the validation mode.
+     * @param matchs The matches.
+     * @param asOf The date the update is computed as of.
+     * @param mode `'strict'` throws on the first invalid match; `'lenient'` skips it and reports a warning.
+     * @returns The valid matches, their indices in `matchs`, and the warnings for skipped ones.
+     * @throws {GlickoValidationError} In strict mode, for the first invalid match.
+     */
+    static filterMatches(matchs: Match[], asOf: Date, mode: ValidationMode): { valid: Match[]; validIndices: number[]; warnings: RatingWarning[] } {
+        const valid: Match[] = [];
+        const validIndices: number[] = [];
+        const warnings: RatingWarning[] = [];
+        (matchs ?? []).forEach((match, matchIndex) => {
+            const error = MatchValidation.findMatchError(match, asOf);
+            if (!error) {
+                valid.push(match);
+                validIndices.push(matchIndex);
+                return;
+            }
+            if (mode === 'strict') {
+                throw error;
+            }
+            warnings.push({ code: error.code, message: error.message, field: error.field, value: error.value, matchIndex });
+        });
+        return { valid, validIndices, warnings };
+    }
+}
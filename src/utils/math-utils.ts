@@ -1,3 +1,6 @@
+import { RoundingMode } from '../interfaces/rounding';
+import { GlickoValidationError } from '../errors';
+
 export class MathUtils {
     /**
      * Calculates the g(RD) function, which dampens the effect of the opponent's RD.
@@ -11,16 +14,92 @@ export class MathUtils {
 
     /**
      * Rounds a number to a specified number of decimal places.
+     * The scaled value is first cleaned of binary representation error (so 1.005 rounds as the decimal 1.005 it was
+     * written as), then rounded according to the mode.
      * @param num The number to round.
      * @param places The number of decimal places.
+     * @param mode The rounding mode (default 'half-up': ties away from zero).
      * @returns The rounded number.
      */
-    static roundToDecimalPlaces(num: number, places: number): number {
-        if (places === 0) {
-            return Math.round(num);
+    static roundToDecimalPlaces(num: number, places: number, mode: RoundingMode = 'half-up'): number {
+        if (!Number.isFinite(num)) {
+            return num;
         }
         const p = Math.pow(10, places);
-        const rounded = (Math.round(num * p) / p);
-        return Number(rounded.toFixed(places));
+        const scaled = Number((num * p).toPrecision(15));
+        const magnitude = Math.abs(scaled);
+        let roundedMagnitude: number;
+        if (mode === 'truncate') {
+            roundedMagnitude = Math.floor(magnitude);
+        } else {
+            const floor = Math.floor(magnitude);
+            const fraction = magnitude - floor;
+            const tie = Math.abs(fraction - 0.5) < 1e-9;
+            if (tie) {
+                roundedMagnitude = mode === 'half-even' && floor % 2 === 0 ? floor : floor + 1;
+            } else {
+                roundedMagnitude = fraction > 0.5 ? floor + 1 : floor;
+            }
+        }
+        const rounded = Math.sign(scaled) * roundedMagnitude / p;
+        return Number(rounded.toFixed(places)) + 0; // + 0 turns -0 into 0
+    }
+
+    /**
+     * Splits an expected score into win, draw and loss probabilities using the Davidson model,
+     * calibrated so that two equal players draw with probability `drawRate`.
+     * Strengths are proportional to the expected-score odds, with a draw term nu * sqrt(E * (1 - E)), nu = 2d / (1 - d).
+     * @param expectedScore The expected score E (0 to 1).
+     * @param drawRate The draw probability between equal players (0 to <1).
+     * @returns The win, draw and loss probabilities, summing to 1.
+     */
+    static davidsonProbabilities(expectedScore: number, drawRate: number): { win: number; draw: number; loss: number } {
+        const nu = 2 * drawRate / (1 - drawRate);
+        const drawWeight = nu * Math.sqrt(expectedScore * (1 - expectedScore));
+        const total = 1 + drawWeight;
+        return { win: expectedScore / total, draw: drawWeight / total, loss: (1 - expectedScore) / total };
+    }
+
+    /**
+     * Calculates the log-loss (cross-entropy) of a predicted expected score against the actual score.
+     * Fractional scores such as draws are treated as soft labels. Predictions are clamped away from 0 and 1.
+     * @param expected The predicted expected score (0 to 1).
+     * @param score The actual score (0 to 1).
+     * @returns -(s * ln(E) + (1 - s) * ln(1 - E)).
+     */
+    static logLoss(expected: number, score: number): number {
+        const e = Math.min(Math.max(expected, 1e-15), 1 - 1e-15);
+        return -(score * Math.log(e) + (1 - score) * Math.log(1 - e));
+    }
+
+    /**
+     * Calculates the quantile (inverse CDF) of the standard normal distribution,
+     * using Acklam's rational approximation (relative error below 1.15e-9).
+     * @param p The cumulative probability, strictly between 0 and 1.
+     * @returns The z value such that P(Z <= z) = p.
+     * @throws {GlickoValidationError} If `p` is not strictly between 0 and 1.
+     */
+    static normalQuantile(p: number): number {
+        if (!(p > 0 && p < 1)) {
+            throw new GlickoValidationError('p', p, "Probability must be strictly between 0 and 1.");
+        }
+        const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+        const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+        const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+        const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+        const pLow = 0.02425;
+
+        if (p < pLow) {
+            const q = Math.sqrt(-2 * Math.log(p));
+            return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+                ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+        }
+        if (p > 1 - pLow) {
+            return -MathUtils.normalQuantile(1 - p);
+        }
+        const q = p - 0.5;
+        const r = q * q;
+        return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+            (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
     }
 }
\ No newline at end of file
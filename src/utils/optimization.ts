@@ -0,0 +1,71 @@
+/**
+ * Options for the Nelder-Mead minimizer.
+ */
+export interface NelderMeadOptions {
+    lowerBounds: number[];
+    upperBounds: number[];
+    maxIterations?: number; // Default 100
+    tolerance?: number; // Stop when the objective values of the simplex differ by less than this (default 1e-6)
+}
+
+export class Optimization {
+    /**
+     * Minimizes a function inside a box using the Nelder-Mead simplex method.
+     * Points outside the box are clamped onto it before evaluation.
+     * The initial simplex steps a quarter of the box width from the starting point along each axis.
+     * @param f The objective.
+     * @param start The starting point.
+     * @param options The box and stopping criteria.
+     * @returns The best point found and its objective value.
+     */
+    static nelderMead(f: (x: number[]) => number, start: number[], options: NelderMeadOptions): { point: number[]; value: number } {
+        const { lowerBounds, upperBounds } = options;
+        const maxIterations = options.maxIterations ?? 100;
+        const tolerance = options.tolerance ?? 1e-6;
+        const n = start.length;
+        const clamp = (x: number[]) => x.map((value, i) => Math.min(Math.max(value, lowerBounds[i]), upperBounds[i]));
+        const evaluate = (x: number[]) => {
+            const point = clamp(x);
+            return { point, value: f(point) };
+        };
+
+        let simplex = [evaluate(start)];
+        for (let i = 0; i < n; i++) {
+            const vertex = [...simplex[0].point];
+            const step = (upperBounds[i] - lowerBounds[i]) / 4;
+            vertex[i] = vertex[i] + step <= upperBounds[i] ? vertex[i] + step : vertex[i] - step;
+            simplex.push(evaluate(vertex));
+        }
+
+        for (let iteration = 0; iteration < maxIterations; iteration++) {
+            simplex.sort((a, b) => a.value - b.value);
+            const best = simplex[0];
+            const worst = simplex[n];
+            if (worst.value - best.value < tolerance) { break; }
+
+            const centroid = new Array(n).fill(0);
+            for (const vertex of simplex.slice(0, n)) {
+                vertex.point.forEach((value, i) => { centroid[i] += value / n; });
+            }
+            const along = (t: number) => centroid.map((value, i) => value + t * (worst.point[i] - value));
+
+            const reflected = evaluate(along(-1));
+            if (reflected.value < best.value) {
+                const expanded = evaluate(along(-2));
+                simplex[n] = expanded.value < reflected.value ? expanded : reflected;
+            } else if (reflected.value < simplex[n - 1].value) {
+                simplex[n] = reflected;
+            } else {
+                const contracted = evaluate(reflected.value < worst.value ? along(-0.5) : along(0.5));
+                if (contracted.value < Math.min(reflected.value, worst.value)) {
+                    simplex[n] = contracted;
+                } else {
+                    simplex = [best, ...simplex.slice(1).map(vertex => evaluate(vertex.point.map((value, i) => best.point[i] + (value - best.point[i]) / 2)))];
+                }
+            }
+        }
+
+        simplex.sort((a, b) => a.value - b.value);
+        return simplex[0];
+    }
+}
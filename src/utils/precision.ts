@@ -0,0 +1,39 @@
+import { Opponent } from '../interfaces/opponent';
+import { Player } from '../interfaces/player';
+import { RoundingMode } from '../interfaces/rounding';
+import { MathUtils } from './math-utils';
+
+export class Precision {
+    /**
+     * Returns the full-precision rating and RD to compute with: `precise` when it still rounds to the displayed
+     * values, otherwise the displayed values (e.g. after `rating` was edited by hand and `precise` is stale).
+     * @param player A player or opponent, with or without `precise`.
+     * @param places The engine's rounding precision.
+     * @param mode The engine's rounding mode.
+     * @returns The rating and RD to compute with.
+     */
+    static resolve(player: Opponent & { precise?: Opponent }, places: number, mode: RoundingMode): Opponent {
+        const precise = player.precise;
+        if (precise
+            && MathUtils.roundToDecimalPlaces(precise.rating, places, mode) === player.rating
+            && MathUtils.roundToDecimalPlaces(precise.rd, places, mode) === player.rd) {
+            return { rating: precise.rating, rd: precise.rd };
+        }
+        return { rating: player.rating, rd: player.rd };
+    }
+
+    /**
+     * Builds the rating fields of a player state: the rounded display values and the full-precision values.
+     * @param value The full-precision rating and RD.
+     * @param places The engine's rounding precision.
+     * @param mode The engine's rounding mode.
+     * @returns `rating` and `rd` rounded for display, and `precise`.
+     */
+    static display(value: Opponent, places: number, mode: RoundingMode): Pick<Player, 'rating' | 'rd' | 'precise'> {
+        return {
+            rating: MathUtils.roundToDecimalPlaces(value.rating, places, mode),
+            rd: MathUtils.roundToDecimalPlaces(value.rd, places, mode),
+            precise: { rating: value.rating, rd: value.rd },
+        };
+    }
+}
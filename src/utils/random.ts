@@ -0,0 +1,58 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32), so simulations can be reproduced exactly.
+ */
+export class SeededRandom {
+    private state: number;
+    private spareNormal: number | undefined;
+
+    /**
+     * Creates a generator.
+     * @param seed Any integer; the same seed always produces the same sequence. Defaults to a random seed.
+     */
+    constructor(seed?: number) {
+        this.state = (seed ?? Math.floor(Math.random() * 2 ** 32)) >>> 0;
+    }
+
+    /**
+     * @returns A uniform number in [0, 1).
+     */
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Draws from a normal distribution using the Box-Muller transform.
+     * @param mean The mean (default 0).
+     * @param standardDeviation The standard deviation (default 1).
+     * @returns The sample.
+     */
+    normal(mean = 0, standardDeviation = 1): number {
+        if (this.spareNormal !== undefined) {
+            const spare = this.spareNormal;
+            this.spareNormal = undefined;
+            return mean + standardDeviation * spare;
+        }
+        const u = 1 - this.next();
+        const v = this.next();
+        const radius = Math.sqrt(-2 * Math.log(u));
+        this.spareNormal = radius * Math.sin(2 * Math.PI * v);
+        return mean + standardDeviation * radius * Math.cos(2 * Math.PI * v);
+    }
+
+    /**
+     * Shuffles an array in place (Fisher-Yates).
+     * @param items The array.
+     * @returns The same array.
+     */
+    shuffle<T>(items: T[]): T[] {
+        for (let i = items.length - 1; i > 0; i--) {
+            const j = Math.floor(this.next() * (i + 1));
+            [items[i], items[j]] = [items[j], items[i]];
+        }
+        return items;
+    }
+}
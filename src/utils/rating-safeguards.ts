@@ -0,0 +1,71 @@
+import { Player } from '../interfaces/player';
+import { AppliedSafeguard, SafeguardSettings } from '../interfaces/safeguards';
+import { InvalidConfigError } from '../errors';
+
+export class RatingSafeguards {
+    /**
+     * Checks the safeguard settings of an engine configuration.
+     * @param settings The settings.
+     * @param rdCeiling The engine's RD ceiling, which `minRD` may not exceed.
+     * @throws {InvalidConfigError} If a limit is out of range.
+     */
+    static validateConfig(settings: SafeguardSettings, rdCeiling: number): void {
+        const { ratingFloor, peakFloorOffset, maxRatingChangePerPeriod, minRD } = settings;
+        if (ratingFloor !== undefined && !Number.isFinite(ratingFloor)) {
+            throw new InvalidConfigError('ratingFloor', ratingFloor, "ratingFloor must be a finite number.");
+        }
+        if (peakFloorOffset !== undefined && !(peakFloorOffset >= 0)) {
+            throw new InvalidConfigError('peakFloorOffset', peakFloorOffset, "peakFloorOffset must be non-negative.");
+        }
+        if (maxRatingChangePerPeriod !== undefined && !(maxRatingChangePerPeriod > 0)) {
+            throw new InvalidConfigError('maxRatingChangePerPeriod', maxRatingChangePerPeriod, "maxRatingChangePerPeriod must be positive.");
+        }
+        if (minRD !== undefined && !(minRD >= 0 && minRD <= rdCeiling)) {
+            throw new InvalidConfigError('minRD', minRD, "minRD must be between 0 and rdCeiling.");
+        }
+    }
+
+    /**
+     * Applies the safeguards to the outcome of a rating period, in this order:
+     * 1. `minRD` raises the new RD to the minimum.
+     * 2. `maxRatingChangePerPeriod` caps the rating change relative to the start of the period.
+     * 3. `ratingFloor` and `peakFloorOffset` raise the rating to the higher of the two floors. Floors win over the cap.
+     * @param start The player's state at the start of the period.
+     * @param rating The new rating from the rating formula (unrounded).
+     * @param rd The new RD from the rating formula (unrounded).
+     * @param settings The safeguard settings.
+     * @returns The adjusted rating and RD, the peak rating to store (only when `peakFloorOffset` is set),
+     * and the safeguards that changed a value.
+     */
+    static apply(start: Player, rating: number, rd: number, settings: SafeguardSettings) {
+        const applied: AppliedSafeguard[] = [];
+        const { ratingFloor, peakFloorOffset, maxRatingChangePerPeriod, minRD } = settings;
+
+        if (minRD !== undefined && rd < minRD) {
+            applied.push({ safeguard: 'minRD', field: 'rd', before: rd, after: minRD, limit: minRD });
+            rd = minRD;
+        }
+
+        if (maxRatingChangePerPeriod !== undefined && Math.abs(rating - start.rating) > maxRatingChangePerPeriod) {
+            const capped = start.rating + Math.sign(rating - start.rating) * maxRatingChangePerPeriod;
+            applied.push({ safeguard: 'maxRatingChange', field: 'rating', before: rating, after: capped, limit: capped });
+            rating = capped;
+        }
+
+        const peak = Math.max(start.peakRating ?? start.rating, start.rating);
+        const peakFloor = peakFloorOffset !== undefined ? peak - peakFloorOffset : -Infinity;
+        const floor = Math.max(ratingFloor ?? -Infinity, peakFloor);
+        if (rating < floor) {
+            const safeguard = floor === peakFloor ? 'peakFloor' : 'ratingFloor';
+            applied.push({ safeguard, field: 'rating', before: rating, after: floor, limit: floor });
+            rating = floor;
+        }
+
+        return {
+            rating,
+            rd,
+            peakRating: peakFloorOffset !== undefined ? Math.max(peak, rating) : undefined,
+            applied,
+        };
+    }
+}
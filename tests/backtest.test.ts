@@ -0,0 +1,68 @@
+import { Backtester } from '../src/backtest';
+import { HistoryReplay } from '../src/history-replay';
+import { Glicko } from '../src/glicko';
+import { GameResult } from '../src/interfaces/game-result';
+import { syntheticGames } from './helpers/synthetic-games';
+
+describe('Backtester Class', () => {
+    const games = syntheticGames(8, 12);
+
+    it('should compute log-loss, Brier score and accuracy from pre-game predictions', () => {
+        const report = new Backtester().run(games);
+        const { predictions } = new HistoryReplay(new Glicko()).run(games);
+        const brier = predictions.reduce((sum, p) => sum + Math.pow(p.expectedScore - p.game.score, 2), 0) / predictions.length;
+
+        expect(report.games).toBe(games.length);
+        expect(report.decisiveGames).toBe(games.length);
+        expect(report.brierScore).toBeCloseTo(brier, 12);
+        expect(report.logLoss).toBeLessThan(Math.log(2));
+        expect(report.accuracy).toBeGreaterThan(0.5);
+        expect(report.accuracy).toBeLessThanOrEqual(1);
+    });
+
+    it('should build a calibration table covering every scored game', () => {
+        const report = new Backtester().run(games, { calibrationBuckets: 4 });
+
+        expect(report.calibration.map(bucket => [bucket.lower, bucket.upper])).toEqual([[0, 0.25], [0.25, 0.5], [0.5, 0.75], [0.75, 1]]);
+        expect(report.calibration.reduce((sum, bucket) => sum + bucket.games, 0)).toBe(report.games);
+        for (const bucket of report.calibration.filter(b => b.games > 0)) {
+            expect(bucket.meanPredicted).toBeGreaterThanOrEqual(bucket.lower);
+            expect(bucket.meanPredicted).toBeLessThanOrEqual(bucket.upper);
+        }
+    });
+
+    it('should score drawn games but leave them out of accuracy', () => {
+        const datePlayed = new Date('2025-01-10T00:00:00Z');
+        const draws: GameResult[] = [
+            { playerId: 'a', opponentId: 'b', score: 0.5, datePlayed },
+            { playerId: 'a', opponentId: 'b', score: 1, datePlayed },
+        ];
+        const report = new Backtester().run(draws, { calibrationBuckets: 2 });
+
+        expect(report.games).toBe(2);
+        expect(report.decisiveGames).toBe(1);
+        expect(report.accuracy).toBe(0.5); // An even prediction counts as half right
+        expect(report.logLoss).toBeCloseTo(Math.log(2), 10);
+        expect(report.calibration[0]).toEqual({ lower: 0, upper: 0.5, games: 0, meanPredicted: null, meanObserved: null });
+        expect(report.calibration[1]).toMatchObject({ games: 2, meanPredicted: 0.5, meanObserved: 0.75 });
+    });
+
+    it('should skip burn-in periods', () => {
+        const report = new Backtester().run(games, { burnInPeriods: 3 });
+        const { predictions } = new HistoryReplay().run(games);
+        expect(report.games).toBe(predictions.filter(p => p.period >= 3).length);
+    });
+
+    it('should compare configurations on the same games', () => {
+        const reports = Backtester.compare(games, { default: {}, fastDecay: { inactivityConstant: 80 } });
+        expect(Object.keys(reports)).toEqual(['default', 'fastDecay']);
+        expect(reports.default).toEqual(new Backtester().run(games));
+        expect(reports.fastDecay.logLoss).not.toBe(reports.default.logLoss);
+    });
+
+    it('should validate its options', () => {
+        expect(() => new Backtester().run(games, { calibrationBuckets: 0 })).toThrow("calibrationBuckets must be a positive integer.");
+        expect(() => new Backtester().run(games, { burnInPeriods: -1 })).toThrow("burnInPeriods must be a non-negative integer.");
+        expect(() => new Backtester({ initialRD: -1 })).toThrow("initialRD must be non-negative.");
+    });
+});
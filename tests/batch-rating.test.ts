@@ -0,0 +1,137 @@
+import { BatchRatingProcessor } from '../src/batch-rating';
+import { RatingPeriodProcessor } from '../src/rating-period';
+import { Glicko } from '../src/glicko';
+import { Player } from '../src/interfaces/player';
+import { GameResult } from '../src/interfaces/game-result';
+import { BatchRatingInput } from '../src/interfaces/batch';
+import { GlickoValidationError, InvalidRatingDeviationError, InvalidScoreError } from '../src/errors';
+import { syntheticGames } from './helpers/synthetic-games';
+
+describe('BatchRatingProcessor Class', () => {
+    const playedAt = new Date('2025-01-15T00:00:00Z');
+    const lastPlayed = new Date('2024-12-01T00:00:00Z');
+
+    const expectIdentical = (glicko: Glicko, players: Record<string, Player>, games: GameResult[], elapsedDays?: number) => {
+        const batch = new BatchRatingProcessor(glicko);
+        const { ids, input } = batch.toColumns(players, games);
+        const result = batch.toPlayers(ids, batch.process(input, elapsedDays === undefined ? undefined : { elapsedDays }));
+        const expected = new RatingPeriodProcessor(glicko).process(players, games, elapsedDays === undefined ? undefined : { elapsedDays });
+
+        expect(Object.keys(result).sort()).toEqual(Object.keys(expected).sort());
+        for (const id of ids) {
+            expect(result[id].rating).toBe(expected[id].rating);
+            expect(result[id].rd).toBe(expected[id].rd);
+            expect(result[id].precise?.rating).toBe(expected[id].precise?.rating ?? expected[id].rating);
+            expect(result[id].precise?.rd).toBe(expected[id].precise?.rd ?? expected[id].rd);
+        }
+    };
+
+    it('should match RatingPeriodProcessor exactly for a single period', () => {
+        const players: Record<string, Player> = {
+            a: { rating: 1500, rd: 200 },
+            b: { rating: 1400, rd: 30 },
+            c: { rating: 1550, rd: 100 },
+        };
+        const games: GameResult[] = [
+            { playerId: 'a', opponentId: 'b', score: 1, datePlayed: playedAt },
+            { playerId: 'a', opponentId: 'c', score: 0, datePlayed: playedAt },
+            { playerId: 'b', opponentId: 'c', score: 0.5, datePlayed: playedAt },
+        ];
+        expectIdentical(new Glicko(), players, games, 0);
+    });
+
+    it('should match RatingPeriodProcessor across chained periods with new players, inactivity and safeguards', () => {
+        const glicko = new Glicko({ ratingFloor: 1300, maxRatingChangePerPeriod: 150, minRD: 40, roundingMode: 'half-even' });
+        const games = syntheticGames(4, 60);
+        let players: Record<string, Player> = { idle: { rating: 1700, rd: 80, lastPlayedMatch: lastPlayed } };
+        for (let period = 0; period < 4; period++) {
+            const periodGames = games.slice(period * 60, (period + 1) * 60);
+            expectIdentical(glicko, players, periodGames);
+            players = new RatingPeriodProcessor(glicko).process(players, periodGames);
+        }
+    });
+
+    it('should match RatingPeriodProcessor with the peak floor', () => {
+        const glicko = new Glicko({ peakFloorOffset: 50 });
+        const players: Record<string, Player> = {
+            a: { rating: 1500, rd: 200, peakRating: 1540, lastPlayedMatch: lastPlayed },
+            b: { rating: 1500, rd: 60, lastPlayedMatch: lastPlayed },
+        };
+        const games: GameResult[] = [{ playerId: 'b', opponentId: 'a', score: 1, datePlayed: playedAt }];
+        expectIdentical(glicko, players, games, 0);
+
+        const batch = new BatchRatingProcessor(glicko);
+        const { input } = batch.toColumns(players, games);
+        const result = batch.process(input, { elapsedDays: 0 });
+        expect(result.peakRatings?.[0]).toBe(1540);
+        expect(result.safeguards).toEqual([expect.objectContaining({ playerIndex: 0, safeguard: 'peakFloor', after: 1490 })]);
+    });
+
+    it('should match RatingPeriodProcessor with a first-move advantage', () => {
+        const glicko = new Glicko({ firstMoveAdvantage: 35 });
+        const games = syntheticGames(1, 80).map((game, i): GameResult => ({ ...game, side: i % 3 === 0 ? undefined : i % 3 === 1 ? 'first' : 'second' }));
+        expectIdentical(glicko, {}, games);
+        expect(Array.from(new BatchRatingProcessor(glicko).toColumns({}, games).input.sides as Int8Array).slice(0, 3)).toEqual([0, 1, -1]);
+    });
+
+    it('should weight games like Match.weight', () => {
+        const glicko = new Glicko();
+        const player: Player = { rating: 1500, rd: 200 };
+        const opponent: Player = { rating: 1600, rd: 80 };
+        const result = new BatchRatingProcessor(glicko).process({
+            ratings: Float64Array.of(1500, 1600),
+            rds: Float64Array.of(200, 80),
+            playerIndex: Uint32Array.of(0),
+            opponentIndex: Uint32Array.of(1),
+            scores: Float64Array.of(1),
+            weights: Float64Array.of(0.5),
+        }, { elapsedDays: 0 });
+        const expected = glicko.processGameResults(player, [{ player, opponent, score: 1, datePlayed: playedAt, weight: 0.5 }], 0);
+        expect(result.ratings[0]).toBe(expected.precise?.rating);
+        expect(result.rds[0]).toBe(expected.precise?.rd);
+    });
+
+    it('should leave players without games at their start-of-period state and count games', () => {
+        const result = new BatchRatingProcessor().process({
+            ratings: Float64Array.of(1500, 1500, 1600),
+            rds: Float64Array.of(100, 100, 100),
+            hasPlayed: Uint8Array.of(1, 1, 0),
+            playerIndex: Uint32Array.of(0, 1),
+            opponentIndex: Uint32Array.of(1, 0),
+            scores: Float64Array.of(1, 0.5),
+        }, { elapsedDays: 30 });
+        expect(Array.from(result.gamesPlayed)).toEqual([2, 2, 0]);
+        expect(result.ratings[2]).toBe(1600);
+        expect(result.rds[2]).toBe(100); // hasPlayed = 0: no inactivity growth
+    });
+
+    describe('validation', () => {
+        const valid = (): BatchRatingInput => ({
+            ratings: Float64Array.of(1500, 1500),
+            rds: Float64Array.of(100, 100),
+            playerIndex: Uint32Array.of(0),
+            opponentIndex: Uint32Array.of(1),
+            scores: Float64Array.of(1),
+        });
+        const batch = new BatchRatingProcessor();
+
+        it('should reject mismatched column lengths', () => {
+            expect(() => batch.process({ ...valid(), rds: Float64Array.of(100) })).toThrow(GlickoValidationError);
+            expect(() => batch.process({ ...valid(), scores: Float64Array.of(1, 0) })).toThrow(GlickoValidationError);
+        });
+
+        it('should reject out-of-range indices and self-play', () => {
+            expect(() => batch.process({ ...valid(), opponentIndex: Uint32Array.of(2) })).toThrow(/outside the player columns/);
+            expect(() => batch.process({ ...valid(), opponentIndex: Uint32Array.of(0) })).toThrow(/against themselves/);
+        });
+
+        it('should reject invalid scores, RDs, weights and elapsed days', () => {
+            expect(() => batch.process({ ...valid(), scores: Float64Array.of(1.5) })).toThrow(InvalidScoreError);
+            expect(() => batch.process({ ...valid(), scores: Float64Array.of(NaN) })).toThrow(InvalidScoreError);
+            expect(() => batch.process({ ...valid(), rds: Float64Array.of(100, 0) })).toThrow(InvalidRatingDeviationError);
+            expect(() => batch.process({ ...valid(), weights: Float64Array.of(-1) })).toThrow(GlickoValidationError);
+            expect(() => batch.process({ ...valid(), sides: Int8Array.of(2) })).toThrow(GlickoValidationError);
+            expect(() => batch.process(valid(), { elapsedDays: -1 })).toThrow(GlickoValidationError);
+        });
+    });
+});
@@ -0,0 +1,189 @@
+import { GlickoCli } from '../src/cli';
+import { Glicko } from '../src/glicko';
+import { RatingPeriodProcessor } from '../src/rating-period';
+import { SnapshotSerializer } from '../src/serialization';
+import { CsvImporter } from '../src/importers/csv-importer';
+import { FixedClock } from '../src/utils/clock';
+import { Player } from '../src/interfaces/player';
+
+describe('GlickoCli Class', () => {
+    const asOf = '2025-02-01T00:00:00Z';
+    const csv = [
+        'player,opponent,score,date',
+        'alice,bob,1,2025-01-10',
+        'bob,carol,0.5,2025-01-11',
+        'carol,alice,0,2025-01-12',
+    ].join('\n');
+    const serializer = new SnapshotSerializer();
+    let files: Map<string, string>;
+    let stdout: string[];
+    let stderr: string[];
+    let cli: GlickoCli;
+
+    beforeEach(() => {
+        files = new Map([['matches.csv', csv]]);
+        stdout = [];
+        stderr = [];
+        cli = new GlickoCli({
+            readFile: path => {
+                const contents = files.get(path);
+                if (contents === undefined) { throw new Error(`ENOENT: no such file or directory, open '${path}'`); }
+                return contents;
+            },
+            writeFile: (path, contents) => { files.set(path, contents); },
+            stdout: text => { stdout.push(text); },
+            stderr: text => { stderr.push(text); },
+        });
+    });
+
+    const ratePlayers = (): Record<string, Player> => {
+        expect(cli.run(['rate', '--matches', 'matches.csv', '--out', 'players.json', '--as-of', asOf])).toBe(0);
+        stdout = [];
+        return serializer.deserialize('players', files.get('players.json') as string);
+    };
+
+    describe('rate', () => {
+        it('should write the same ratings as RatingPeriodProcessor and print a leaderboard', () => {
+            const code = cli.run(['rate', '--matches', 'matches.csv', '--out', 'players.json', '--as-of', asOf]);
+
+            expect(code).toBe(0);
+            expect(stderr).toEqual([]);
+            const glicko = new Glicko({ clock: new FixedClock(new Date(asOf)) });
+            const expected = new RatingPeriodProcessor(glicko).process({}, new CsvImporter().parse(csv));
+            expect(serializer.deserialize('players', files.get('players.json') as string)).toEqual(expected);
+            expect(stdout[0]).toBe('Rated 3 games; wrote 3 players to players.json.');
+            expect(stdout[1]).toMatch(/^Rank\s+Player\s+Rating\s+RD\s+Conservative$/);
+            expect(stdout[2]).toMatch(/^\s+1\s+alice\s+1747\.20\s+253\.35\s+/);
+        });
+
+        it('should report games skipped in lenient mode and count only the games rated', () => {
+            files.set('mixed.json', JSON.stringify([
+                { playerId: 'alice', opponentId: 'bob', score: 7, datePlayed: '2025-01-10T00:00:00Z' },
+                { playerId: 'bob', opponentId: 'carol', score: 1, datePlayed: '2025-01-11T00:00:00Z' },
+            ]));
+            expect(cli.run(['rate', '--matches', 'mixed.json', '--out', 'players.json', '--as-of', asOf])).toBe(0);
+            expect(stderr).toEqual([expect.stringMatching(/^warning: skipped game 1 \(alice vs bob\): /)]);
+            expect(stdout[0]).toBe('Rated 1 of 2 games (1 skipped); wrote 3 players to players.json.');
+
+            stdout = [];
+            stderr = [];
+            expect(cli.run(['rate', '--matches', 'matches.csv', '--out', 'players.json', '--as-of', '2024-01-01'])).toBe(0);
+            expect(stderr).toHaveLength(3);
+            expect(stdout[0]).toBe('Rated 0 of 3 games (3 skipped); wrote 3 players to players.json.');
+        });
+
+        it('should start from an existing players file and read JSON matches', () => {
+            const players = ratePlayers();
+            files.set('matches.json', JSON.stringify([{ playerId: 'alice', opponentId: 'dave', score: 0, datePlayed: '2025-01-20T00:00:00Z', side: 'first' }]));
+
+            const code = cli.run(['rate', '--players', 'players.json', '--matches', 'matches.json', '--out', 'next.json', '--elapsed-days=0', '--as-of', asOf]);
+            expect(code).toBe(0);
+            const next = serializer.deserialize('players', files.get('next.json') as string);
+            expect(Object.keys(next).sort()).toEqual(['alice', 'bob', 'carol', 'dave']);
+            expect(next.alice.rating).toBeLessThan(players.alice.rating);
+            expect(next.bob).toEqual(players.bob);
+        });
+
+        it('should apply config flags on top of a config file', () => {
+            files.set('config.json', serializer.stringify('config', { roundingPrecision: 0, initialRD: 300 }));
+            const code = cli.run(['rate', '--matches', 'matches.csv', '--out', 'players.json', '--config', 'config.json', '--initial-rd', '200', '--as-of', asOf]);
+            expect(code).toBe(0);
+
+            const glicko = new Glicko({ roundingPrecision: 0, initialRD: 200, clock: new FixedClock(new Date(asOf)) });
+            const expected = new RatingPeriodProcessor(glicko).process({}, new CsvImporter().parse(csv));
+            expect(serializer.deserialize('players', files.get('players.json') as string)).toEqual(expected);
+            expect(Number.isInteger(expected.alice.rating)).toBe(true);
+        });
+    });
+
+    describe('leaderboard', () => {
+        it('should rank the players file and note rows left out by the limit', () => {
+            ratePlayers();
+            expect(cli.run(['leaderboard', '--players', 'players.json', '--limit', '1', '--as-of', asOf])).toBe(0);
+            expect(stdout).toHaveLength(3);
+            expect(stdout[1]).toMatch(/^\s+1\s+alice\s/);
+            expect(stdout[2]).toBe('(2 more)');
+        });
+    });
+
+    describe('predict', () => {
+        it('should predict a game between two players of the players file', () => {
+            const players = ratePlayers();
+            expect(cli.run(['predict', '--players', 'players.json', 'alice', 'bob', '--draw-rate', '0.2', '--as-of', asOf])).toBe(0);
+
+            const glicko = new Glicko();
+            const days = (player: Player) => (new Date(asOf).getTime() - (player.lastPlayedMatch as Date).getTime()) / 86400000;
+            const prediction = glicko.predict(
+                glicko.updateRDForInactivity(players.alice, days(players.alice)),
+                glicko.updateRDForInactivity(players.bob, days(players.bob)),
+                { drawRate: 0.2 },
+            );
+            expect(stdout[0]).toMatch(/^alice \(1747\.20 ± \d+\.\d{2}\) vs bob \(1376\.40 ± \d+\.\d{2}\)$/);
+            expect(stdout[1]).toContain(`Expected score for alice: ${prediction.expectedScore.toFixed(3)}`);
+            expect(stdout[2]).toBe(`Win ${(prediction.winProbability * 100).toFixed(1)}%, draw ${(prediction.drawProbability * 100).toFixed(1)}%, loss ${(prediction.lossProbability * 100).toFixed(1)}%`);
+        });
+
+        it('should apply the first-move advantage for the given side', () => {
+            ratePlayers();
+            cli.run(['predict', '--players', 'players.json', 'bob', 'carol', '--as-of', asOf]);
+            cli.run(['predict', '--players', 'players.json', 'bob', 'carol', '--as-of', asOf, '--side', 'first', '--first-move-advantage', '50']);
+            expect(stdout[1]).toContain('Expected score for bob: 0.500');
+            expect(stdout[4]).not.toContain('Expected score for bob: 0.500');
+        });
+    });
+
+    describe('errors', () => {
+        it('should exit with 2 and usage help for invalid usage', () => {
+            const usage = [
+                [[], 'No command given.'],
+                [['frob'], 'Unknown command "frob".'],
+                [['rate', '--matches', 'matches.csv'], '--out is required.'],
+                [['rate', '--matches'], '--matches needs a value.'],
+                [['leaderboard', '--players', 'p.json', '--bogus', '1'], 'Unknown option --bogus for "leaderboard".'],
+                [['leaderboard', '--players', 'p.json', '--initial-rd', 'abc'], '--initial-rd must be a number: abc'],
+                [['predict', '--players', 'p.json', 'alice'], '"predict" needs exactly 2 player ids.'],
+                [['rate', '--matches', 'matches.txt', '--out', 'x.json'], 'Cannot tell the format of matches.txt; pass --format csv, json or pgn.'],
+            ] as const;
+            files.set('matches.txt', csv);
+            for (const [args, message] of usage) {
+                stderr = [];
+                expect(cli.run([...args])).toBe(2);
+                expect(stderr).toEqual([`error: ${message}`, "Run 'glicko-ts help' for usage."]);
+            }
+        });
+
+        it('should exit with 1 and a clear message for invalid input', () => {
+            ratePlayers();
+            files.set('bad.csv', 'player,opponent,score,date\nalice,bob,2,2025-01-10');
+            files.set('bad.json', JSON.stringify([{ playerId: 'alice', opponentId: 'bob', score: 1, datePlayed: 'yesterday' }]));
+            files.set('self.csv', 'player,opponent,score,date\nalice,alice,1,2025-01-10');
+            const invalid = [
+                [['leaderboard', '--players', 'missing.json'], "Cannot read missing.json: ENOENT: no such file or directory, open 'missing.json'"],
+                [['rate', '--matches', 'bad.csv', '--out', 'x.json'], 'Line 2: Unknown score "2".'],
+                [['rate', '--matches', 'bad.json', '--out', 'x.json'], 'Game 0 has no valid ISO 8601 datePlayed.'],
+                [['rate', '--matches', 'self.csv', '--out', 'x.json', '--as-of', asOf], 'Player alice cannot play against themselves.'],
+                [['predict', '--players', 'players.json', 'alice', 'zed'], 'Player "zed" is not in players.json.'],
+                [['leaderboard', '--players', 'players.json', '--rounding-precision', '-1'], 'roundingPrecision must be a non-negative integer.'],
+            ] as const;
+            for (const [args, message] of invalid) {
+                stderr = [];
+                expect(cli.run([...args])).toBe(1);
+                expect(stderr).toEqual([`error: ${message}`]);
+            }
+            expect(files.has('x.json')).toBe(false);
+        });
+
+        it('should print usage for help', () => {
+            expect(cli.run(['--help'])).toBe(0);
+            expect(stdout[0]).toMatch(/^Usage: glicko-ts <command> \[options\]/);
+            expect(stdout[0]).toContain('--first-move-advantage');
+
+            stdout = [];
+            expect(cli.run(['rate', '--help'])).toBe(0);
+            expect(cli.run(['predict', '--players', 'p.json', '-h'])).toBe(0);
+            expect(stdout).toHaveLength(2);
+            expect(stdout[1]).toMatch(/^Usage: glicko-ts/);
+            expect(stderr).toEqual([]);
+        });
+    });
+});
@@ -2,6 +2,9 @@ import { Glicko } from '../src/glicko';
 import { Player } from '../src/interfaces/player';
 import { Match } from '../src/interfaces/match';
 import { MathUtils } from '../src/utils/math-utils';
+import { FixedClock } from '../src/utils/clock';
+import { FutureMatchError, GlickoValidationError, InvalidConfigError, InvalidRatingDeviationError, InvalidRatingError, InvalidScoreError } from '../src/errors';
+import { RatingWarning } from '../src/interfaces/validation';
 
 describe('Glicko Class', () => {
     let glicko: Glicko;
@@ -85,6 +88,15 @@ describe('Glicko Class', () => {
         it('should throw an error if roundingPrecision is not an integer', () => {
             expect(() => new Glicko({ roundingPrecision: 1.5 })).toThrowError("roundingPrecision must be a non-negative integer.");
         });
+
+        it('should throw a typed error carrying the field and value', () => {
+            expect(() => new Glicko({ initialRD: -5 })).toThrow(InvalidConfigError);
+            try {
+                new Glicko({ initialRD: -5 });
+            } catch (error) {
+                expect(error).toMatchObject({ name: 'InvalidConfigError', code: 'INVALID_CONFIG', field: 'initialRD', value: -5 });
+            }
+        });
     });
 
     describe('initializeNewPlayer', () => {
@@ -194,7 +206,7 @@ describe('Glicko Class', () => {
             const daysInactive = 60;
 
             const EXPECTED_FINAL_RATING = 1263.13;
-            const EXPECTED_FINAL_RD = 250.32;
+            const EXPECTED_FINAL_RD = 250.33; // From the unrounded inactivity RD (311.30 -> 311.3004...)
 
             const playerA_updated = glicko.processGameResults(playerA_before_inactivity, matchesForA, daysInactive);
 
@@ -230,6 +242,459 @@ describe('Glicko Class', () => {
 
     });
 
+    describe('clock and as-of date', () => {
+        const DAY = 24 * 60 * 60 * 1000;
+        const asOf = new Date('2025-06-01T00:00:00Z');
+
+        it('should use the configured clock by default', () => {
+            const glicko = new Glicko({ clock: new FixedClock(asOf) });
+            expect(glicko['config'].clock.now()).toEqual(asOf);
+        });
+
+        it('should set lastPlayedMatch to the latest match date rather than processing time', () => {
+            const glicko = new Glicko();
+            const player: Player = { rating: 1500, rd: 200 };
+            const opponent: Player = { rating: 1500, rd: 200 };
+            const matches: Match[] = [
+                { player, opponent, score: 1, datePlayed: new Date('2020-03-02T00:00:00Z') },
+                { player, opponent, score: 0, datePlayed: new Date('2020-03-09T00:00:00Z') },
+            ];
+            const updated = glicko.processGameResults(player, matches);
+            expect(updated.lastPlayedMatch).toEqual(new Date('2020-03-09T00:00:00Z'));
+        });
+
+        it('should fall back to the as-of date when no match has a valid date', () => {
+            const glicko = new Glicko({ clock: new FixedClock(asOf) });
+            const player: Player = { rating: 1500, rd: 200 };
+            const matches: Match[] = [{ player, opponent: { rating: 1500, rd: 200 }, score: 1, datePlayed: new Date(NaN) }];
+            expect(glicko.processGameResults(player, matches).lastPlayedMatch).toEqual(asOf);
+        });
+
+        it('should derive inactivity from lastPlayedMatch and the earliest match date', () => {
+            const glicko = new Glicko({ inactivityConstant: 50 });
+            const player: Player = { rating: 1034.14, rd: 100, lastPlayedMatch: new Date(asOf.getTime() - 60 * DAY) };
+            const opponent: Player = { rating: 1200, rd: 150 };
+            const matches: Match[] = [
+                { player, opponent, score: 1, datePlayed: new Date(asOf.getTime() + 5 * DAY) },
+                { player, opponent, score: 1, datePlayed: asOf },
+            ];
+
+            const derived = glicko.processGameResults(player, matches);
+            const explicit = glicko.processGameResults(player, matches, 60);
+            expect(derived.rating).toBe(explicit.rating);
+            expect(derived.rd).toBe(explicit.rd);
+        });
+
+        it('should apply inactivity up to the as-of date when there are no matches', () => {
+            const glicko = new Glicko({ inactivityConstant: 50, clock: new FixedClock(asOf) });
+            const player: Player = { rating: 1600, rd: 100, lastPlayedMatch: new Date(asOf.getTime() - 90 * DAY) };
+            const expected = glicko.updateRDForInactivity(player, 90);
+
+            expect(glicko.processGameResults(player, []).rd).toBe(expected.rd);
+            const earlier = glicko.processGameResults(player, [], { asOf: new Date(asOf.getTime() - 60 * DAY) });
+            expect(earlier.rd).toBe(glicko.updateRDForInactivity(player, 30).rd);
+        });
+
+        it('should prefer explicit daysSinceLastActive over derived inactivity', () => {
+            const glicko = new Glicko({ inactivityConstant: 50, clock: new FixedClock(asOf) });
+            const player: Player = { rating: 1600, rd: 100, lastPlayedMatch: new Date(asOf.getTime() - 90 * DAY) };
+            expect(glicko.processGameResults(player, [], { daysSinceLastActive: 0 }).rd).toBe(100);
+        });
+    });
+
+    describe('input validation', () => {
+        const asOf = new Date('2025-06-01T00:00:00Z');
+        const player: Player = { rating: 1500, rd: 200 };
+        const good: Match = { player, opponent: { rating: 1400, rd: 30 }, score: 1, datePlayed: new Date('2025-05-20T00:00:00Z') };
+        const invalidMatches: [string, Match, unknown][] = [
+            ['score', { ...good, score: 1.5 }, InvalidScoreError],
+            ['opponent.rating', { ...good, opponent: { rating: NaN, rd: 30 } }, InvalidRatingError],
+            ['opponent.rd', { ...good, opponent: { rating: 1400, rd: 0 } }, InvalidRatingDeviationError],
+            ['datePlayed', { ...good, datePlayed: new Date('2025-07-01T00:00:00Z') }, FutureMatchError],
+            ['weight', { ...good, weight: NaN }, GlickoValidationError],
+            ['weight', { ...good, weight: -0.5 }, GlickoValidationError],
+            ['weight', { ...good, weight: Infinity }, GlickoValidationError],
+        ];
+
+        it.each(invalidMatches)('should skip and report a match with an invalid %s in lenient mode', (field, match) => {
+            const onWarning = jest.fn();
+            const glicko = new Glicko({ clock: new FixedClock(asOf), onWarning });
+            const result = glicko.processGameResultsWithWarnings(player, [good, match], 0);
+
+            expect(result.player).toEqual(glicko.processGameResults(player, [good], 0));
+            expect(result.warnings).toHaveLength(1);
+            expect(result.warnings[0]).toMatchObject({ field, matchIndex: 1 });
+            expect(onWarning).toHaveBeenCalledWith(result.warnings[0]);
+        });
+
+        it.each(invalidMatches)('should throw for a match with an invalid %s in strict mode', (field, match, errorClass) => {
+            const glicko = new Glicko({ clock: new FixedClock(asOf), validationMode: 'strict' });
+            expect(() => glicko.processGameResults(player, [good, match], 0)).toThrow(errorClass as new () => Error);
+        });
+
+        it('should not log skipped matches to the console', () => {
+            const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+            const warnings: RatingWarning[] = [];
+            const glicko = new Glicko({ clock: new FixedClock(asOf), onWarning: warning => warnings.push(warning) });
+            glicko.processGameResults(player, [{ ...good, score: -1 }], 0);
+            expect(consoleWarnSpy).not.toHaveBeenCalled();
+            expect(warnings[0]).toMatchObject({ code: 'INVALID_SCORE', field: 'score', value: -1, matchIndex: 0 });
+            consoleWarnSpy.mockRestore();
+        });
+
+        it('should leave the player unchanged apart from inactivity when every match is skipped', () => {
+            const glicko = new Glicko({ clock: new FixedClock(asOf) });
+            const result = glicko.processGameResultsWithWarnings(player, [{ ...good, score: 2 }], 0);
+            expect(result.player).toEqual(player);
+        });
+
+        it('should always throw for an invalid player', () => {
+            const glicko = new Glicko({ clock: new FixedClock(asOf) });
+            expect(() => glicko.processGameResults({ rating: Infinity, rd: 100 }, [good], 0)).toThrow(InvalidRatingError);
+            expect(() => glicko.processGameResults({ rating: 1500, rd: NaN }, [good], 0)).toThrow("Player RD must be positive for calculations.");
+        });
+
+        it('should reject an unknown validation mode', () => {
+            expect(() => new Glicko({ validationMode: 'loose' as 'strict' })).toThrow("validationMode must be 'strict' or 'lenient'.");
+        });
+    });
+
+    describe('explainGameResults', () => {
+        const asOf = new Date('2025-06-01T00:00:00Z');
+        const datePlayed = new Date('2025-05-20T00:00:00Z');
+        const player: Player = { id: 'p', rating: 1500, rd: 200 };
+        // Example from Glickman's Glicko paper
+        const matches: Match[] = [
+            { player, opponent: { rating: 1400, rd: 30 }, score: 1, datePlayed },
+            { player, opponent: { rating: 1550, rd: 100 }, score: 0, datePlayed },
+            { player, opponent: { rating: 1700, rd: 300 }, score: 0, datePlayed },
+        ];
+        const glicko = new Glicko({ clock: new FixedClock(asOf) });
+
+        it('should trace each match and the intermediate values of the paper example', () => {
+            const explanation = glicko.explainGameResults(player, matches, 0);
+
+            expect(explanation.matches.map(m => m.g)).toEqual([expect.closeTo(0.9955, 4), expect.closeTo(0.9531, 4), expect.closeTo(0.7242, 4)]);
+            expect(explanation.matches.map(m => m.expectedScore)).toEqual([expect.closeTo(0.639, 3), expect.closeTo(0.432, 3), expect.closeTo(0.303, 3)]);
+            expect(Math.sqrt(explanation.dSquared as number)).toBeCloseTo(231.67, 1);
+            expect(explanation.unrounded.rating).toBeCloseTo(1464.1, 0);
+            expect(explanation.unrounded.rd).toBeCloseTo(151.4, 0);
+        });
+
+        it('should have per-match contributions that add up to the totals', () => {
+            const explanation = glicko.explainGameResults(player, matches, 0);
+            const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+            expect(sum(explanation.matches.map(m => m.varianceContribution))).toBeCloseTo(explanation.varianceFactorSum, 12);
+            expect(sum(explanation.matches.map(m => m.performanceContribution))).toBeCloseTo(explanation.performanceSum, 12);
+            expect(sum(explanation.matches.map(m => m.ratingChange))).toBeCloseTo(explanation.unrounded.ratingChange, 9);
+        });
+
+        it('should agree with processGameResults, including inactivity', () => {
+            const returning: Player = { ...player, lastPlayedMatch: new Date('2025-01-01T00:00:00Z') };
+            const explanation = glicko.explainGameResults(returning, matches);
+            const updated = glicko.processGameResults(returning, matches);
+
+            expect(explanation.inactivity.rdBefore).toBe(200);
+            expect(explanation.inactivity.rdAfter).toBe(glicko.updateRDForInactivity(returning, explanation.inactivity.days).precise?.rd);
+            expect(explanation.result).toEqual({ rating: updated.rating, rd: updated.rd, lastPlayedMatch: datePlayed.toISOString() });
+        });
+
+        it('should be serializable JSON and list skipped matches', () => {
+            const withInvalid = [...matches, { player, opponent: { rating: 1500, rd: 50 }, score: 1, datePlayed: new Date('2025-07-01T00:00:00Z') }];
+            const explanation = glicko.explainGameResults(player, withInvalid, 0);
+
+            expect(JSON.parse(JSON.stringify(explanation))).toEqual(explanation);
+            expect(explanation.playerId).toBe('p');
+            expect(explanation.matches.map(m => m.matchIndex)).toEqual([0, 1, 2]);
+            expect(explanation.skipped).toEqual([expect.objectContaining({ code: 'FUTURE_MATCH', matchIndex: 3, value: '2025-07-01T00:00:00.000Z' })]);
+        });
+
+        it('should report no d^2 when there are no matches', () => {
+            const explanation = glicko.explainGameResults(player, [], 0);
+            expect(explanation.dSquared).toBeNull();
+            expect(explanation.result).toEqual({ rating: 1500, rd: 200, lastPlayedMatch: null });
+        });
+    });
+
+    describe('full-precision state', () => {
+        const datePlayed = new Date('2025-01-10');
+
+        it('should return display values alongside the full-precision state', () => {
+            const player: Player = { rating: 1500, rd: 200 };
+            const updated = glicko.processGameResults(player, [{ player, opponent: { rating: 1400, rd: 30 }, score: 1, datePlayed }], 0);
+            expect(updated.precise).toBeDefined();
+            expect(updated.rating).toBe(MathUtils.roundToDecimalPlaces(updated.precise!.rating, 2));
+            expect(updated.rd).toBe(MathUtils.roundToDecimalPlaces(updated.precise!.rd, 2));
+            expect(updated.precise!.rating).not.toBe(updated.rating);
+        });
+
+        it('should not drift from a full-precision reference over many periods', () => {
+            const coarse = new Glicko({ roundingPrecision: 0, inactivityConstant: 40 });
+            const reference = new Glicko({ roundingPrecision: 12, inactivityConstant: 40 });
+            const opponents = [{ rating: 1450, rd: 80 }, { rating: 1620, rd: 120 }, { rating: 1500, rd: 60 }];
+            let a: Player = { rating: 1500, rd: 350 };
+            let b: Player = { rating: 1500, rd: 350 };
+            for (let period = 0; period < 300; period++) {
+                const date = new Date(Date.UTC(2020, 0, 1) + period * 30 * 86400000);
+                const matches = (player: Player): Match[] => opponents.map((opponent, i) => ({ player, opponent, score: (period + i) % 3 / 2, datePlayed: date }));
+                a = coarse.processGameResults(a, matches(a), period === 0 ? 0 : 30);
+                b = reference.processGameResults(b, matches(b), period === 0 ? 0 : 30);
+            }
+            expect(a.precise!.rating).toBeCloseTo(b.precise!.rating, 6);
+            expect(a.precise!.rd).toBeCloseTo(b.precise!.rd, 6);
+            expect(a.rating).toBe(Math.round(b.precise!.rating));
+        });
+
+        it('should compute from the opponent\'s full-precision state', () => {
+            const player: Player = { rating: 1500, rd: 200 };
+            const opponent: Player = { rating: 1600, rd: 80, precise: { rating: 1600.004, rd: 79.996 } };
+            const withPrecise = glicko.explainGameResults(player, [{ player, opponent, score: 1, datePlayed }], 0);
+            expect(withPrecise.matches[0].opponentRating).toBe(1600.004);
+            expect(withPrecise.matches[0].opponentRd).toBe(79.996);
+        });
+
+        it('should ignore a full-precision state that no longer matches the display values', () => {
+            const edited: Player = { rating: 1700, rd: 80, precise: { rating: 1612.3456, rd: 79.996 } };
+            const explanation = glicko.explainGameResults(edited, [{ player: edited, opponent: { rating: 1500, rd: 50 }, score: 1, datePlayed }], 0);
+            expect(explanation.start).toEqual({ rating: 1700, rd: 80 });
+        });
+
+        it('should round display values with the configured mode', () => {
+            const player: Player = { rating: 1500, rd: 200 };
+            const matches: Match[] = [{ player, opponent: { rating: 1400, rd: 30 }, score: 1, datePlayed }];
+            const truncated = new Glicko({ roundingMode: 'truncate', roundingPrecision: 0 }).processGameResults(player, matches, 0);
+            expect(truncated.rating).toBe(Math.trunc(truncated.precise!.rating));
+            expect(truncated.rd).toBe(Math.trunc(truncated.precise!.rd));
+            expect(() => new Glicko({ roundingMode: 'up' as never })).toThrow(InvalidConfigError);
+        });
+    });
+
+    describe('rating safeguards', () => {
+        const datePlayed = new Date('2025-01-10');
+        const newcomer: Player = { id: 'new', rating: 1500, rd: 350 };
+        const wins = (player: Player, count: number): Match[] =>
+            Array.from({ length: count }, () => ({ player, opponent: { rating: 2100, rd: 50 }, score: 1, datePlayed }));
+        const losses = (player: Player, count: number): Match[] =>
+            Array.from({ length: count }, () => ({ player, opponent: { rating: 900, rd: 50 }, score: 0, datePlayed }));
+
+        it('should apply no safeguards by default', () => {
+            const result = glicko.processGameResultsWithWarnings(newcomer, wins(newcomer, 5), 0);
+            expect(result.safeguards).toEqual([]);
+            expect(result.player.rating - newcomer.rating).toBeGreaterThan(500);
+            expect(result.player).not.toHaveProperty('peakRating');
+        });
+
+        it('should cap the rating change per period', () => {
+            const capped = new Glicko({ maxRatingChangePerPeriod: 200 });
+            const up = capped.processGameResultsWithWarnings(newcomer, wins(newcomer, 5), 0);
+            const down = capped.processGameResultsWithWarnings(newcomer, losses(newcomer, 5), 0);
+
+            expect(up.player.rating).toBe(1700);
+            expect(down.player.rating).toBe(1300);
+            expect(up.safeguards).toEqual([{ safeguard: 'maxRatingChange', field: 'rating', before: expect.any(Number), after: 1700, limit: 1700 }]);
+            expect(up.safeguards[0].before).toBeGreaterThan(2000);
+            // The RD update is unaffected.
+            expect(up.player.rd).toBe(glicko.processGameResults(newcomer, wins(newcomer, 5), 0).rd);
+        });
+
+        it('should keep ratings above a static floor', () => {
+            const floored = new Glicko({ ratingFloor: 1400 });
+            const result = floored.processGameResultsWithWarnings(newcomer, losses(newcomer, 3), 0);
+            expect(result.player.rating).toBe(1400);
+            expect(result.safeguards).toEqual([expect.objectContaining({ safeguard: 'ratingFloor', after: 1400, limit: 1400 })]);
+        });
+
+        it('should keep ratings above the highest rating achieved minus the offset', () => {
+            const floored = new Glicko({ peakFloorOffset: 100 });
+            const peaked = floored.processGameResults(newcomer, wins(newcomer, 2), 0);
+            expect(peaked.peakRating).toBe(peaked.rating);
+
+            const fallen = floored.processGameResultsWithWarnings(peaked, losses(peaked, 5), 0);
+            expect(fallen.player.rating).toBe(peaked.rating - 100);
+            expect(fallen.player.peakRating).toBe(peaked.rating);
+            expect(fallen.safeguards).toEqual([expect.objectContaining({ safeguard: 'peakFloor' })]);
+            expect(fallen.safeguards[0].limit).toBeCloseTo(peaked.rating - 100, 2);
+        });
+
+        it('should let floors win over the change cap', () => {
+            const engine = new Glicko({ ratingFloor: 1480, maxRatingChangePerPeriod: 50 });
+            const result = engine.processGameResultsWithWarnings(newcomer, losses(newcomer, 3), 0);
+            expect(result.player.rating).toBe(1480);
+            expect(result.safeguards.map(s => s.safeguard)).toEqual(['maxRatingChange', 'ratingFloor']);
+
+            const both = new Glicko({ ratingFloor: 1000, maxRatingChangePerPeriod: 50 }).processGameResultsWithWarnings(newcomer, losses(newcomer, 3), 0);
+            expect(both.player.rating).toBe(1450);
+            expect(both.safeguards.map(s => s.safeguard)).toEqual(['maxRatingChange']);
+        });
+
+        it('should keep RD at or above the minimum', () => {
+            const veteran: Player = { rating: 1800, rd: 45 };
+            const matches: Match[] = Array.from({ length: 20 }, () => ({ player: veteran, opponent: { rating: 1800, rd: 40 }, score: 0.5, datePlayed }));
+            expect(glicko.processGameResults(veteran, matches, 0).rd).toBeLessThan(40);
+
+            const result = new Glicko({ minRD: 40 }).processGameResultsWithWarnings(veteran, matches, 0);
+            expect(result.player.rd).toBe(40);
+            expect(result.safeguards).toEqual([expect.objectContaining({ safeguard: 'minRD', field: 'rd', after: 40 })]);
+        });
+
+        it('should report safeguards in explanations and match processGameResults', () => {
+            const engine = new Glicko({ maxRatingChangePerPeriod: 200, minRD: 300 });
+            const explanation = engine.explainGameResults(newcomer, wins(newcomer, 5), 0);
+            const updated = engine.processGameResults(newcomer, wins(newcomer, 5), 0);
+            expect(explanation.safeguards.map(s => s.safeguard)).toEqual(['minRD', 'maxRatingChange']);
+            expect(explanation.unrounded.ratingChange).toBeGreaterThan(500);
+            expect(explanation.result).toMatchObject({ rating: updated.rating, rd: updated.rd });
+        });
+
+        it('should reject invalid safeguard settings', () => {
+            expect(() => new Glicko({ ratingFloor: NaN })).toThrow(InvalidConfigError);
+            expect(() => new Glicko({ peakFloorOffset: -1 })).toThrow("peakFloorOffset must be non-negative.");
+            expect(() => new Glicko({ maxRatingChangePerPeriod: 0 })).toThrow("maxRatingChangePerPeriod must be positive.");
+            expect(() => new Glicko({ minRD: 400 })).toThrow("minRD must be between 0 and rdCeiling.");
+        });
+    });
+
+    describe('first-move advantage', () => {
+        const datePlayed = new Date('2025-01-10T00:00:00Z');
+        const player: Player = { rating: 1500, rd: 200 };
+        const opponent: Player = { rating: 1500, rd: 80 };
+
+        it('should ignore the side when no advantage is configured', () => {
+            const withSide = glicko.processGameResults(player, [{ player, opponent, score: 0.5, datePlayed, side: 'first' }], 0);
+            const withoutSide = glicko.processGameResults(player, [{ player, opponent, score: 0.5, datePlayed }], 0);
+            expect(withSide).toEqual(withoutSide);
+        });
+
+        it('should rate the first-moving side as if the opponent were weaker by the advantage', () => {
+            const engine = new Glicko({ firstMoveAdvantage: 40 });
+            const first = engine.processGameResults(player, [{ player, opponent, score: 0.5, datePlayed, side: 'first' }], 0);
+            const second = engine.processGameResults(player, [{ player, opponent, score: 0.5, datePlayed, side: 'second' }], 0);
+            const weaker = engine.processGameResults(player, [{ player, opponent: { rating: 1460, rd: 80 }, score: 0.5, datePlayed }], 0);
+            const stronger = engine.processGameResults(player, [{ player, opponent: { rating: 1540, rd: 80 }, score: 0.5, datePlayed }], 0);
+
+            expect(first.rating).toBeLessThan(1500); // A draw with the advantage is below expectation
+            expect(second.rating).toBeGreaterThan(1500);
+            expect(first.precise?.rating).toBeCloseTo(weaker.precise?.rating as number, 9);
+            expect(second.precise?.rating).toBeCloseTo(stronger.precise?.rating as number, 9);
+            expect(first.precise?.rd).toBeCloseTo(weaker.precise?.rd as number, 9);
+        });
+
+        it('should report the advantage of each match in explanations', () => {
+            const engine = new Glicko({ firstMoveAdvantage: 40 });
+            const explanation = engine.explainGameResults(player, [
+                { player, opponent, score: 1, datePlayed, side: 'second' },
+                { player, opponent, score: 1, datePlayed },
+            ], 0);
+            expect(explanation.matches.map(m => m.advantage)).toEqual([-40, 0]);
+        });
+
+        it('should apply the advantage to predictions', () => {
+            const engine = new Glicko({ firstMoveAdvantage: 40 });
+            const first = engine.predict(player, opponent, { side: 'first' });
+            const shifted = engine.predict({ rating: 1540, rd: 200 }, opponent);
+            expect(first.expectedScore).toBeCloseTo(shifted.expectedScore, 12);
+            expect(first.confidenceInterval.lower).toBeCloseTo(shifted.confidenceInterval.lower, 12);
+            expect(engine.predict(player, opponent, { side: 'second' }).expectedScore).toBeCloseTo(1 - first.expectedScore, 12);
+            expect(engine.predict(player, opponent).expectedScore).toBe(0.5);
+        });
+
+        it('should reject invalid sides and advantages', () => {
+            const strict = new Glicko({ firstMoveAdvantage: 40, validationMode: 'strict' });
+            const invalid = { player, opponent, score: 1, datePlayed, side: 'white' } as unknown as Match;
+            expect(() => strict.processGameResults(player, [invalid], 0)).toThrow("Match side must be 'first' or 'second': white");
+            const lenient = new Glicko({ firstMoveAdvantage: 40 }).processGameResultsWithWarnings(player, [invalid], 0);
+            expect(lenient.warnings.map(w => w.field)).toEqual(['side']);
+            expect(() => new Glicko({ firstMoveAdvantage: NaN })).toThrow(InvalidConfigError);
+        });
+    });
+
+    describe('predict', () => {
+        const q = Math.log(10) / 400;
+
+        it('should use the combined RD of both players', () => {
+            const player: Player = { rating: 1700, rd: 100 };
+            const opponent: Player = { rating: 1500, rd: 150 };
+            const combinedRd = Math.sqrt(100 * 100 + 150 * 150);
+            const expected = 1 / (1 + Math.pow(10, -MathUtils.g(combinedRd, q) * 200 / 400));
+
+            const prediction = glicko.predict(player, opponent);
+            expect(prediction.expectedScore).toBeCloseTo(expected, 10);
+            expect(prediction.winProbability).toBeCloseTo(expected, 10);
+            expect(prediction.drawProbability).toBe(0);
+            expect(prediction.lossProbability).toBeCloseTo(1 - expected, 10);
+        });
+
+        it('should be symmetric between the two players', () => {
+            const a: Player = { rating: 1820, rd: 60 };
+            const b: Player = { rating: 1640, rd: 210 };
+            expect(glicko.predict(a, b).expectedScore + glicko.predict(b, a).expectedScore).toBeCloseTo(1, 10);
+        });
+
+        it('should model draws with the given rate between equal players', () => {
+            const player: Player = { rating: 1500, rd: 80 };
+            const prediction = glicko.predict(player, player, { drawRate: 0.3 });
+            expect(prediction.drawProbability).toBeCloseTo(0.3, 10);
+            expect(prediction.winProbability).toBeCloseTo(0.35, 10);
+            expect(prediction.winProbability + prediction.drawProbability + prediction.lossProbability).toBeCloseTo(1, 10);
+
+            const mismatch = glicko.predict({ rating: 2100, rd: 80 }, player, { drawRate: 0.3 });
+            expect(mismatch.drawProbability).toBeLessThan(0.3);
+            expect(mismatch.winProbability).toBeGreaterThan(mismatch.lossProbability);
+        });
+
+        it('should return a confidence interval that widens with uncertainty', () => {
+            const certain = glicko.predict({ rating: 1600, rd: 30 }, { rating: 1500, rd: 30 });
+            const uncertain = glicko.predict({ rating: 1600, rd: 300 }, { rating: 1500, rd: 300 });
+            expect(certain.confidenceInterval.level).toBe(0.95);
+            expect(certain.confidenceInterval.lower).toBeLessThan(certain.expectedScore);
+            expect(certain.confidenceInterval.upper).toBeGreaterThan(certain.expectedScore);
+            expect(uncertain.confidenceInterval.upper - uncertain.confidenceInterval.lower)
+                .toBeGreaterThan(certain.confidenceInterval.upper - certain.confidenceInterval.lower);
+
+            const z = 1.959963985;
+            const combinedRd = Math.sqrt(2) * 30;
+            expect(certain.confidenceInterval.lower).toBeCloseTo(1 / (1 + Math.exp(-(100 - z * combinedRd) * q)), 6);
+        });
+
+        it('should reject invalid options', () => {
+            const player: Player = { rating: 1500, rd: 80 };
+            expect(() => glicko.predict(player, player, { drawRate: 1 })).toThrow("drawRate must be in the range [0, 1).");
+            expect(() => glicko.predict(player, player, { confidenceLevel: 1 })).toThrow("confidenceLevel must be strictly between 0 and 1.");
+        });
+    });
+
+    describe('predictSeries', () => {
+        it('should equal the single-game prediction for best-of-1', () => {
+            const a: Player = { rating: 1650, rd: 50 };
+            const b: Player = { rating: 1500, rd: 50 };
+            expect(glicko.predictSeries(a, b, 1).winProbability).toBeCloseTo(glicko.predict(a, b).winProbability, 10);
+        });
+
+        it('should favour the stronger player more in longer series', () => {
+            const a: Player = { rating: 1650, rd: 50 };
+            const b: Player = { rating: 1500, rd: 50 };
+            const p = glicko.predict(a, b).winProbability;
+            const bo3 = glicko.predictSeries(a, b, 3);
+            expect(bo3.winProbability).toBeCloseTo(p * p * (3 - 2 * p), 10);
+            expect(glicko.predictSeries(a, b, 7).winProbability).toBeGreaterThan(bo3.winProbability);
+            expect(bo3.winProbability + bo3.lossProbability).toBeCloseTo(1, 10);
+        });
+
+        it('should ignore draws when computing decisive game probability', () => {
+            const a: Player = { rating: 1500, rd: 50 };
+            const series = glicko.predictSeries(a, a, 5, { drawRate: 0.4 });
+            expect(series.gameWinProbability).toBeCloseTo(0.5, 10);
+            expect(series.winProbability).toBeCloseTo(0.5, 10);
+        });
+
+        it('should reject an even or non-positive bestOf', () => {
+            const a: Player = { rating: 1500, rd: 50 };
+            expect(() => glicko.predictSeries(a, a, 4)).toThrow("bestOf must be a positive odd integer.");
+            expect(() => glicko.predictSeries(a, a, 0)).toThrow("bestOf must be a positive odd integer.");
+        });
+    });
+
     describe('sumMatchVarianceFactors', () => {
         let glicko: Glicko;
         const playerRating = 1500;
@@ -251,7 +716,7 @@ describe('Glicko Class', () => {
                 .toThrow("Player RD must be positive for calculations.");
         });
 
-        it('should skip matches with non-positive opponent RD and issue a warning', () => {
+        it('should skip matches with non-positive opponent RD without logging', () => {
             const matches: Match[] = [
                 { player: { rating: playerRating, rd: playerRd }, opponent: opponent1, score: 1, datePlayed: new Date() },
                 { player: { rating: playerRating, rd: playerRd }, opponent: opponentInvalidRd, score: 0, datePlayed: new Date() },
@@ -266,8 +731,7 @@ describe('Glicko Class', () => {
 
             const result = glicko['sumMatchVarianceFactors'](playerRating, playerRd, matches);
 
-            expect(consoleWarnSpy).toHaveBeenCalledTimes(1);
-            expect(consoleWarnSpy).toHaveBeenCalledWith(`Skipping match in variance factor sum due to non-positive opponent RD: ${opponentInvalidRd.rd}`);
+            expect(consoleWarnSpy).not.toHaveBeenCalled();
             expect(result).toBeCloseTo(expectedSum, 8);
 
             consoleWarnSpy.mockRestore();
@@ -317,7 +781,7 @@ describe('Glicko Class', () => {
             expect(result).toBeCloseTo(expectedSum, 8);
         });
 
-        it('should skip matches with non-positive opponent RD and issue a warning (lines 169-172)', () => {
+        it('should skip matches with non-positive opponent RD without logging', () => {
             const matches: Match[] = [
                 { player: { rating: playerRating, rd: playerRd }, opponent: opponent1, score: 1, datePlayed: new Date() },
                 { player: { rating: playerRating, rd: playerRd }, opponent: opponentInvalidRd, score: 0.5, datePlayed: new Date() },
@@ -332,8 +796,7 @@ describe('Glicko Class', () => {
 
             const result = glicko['sumWeightedScorePerformance'](playerRating, playerRd, matches);
 
-            expect(consoleWarnSpy).toHaveBeenCalledTimes(1);
-            expect(consoleWarnSpy).toHaveBeenCalledWith(`Skipping match in weighted score sum due to non-positive opponent RD: ${opponentInvalidRd.rd}`);
+            expect(consoleWarnSpy).not.toHaveBeenCalled();
             expect(result).toBeCloseTo(expectedSum, 8);
 
             consoleWarnSpy.mockRestore();
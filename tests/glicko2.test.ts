@@ -0,0 +1,212 @@
+import { Glicko2 } from '../src/glicko2';
+import { InvalidConfigError, InvalidScoreError } from '../src/errors';
+import { Glicko } from '../src/glicko';
+import { createRatingEngine } from '../src/rating-engine';
+import { Player } from '../src/interfaces/player';
+import { Match } from '../src/interfaces/match';
+
+describe('Glicko2 Class', () => {
+    let glicko2: Glicko2;
+
+    beforeEach(() => {
+        glicko2 = new Glicko2({ tau: 0.5 });
+    });
+
+    describe('constructor', () => {
+        it('should initialize with default configuration', () => {
+            const defaults = new Glicko2();
+            expect(defaults['config'].initialRating).toBe(1500);
+            expect(defaults['config'].initialRD).toBe(350);
+            expect(defaults['config'].initialVolatility).toBe(0.06);
+            expect(defaults['config'].tau).toBe(0.5);
+            expect(defaults['config'].convergenceTolerance).toBe(0.000001);
+            expect(defaults['config'].rdCeiling).toBe(350);
+            expect(defaults['config'].daysPerRatingPeriod).toBe(30);
+            expect(defaults['config'].roundingPrecision).toBe(2);
+        });
+
+        it('should throw an error if tau is not positive', () => {
+            expect(() => new Glicko2({ tau: 0 })).toThrowError("tau must be positive.");
+        });
+
+        it('should throw an error if initialVolatility is not positive', () => {
+            expect(() => new Glicko2({ initialVolatility: -0.1 })).toThrowError("initialVolatility must be positive.");
+        });
+
+        it('should throw an error if convergenceTolerance is not positive', () => {
+            expect(() => new Glicko2({ convergenceTolerance: 0 })).toThrowError("convergenceTolerance must be positive.");
+        });
+
+        it('should throw an error if roundingPrecision is not an integer', () => {
+            expect(() => new Glicko2({ roundingPrecision: 1.5 })).toThrowError("roundingPrecision must be a non-negative integer.");
+        });
+    });
+
+    describe('initializeNewPlayer', () => {
+        it('should return a new player with initial rating, RD and volatility', () => {
+            const player = glicko2.initializeNewPlayer();
+            expect(player.rating).toBe(1500);
+            expect(player.rd).toBe(350);
+            expect(player.volatility).toBe(0.06);
+            expect(player.lastPlayedMatch).toBeUndefined();
+        });
+    });
+
+    describe('scale conversion', () => {
+        it('should convert to the Glicko-2 scale', () => {
+            const scaled = glicko2.toGlicko2Scale({ rating: 1400, rd: 30, volatility: 0.05 });
+            expect(scaled.mu).toBeCloseTo(-0.5756, 4);
+            expect(scaled.phi).toBeCloseTo(0.1727, 4);
+            expect(scaled.sigma).toBe(0.05);
+        });
+
+        it('should round-trip between scales', () => {
+            const scaled = glicko2.toGlicko2Scale({ rating: 1723.4, rd: 87.1 });
+            const back = glicko2.fromGlicko2Scale(scaled);
+            expect(back.rating).toBeCloseTo(1723.4, 8);
+            expect(back.rd).toBeCloseTo(87.1, 8);
+            expect(back.volatility).toBe(0.06);
+        });
+    });
+
+    describe('updateRDForInactivity', () => {
+        it('should throw an error if daysSinceLastActive is negative', () => {
+            const player: Player = { rating: 1500, rd: 100, volatility: 0.06, lastPlayedMatch: new Date() };
+            expect(() => glicko2.updateRDForInactivity(player, -1)).toThrowError("Days since last active cannot be negative.");
+        });
+
+        it('should grow RD by volatility for each idle period', () => {
+            const player: Player = { rating: 1500, rd: 50, volatility: 0.06, lastPlayedMatch: new Date() };
+            const phi = 50 / 173.7178;
+            const expectedRd = Math.sqrt(phi * phi + 2 * 0.06 * 0.06) * 173.7178;
+            expect(glicko2.updateRDForInactivity(player, 60).rd).toBeCloseTo(expectedRd, 2);
+        });
+
+        it('should not exceed rdCeiling', () => {
+            const player: Player = { rating: 1500, rd: 340, volatility: 0.5, lastPlayedMatch: new Date() };
+            expect(glicko2.updateRDForInactivity(player, 3650).rd).toBe(350);
+        });
+    });
+
+    describe('processGameResults', () => {
+        it("should reproduce the worked example from Glickman's Glicko-2 paper", () => {
+            const player: Player = { rating: 1500, rd: 200, volatility: 0.06 };
+            const matches: Match[] = [
+                { player, opponent: { rating: 1400, rd: 30 }, score: 1, datePlayed: new Date() },
+                { player, opponent: { rating: 1550, rd: 100 }, score: 0, datePlayed: new Date() },
+                { player, opponent: { rating: 1700, rd: 300 }, score: 0, datePlayed: new Date() },
+            ];
+
+            const updated = glicko2.processGameResults(player, matches);
+            expect(updated.rating).toBeCloseTo(1464.05, 2);
+            expect(updated.rd).toBeCloseTo(151.52, 2);
+            expect(updated.volatility).toBeCloseTo(0.059996, 6);
+            expect(updated.lastPlayedMatch).toBeInstanceOf(Date);
+        });
+
+        it('should apply inactivity beyond the one period the update already adds', () => {
+            const lastPlayedMatch = new Date('2025-01-01T00:00:00Z');
+            const player: Player = { rating: 1500, rd: 200, volatility: 0.06, lastPlayedMatch };
+            const matches: Match[] = [{ player, opponent: { rating: 1400, rd: 30 }, score: 1, datePlayed: new Date('2025-01-31T00:00:00Z') }];
+
+            expect(glicko2.processGameResults(player, matches, 30)).toEqual(glicko2.processGameResults(player, matches, 0));
+            expect(glicko2.processGameResults(player, matches)).toEqual(glicko2.processGameResults(player, matches, 0));
+            expect(glicko2.processGameResults(player, matches, 90))
+                .toEqual(glicko2.processGameResults(glicko2.updateRDForInactivity(player, 60), matches, 0));
+        });
+
+        it('should raise volatility after a large upset', () => {
+            const player: Player = { rating: 1500, rd: 50, volatility: 0.06 };
+            const matches: Match[] = [
+                { player, opponent: { rating: 2300, rd: 50 }, score: 1, datePlayed: new Date() },
+                { player, opponent: { rating: 2300, rd: 50 }, score: 1, datePlayed: new Date() },
+            ];
+            const updated = glicko2.processGameResults(player, matches);
+            expect(updated.volatility).toBeGreaterThan(0.06);
+            expect(updated.rating).toBeGreaterThan(1500);
+        });
+
+        it('should default a missing volatility to initialVolatility', () => {
+            const player: Player = { rating: 1500, rd: 200 };
+            const updated = glicko2.processGameResults(player, []);
+            expect(updated.volatility).toBe(0.06);
+        });
+
+        it('should return the player after only inactivity when no matches are provided', () => {
+            const player: Player = { rating: 1600, rd: 150, volatility: 0.06, lastPlayedMatch: new Date() };
+            const expected = glicko2.updateRDForInactivity(player, 30);
+            const updated = glicko2.processGameResults(player, [], 30);
+            expect(updated.rating).toBe(1600);
+            expect(updated.rd).toBe(expected.rd);
+            expect(updated.lastPlayedMatch).toEqual(player.lastPlayedMatch);
+        });
+
+        it('should skip matches against opponents with non-positive RD', () => {
+            const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+            const player: Player = { rating: 1500, rd: 200, volatility: 0.06 };
+            const updated = glicko2.processGameResults(player, [
+                { player, opponent: { rating: 1500, rd: 0 }, score: 1, datePlayed: new Date() },
+            ]);
+            expect(consoleWarnSpy).not.toHaveBeenCalled();
+            expect(updated.rating).toBe(1500);
+            expect(updated.rd).toBe(200);
+            consoleWarnSpy.mockRestore();
+        });
+
+        it('should report skipped matches, or throw in strict mode', () => {
+            const player: Player = { rating: 1500, rd: 200, volatility: 0.06 };
+            const matches = [{ player, opponent: { rating: 1500, rd: 80 }, score: 3, datePlayed: new Date() }];
+            const { warnings } = glicko2.processGameResultsWithWarnings(player, matches);
+            expect(warnings).toEqual([expect.objectContaining({ code: 'INVALID_SCORE', matchIndex: 0 })]);
+            expect(() => new Glicko2({ validationMode: 'strict' }).processGameResults(player, matches)).toThrow(InvalidScoreError);
+        });
+
+        it('should carry full-precision state between periods', () => {
+            const engine = new Glicko2({ roundingPrecision: 0 });
+            const player: Player = { rating: 1500, rd: 200, volatility: 0.06 };
+            const matches = (p: Player) => [{ player: p, opponent: { rating: 1400, rd: 30 }, score: 1, datePlayed: new Date('2025-01-10') }];
+            const first = engine.processGameResults(player, matches(player), 0);
+            expect(first.rating).toBe(Math.round(first.precise!.rating));
+
+            const second = engine.processGameResults(first, matches(first), 0);
+            const fromPrecise = engine.processGameResults({ ...first, ...first.precise }, matches(first), 0);
+            expect(second.precise).toEqual(fromPrecise.precise);
+        });
+
+        it('should apply the first-move advantage on the Glicko-2 scale', () => {
+            const player: Player = { rating: 1500, rd: 200, volatility: 0.06 };
+            const opponent: Player = { rating: 1500, rd: 80 };
+            const datePlayed = new Date('2025-01-10');
+            const engine = new Glicko2({ firstMoveAdvantage: 40 });
+            const first = engine.processGameResults(player, [{ player, opponent, score: 0.5, datePlayed, side: 'first' }], 0);
+            const weaker = engine.processGameResults(player, [{ player, opponent: { rating: 1460, rd: 80 }, score: 0.5, datePlayed }], 0);
+            expect(first.rating).toBeLessThan(1500);
+            expect(first.precise?.rating).toBeCloseTo(weaker.precise?.rating as number, 6);
+            expect(() => new Glicko2({ firstMoveAdvantage: Infinity })).toThrow(InvalidConfigError);
+        });
+
+        it('should apply the same rating safeguards as Glicko-1', () => {
+            const player: Player = { rating: 1500, rd: 350, volatility: 0.06 };
+            const matches = Array.from({ length: 5 }, () => ({ player, opponent: { rating: 2100, rd: 50 }, score: 1, datePlayed: new Date('2025-01-10') }));
+            const result = new Glicko2({ maxRatingChangePerPeriod: 150, peakFloorOffset: 50 }).processGameResultsWithWarnings(player, matches, 0);
+            expect(result.player.rating).toBe(1650);
+            expect(result.player.peakRating).toBe(1650);
+            expect(result.safeguards.map(s => s.safeguard)).toEqual(['maxRatingChange']);
+            expect(() => new Glicko2({ minRD: -1 })).toThrow(InvalidConfigError);
+        });
+    });
+
+    describe('createRatingEngine', () => {
+        it('should create a Glicko-1 engine by default', () => {
+            expect(createRatingEngine()).toBeInstanceOf(Glicko);
+            expect(createRatingEngine({ roundingPrecision: 0 })).toBeInstanceOf(Glicko);
+            expect(createRatingEngine({ engine: 'glicko1', roundingPrecision: 0 }).getConfig()).not.toHaveProperty('engine');
+        });
+
+        it('should create a Glicko-2 engine with its configuration', () => {
+            const engine = createRatingEngine({ engine: 'glicko2', tau: 0.3 });
+            expect(engine).toBeInstanceOf(Glicko2);
+            expect((engine as Glicko2)['config'].tau).toBe(0.3);
+        });
+    });
+});
@@ -0,0 +1,34 @@
+import { GameResult } from '../../src/interfaces/game-result';
+
+const DAY = 24 * 60 * 60 * 1000;
+const origin = new Date('2024-01-01T00:00:00Z');
+
+/**
+ * Generates games between players of fixed true strength, using a small LCG so the data is reproducible.
+ * With a `firstMoveAdvantage`, `playerId` moves first and plays that many points above their strength.
+ */
+export function syntheticGames(periods: number, gamesPerPeriod: number, options?: { firstMoveAdvantage?: number }): GameResult[] {
+    let seed = 12345;
+    const random = () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+    };
+    const strengths = [1200, 1350, 1450, 1500, 1550, 1650, 1800, 1900];
+    const games: GameResult[] = [];
+    for (let period = 0; period < periods; period++) {
+        for (let i = 0; i < gamesPerPeriod; i++) {
+            const a = Math.floor(random() * strengths.length);
+            const b = (a + 1 + Math.floor(random() * (strengths.length - 1))) % strengths.length;
+            const advantage = options?.firstMoveAdvantage ?? 0;
+            const expected = 1 / (1 + Math.pow(10, (strengths[b] - strengths[a] - advantage) / 400));
+            games.push({
+                playerId: `p${a}`,
+                opponentId: `p${b}`,
+                score: random() < expected ? 1 : 0,
+                datePlayed: new Date(origin.getTime() + (period * 30 + random() * 29) * DAY),
+                ...(options?.firstMoveAdvantage !== undefined && { side: 'first' as const }),
+            });
+        }
+    }
+    return games;
+}
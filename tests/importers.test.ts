@@ -0,0 +1,113 @@
+import { PgnImporter } from '../src/importers/pgn-importer';
+import { CsvImporter } from '../src/importers/csv-importer';
+import { RatingPeriodProcessor } from '../src/rating-period';
+import { ImportParseError, InvalidConfigError } from '../src/errors';
+
+describe('PgnImporter Class', () => {
+    const pgn = [
+        '[Event "Club Championship"]',
+        '[Date "2025.03.14"]',
+        '[White "Carlsen, Magnus"]',
+        '[Black "Nakamura, Hikaru"]',
+        '[Result "1-0"]',
+        '',
+        '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 {Ruy Lopez} 1-0',
+        '',
+        '[Date "2025.03.??"]',
+        '[White "Nakamura, Hikaru"]',
+        '[Black "Caruana, Fabiano"]',
+        '[Result "1/2-1/2"]',
+        '',
+        '1. d4 d5 1/2-1/2',
+        '',
+        '[Date "2025.03.15"]',
+        '[White "Caruana, Fabiano"]',
+        '[Black "Carlsen, Magnus"]',
+        '[Result "*"]',
+        '',
+        '1. c4 *',
+    ].join('\n');
+
+    it('should read players, results and dates of every finished game', () => {
+        const games = new PgnImporter().parse(pgn);
+        expect(games).toEqual([
+            { playerId: 'Carlsen, Magnus', opponentId: 'Nakamura, Hikaru', score: 1, datePlayed: new Date('2025-03-14T00:00:00Z'), side: 'first' },
+            { playerId: 'Nakamura, Hikaru', opponentId: 'Caruana, Fabiano', score: 0.5, datePlayed: new Date('2025-03-01T00:00:00Z'), side: 'first' },
+        ]);
+    });
+
+    it('should feed rating period processing directly', () => {
+        const ratings = new RatingPeriodProcessor().process({}, new PgnImporter().parse(pgn));
+        expect(Object.keys(ratings).sort()).toEqual(['Carlsen, Magnus', 'Caruana, Fabiano', 'Nakamura, Hikaru']);
+        expect(ratings['Carlsen, Magnus'].rating).toBeGreaterThan(1500);
+    });
+
+    it('should apply player id mapping and the default date', () => {
+        const text = '[White "Alice"]\r\n[Black "Bob"]\r\n[Result "0-1"]\r\n\r\n0-1\r\n';
+        const games = new PgnImporter({ defaultDate: new Date('2025-01-01T00:00:00Z'), playerId: name => name.toLowerCase() }).parse(text);
+        expect(games).toEqual([{ playerId: 'alice', opponentId: 'bob', score: 0, datePlayed: new Date('2025-01-01T00:00:00Z'), side: 'first' }]);
+    });
+
+    it('should report the line of the offending game', () => {
+        const broken = pgn.replace('[Result "1/2-1/2"]', '[Result "2-0"]');
+        expect(() => new PgnImporter().parse(broken)).toThrow('Line 9: Unknown result "2-0".');
+        expect(() => new PgnImporter({ skipUnfinished: false }).parse(pgn)).toThrow('Line 16: Unknown result "*".');
+        expect(() => new PgnImporter().parse('[White "A"]\n[Black "B"]\n[Result "1-0"]\n')).toThrow(ImportParseError);
+        expect(() => new PgnImporter().parse('[White "A"]\n[Result "1-0"]\n[Date "2025.01.01"]')).toThrow('Line 1: Game is missing the [Black] tag.');
+        expect(() => new PgnImporter().parse('1. e4 e5')).toThrow('Line 1: Movetext found before any tag pair.');
+    });
+});
+
+describe('CsvImporter Class', () => {
+    it('should read games using the default columns and score encodings', () => {
+        const csv = 'date,player,opponent,score\n2025-01-05,alice,bob,W\n2025-01-06,bob,carol,1/2-1/2\n\n2025-01-07,carol,alice,0.25\n';
+        expect(new CsvImporter().parse(csv)).toEqual([
+            { playerId: 'alice', opponentId: 'bob', score: 1, datePlayed: new Date('2025-01-05') },
+            { playerId: 'bob', opponentId: 'carol', score: 0.5, datePlayed: new Date('2025-01-06') },
+            { playerId: 'carol', opponentId: 'alice', score: 0.25, datePlayed: new Date('2025-01-07') },
+        ]);
+    });
+
+    it('should support column mapping, delimiters, date patterns, quoting and custom encodings', () => {
+        const csv = 'Home;Away;Outcome;Played\r\n"Smith; Jr.";"O""Brien";home;31/12/2024\r\n';
+        const importer = new CsvImporter({
+            columns: { player: 'Home', opponent: 'Away', score: 'Outcome', date: 'Played' },
+            delimiter: ';',
+            dateFormat: 'DD/MM/YYYY',
+            scoreEncoding: { home: 1, away: 0 },
+        });
+        expect(importer.parse(csv)).toEqual([
+            { playerId: 'Smith; Jr.', opponentId: 'O"Brien', score: 1, datePlayed: new Date('2024-12-31T00:00:00Z') },
+        ]);
+    });
+
+    it('should read headerless files by column index', () => {
+        const importer = new CsvImporter({ hasHeader: false, columns: { player: 1, opponent: 2, score: 3, date: 0 }, dateFormat: 'MM/DD/YYYY' });
+        expect(importer.parse('03/04/2025,a,b,loss')).toEqual([{ playerId: 'a', opponentId: 'b', score: 0, datePlayed: new Date('2025-03-04T00:00:00Z') }]);
+    });
+
+    it('should count lines inside quoted line breaks when reporting errors', () => {
+        const csv = 'player,opponent,score,date\n"multi\nline",bob,1,2025-01-01\nalice,bob,X,2025-01-02\n';
+        expect(() => new CsvImporter().parse(csv)).toThrow('Line 4: Unknown score "X".');
+    });
+
+    it('should throw line-numbered parse errors', () => {
+        const importer = new CsvImporter({ dateFormat: 'YYYY.MM.DD' });
+        expect(() => importer.parse('player,opponent,score,date\na,b,1,2025.02.30')).toThrow('Line 2: Unreadable date "2025.02.30" (expected YYYY.MM.DD).');
+        expect(() => importer.parse('player,opponent,score,date\na,,1,2025.02.01')).toThrow('Line 2: Missing value for "opponent".');
+        expect(() => importer.parse('player,opponent,result,date\n')).toThrow('Line 1: Header has no column "score".');
+        expect(() => importer.parse('player,opponent,score,date\n"a,b,1,2025.01.01')).toThrow('Line 2: Unterminated quoted field.');
+        try {
+            importer.parse('player,opponent,score,date\na,b,1.5,2025.01.01');
+        } catch (error) {
+            expect(error).toMatchObject({ line: 2, field: 'score', value: '1.5', code: 'PARSE_ERROR' });
+        }
+    });
+
+    it('should validate its options', () => {
+        expect(() => new CsvImporter({ delimiter: ';;' })).toThrow(InvalidConfigError);
+        expect(() => new CsvImporter({ dateFormat: 'DD/MM' })).toThrow("dateFormat must be 'iso' or contain YYYY, MM and DD exactly once.");
+        expect(() => new CsvImporter({ hasHeader: false })).toThrow("Columns must be given as indices when the CSV has no header.");
+        expect(() => new CsvImporter({ scoreEncoding: { big: 2 } })).toThrow('Score for "big" must be between 0 and 1.');
+    });
+});
@@ -0,0 +1,89 @@
+import { Leaderboard } from '../src/leaderboard';
+import { Glicko } from '../src/glicko';
+import { Player } from '../src/interfaces/player';
+import { FixedClock } from '../src/utils/clock';
+import { GlickoValidationError, InvalidConfigError } from '../src/errors';
+
+describe('Leaderboard Class', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const asOf = new Date('2025-06-01T00:00:00Z');
+    const daysAgo = (days: number) => new Date(asOf.getTime() - days * DAY);
+
+    let glicko: Glicko;
+
+    beforeEach(() => {
+        glicko = new Glicko({ inactivityConstant: 30, clock: new FixedClock(asOf) });
+    });
+
+    const players: Player[] = [
+        { id: 'newcomer', rating: 1700, rd: 340, lastPlayedMatch: daysAgo(1) },
+        { id: 'veteran', rating: 1650, rd: 50, lastPlayedMatch: daysAgo(1) },
+        { id: 'regular', rating: 1600, rd: 60, lastPlayedMatch: daysAgo(1) },
+        { id: 'absent', rating: 1660, rd: 50, lastPlayedMatch: daysAgo(400) },
+    ];
+
+    it('should rank by conservative rating so high-RD players do not top the table', () => {
+        const page = new Leaderboard(glicko).build(players, { asOf });
+        expect(page.entries[0].player.id).toBe('veteran');
+        expect(page.entries.map(e => e.player.id)).toEqual(['veteran', 'regular', 'absent', 'newcomer']);
+        expect(page.entries[page.entries.length - 1].provisional).toBe(true);
+        expect(page.total).toBe(4);
+    });
+
+    it('should apply inactivity RD growth as of the given date before ranking', () => {
+        const page = new Leaderboard(glicko).build(players, { asOf });
+        const absent = page.entries.find(e => e.player.id === 'absent');
+        const expected = glicko.updateRDForInactivity(players[3], 400);
+        expect(absent?.player.rd).toBe(expected.rd);
+        expect(absent?.player.rd).toBeGreaterThan(50);
+        expect(absent?.daysInactive).toBeCloseTo(400, 6);
+        expect(absent?.conservativeRating).toBeCloseTo(1660 - 2 * expected.rd, 2);
+    });
+
+    it('should default the as-of date to the engine clock', () => {
+        const page = new Leaderboard(glicko).build(players);
+        expect(page.asOf).toEqual(asOf);
+    });
+
+    it('should use the configured conservative factor', () => {
+        const page = new Leaderboard(glicko, { conservativeFactor: 0 }).build(players, { asOf });
+        expect(page.entries[0].player.id).toBe('newcomer');
+        expect(page.entries[0].conservativeRating).toBe(1700);
+    });
+
+    it('should exclude provisional and inactive players when configured', () => {
+        const leaderboard = new Leaderboard(glicko, { includeProvisional: false, inactiveAfterDays: 90, excludeInactive: true });
+        const page = leaderboard.build(players, { asOf });
+        expect(page.entries.map(e => e.player.id)).toEqual(['veteran', 'regular']);
+
+        const flagged = new Leaderboard(glicko, { inactiveAfterDays: 90 }).build(players, { asOf });
+        expect(flagged.entries.find(e => e.player.id === 'absent')?.inactive).toBe(true);
+        expect(flagged.entries.find(e => e.player.id === 'veteran')?.inactive).toBe(false);
+    });
+
+    it('should give tied players the same rank and skip the next rank', () => {
+        const tied: Player[] = [
+            { id: 'a', rating: 1600, rd: 50, lastPlayedMatch: asOf },
+            { id: 'b', rating: 1700, rd: 100, lastPlayedMatch: asOf },
+            { id: 'c', rating: 1400, rd: 50, lastPlayedMatch: asOf },
+        ];
+        const page = new Leaderboard(glicko).build(tied, { asOf });
+        expect(page.entries.map(e => [e.player.id, e.rank])).toEqual([['b', 1], ['a', 1], ['c', 3]]);
+    });
+
+    it('should paginate ranked entries', () => {
+        const page = new Leaderboard(glicko).build(players, { asOf, offset: 1, limit: 2 });
+        expect(page.total).toBe(4);
+        expect(page.offset).toBe(1);
+        expect(page.entries.map(e => e.rank)).toEqual([2, 3]);
+    });
+
+    it('should reject invalid options and queries', () => {
+        expect(() => new Leaderboard(glicko, { conservativeFactor: -1 })).toThrow("conservativeFactor must be non-negative.");
+        expect(() => new Leaderboard(glicko, { excludeInactive: true })).toThrow("excludeInactive requires inactiveAfterDays.");
+        expect(() => new Leaderboard(glicko, { inactiveAfterDays: -1 })).toThrow(InvalidConfigError);
+        expect(() => new Leaderboard(glicko).build(players, { offset: -1 })).toThrow("offset must be a non-negative integer.");
+        expect(() => new Leaderboard(glicko).build(players, { limit: 1.5 })).toThrow("limit must be a non-negative integer.");
+        expect(() => new Leaderboard(glicko).build(players, { limit: -1 })).toThrow(GlickoValidationError);
+    });
+});
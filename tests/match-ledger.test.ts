@@ -0,0 +1,147 @@
+import { MatchLedger } from '../src/match-ledger';
+import { RatingPeriodProcessor } from '../src/rating-period';
+import { Glicko } from '../src/glicko';
+import { Player } from '../src/interfaces/player';
+import { MatchRecord } from '../src/interfaces/match-record';
+import { GlickoValidationError } from '../src/errors';
+
+describe('MatchLedger Class', () => {
+    const playedAt = new Date('2025-01-15T00:00:00Z');
+    const initialPlayers: Record<string, Player> = {
+        a: { id: 'a', rating: 1500, rd: 200 },
+        b: { id: 'b', rating: 1400, rd: 30 },
+        c: { id: 'c', rating: 1550, rd: 100 },
+    };
+    const matches: MatchRecord[] = [
+        { id: 'm1', period: 0, playerId: 'a', opponentId: 'b', score: 1, datePlayed: playedAt },
+        { id: 'm2', period: 0, playerId: 'a', opponentId: 'c', score: 0, datePlayed: playedAt },
+        { id: 'm3', period: 1, playerId: 'b', opponentId: 'c', score: 0.5, datePlayed: playedAt },
+        { id: 'm4', period: 2, playerId: 'c', opponentId: 'a', score: 1, datePlayed: playedAt },
+    ];
+
+    const ratingsOnly = (players: Record<string, Player>) =>
+        Object.fromEntries(Object.entries(players).map(([id, p]) => [id, { rating: p.rating, rd: p.rd }]));
+
+    let ledger: MatchLedger;
+
+    beforeEach(() => {
+        ledger = new MatchLedger({ initialPlayers });
+        matches.forEach(match => ledger.record(match));
+    });
+
+    it('should rate periods incrementally with the rating period processor', () => {
+        const processor = new RatingPeriodProcessor();
+        const expected = processor.process(initialPlayers, [
+            { playerId: 'a', opponentId: 'b', score: 1, datePlayed: playedAt },
+            { playerId: 'a', opponentId: 'c', score: 0, datePlayed: playedAt },
+        ]);
+        expect(ratingsOnly(ledger.closePeriod())).toEqual(ratingsOnly(expected));
+        expect(ledger.getClosedPeriodCount()).toBe(1);
+    });
+
+    it('should rate with the side and weight of each recorded match', () => {
+        const processor = new RatingPeriodProcessor(new Glicko({ firstMoveAdvantage: 50 }));
+        const sided = new MatchLedger({ processor, initialPlayers });
+        sided.record({ id: 's1', period: 0, playerId: 'a', opponentId: 'b', score: 1, datePlayed: playedAt, side: 'first', weight: 0.5 });
+        sided.record({ id: 's2', period: 0, playerId: 'c', opponentId: 'a', score: 0.5, datePlayed: playedAt, side: 'first' });
+
+        const expected = processor.process(initialPlayers, [
+            { playerId: 'a', opponentId: 'b', score: 1, datePlayed: playedAt, side: 'first', weight: 0.5 },
+            { playerId: 'c', opponentId: 'a', score: 0.5, datePlayed: playedAt, side: 'first' },
+        ]);
+        const unsided = processor.process(initialPlayers, [
+            { playerId: 'a', opponentId: 'b', score: 1, datePlayed: playedAt },
+            { playerId: 'c', opponentId: 'a', score: 0.5, datePlayed: playedAt },
+        ]);
+        const rated = sided.closePeriod();
+        expect(rated).toEqual(expected);
+        expect(rated.a.rating).not.toBe(unsided.a.rating);
+        expect(sided.replay()).toEqual(expected);
+    });
+
+    it('should produce identical ratings when replaying from scratch', () => {
+        ledger.closePeriod();
+        ledger.closePeriod({ elapsedDays: 60 });
+        const incremental = ledger.closePeriod();
+
+        expect(ratingsOnly(ledger.replay())).toEqual(ratingsOnly(incremental));
+        expect(ledger.replay()).toEqual(incremental);
+
+        const rebuilt = MatchLedger.fromEvents(ledger.getEvents(), { initialPlayers });
+        expect(ratingsOnly(rebuilt.getRatings())).toEqual(ratingsOnly(incremental));
+        expect(ratingsOnly(rebuilt.getRatings(0))).toEqual(ratingsOnly(ledger.getRatings(0)));
+    });
+
+    it('should rate replays as of the date each period was closed', () => {
+        let now = new Date('2025-01-10T00:00:00Z');
+        const clocked = new MatchLedger({ processor: new RatingPeriodProcessor(new Glicko({ clock: { now: () => now } })) });
+        clocked.record({ id: 'f1', period: 0, playerId: 'a', opponentId: 'b', score: 1, datePlayed: new Date('2025-01-20T00:00:00Z') });
+
+        const closed = clocked.closePeriod();
+        expect(closed.a).toMatchObject({ rating: 1500, rd: 350 });
+
+        now = new Date('2025-02-01T00:00:00Z');
+        expect(clocked.replay()).toEqual(closed);
+        expect(MatchLedger.fromEvents(clocked.getEvents(), { processor: new RatingPeriodProcessor(new Glicko({ clock: { now: () => now } })) }).getRatings()).toEqual(closed);
+    });
+
+    it('should re-rate from the edited period after an amendment', () => {
+        ledger.closePeriod();
+        ledger.closePeriod();
+        ledger.closePeriod();
+        const afterFirst = ledger.getRatings(0);
+
+        ledger.amend('m3', { score: 1 });
+        expect(ledger.getStalePeriod()).toBe(1);
+
+        const rerated = ledger.rerateFrom();
+        expect(ledger.getStalePeriod()).toBeUndefined();
+        expect(ratingsOnly(ledger.getRatings(0))).toEqual(ratingsOnly(afterFirst));
+
+        const fresh = new MatchLedger({ initialPlayers });
+        matches.forEach(match => fresh.record(match.id === 'm3' ? { ...match, score: 1 } : match));
+        fresh.closePeriod();
+        fresh.closePeriod();
+        expect(ratingsOnly(rerated)).toEqual(ratingsOnly(fresh.closePeriod()));
+    });
+
+    it('should re-rate after a deletion and keep the deletion in the event log', () => {
+        ledger.closePeriod();
+        ledger.remove('m1');
+        expect(ledger.getStalePeriod()).toBe(0);
+        const rerated = ledger.rerateFrom(0);
+
+        expect(ledger.getMatches(0).map(m => m.id)).toEqual(['m2']);
+        expect(ledger.getEvents().map(e => e.type)).toContain('matchRemoved');
+        expect(rerated.b.rating).toBe(initialPlayers.b.rating);
+    });
+
+    it('should roll back the last period and re-close it with the same result', () => {
+        ledger.closePeriod();
+        const afterSecond = ledger.closePeriod();
+
+        const rolledBack = ledger.rollbackLastPeriod();
+        expect(ledger.getClosedPeriodCount()).toBe(1);
+        expect(rolledBack).toEqual(ledger.getRatings(0));
+        expect(() => ledger.getRatings(1)).toThrow("Period 1 has not been closed.");
+
+        expect(ratingsOnly(ledger.closePeriod())).toEqual(ratingsOnly(afterSecond));
+    });
+
+    it('should reject duplicate ids, unknown ids and invalid periods', () => {
+        expect(() => ledger.record(matches[0])).toThrow("Match m1 is already recorded.");
+        expect(() => ledger.amend('missing', { score: 0 })).toThrow("Match missing is not recorded.");
+        expect(() => ledger.remove('missing')).toThrow("Match missing is not recorded.");
+        expect(() => ledger.record({ ...matches[0], id: 'x', period: -1 })).toThrow("Match period must be a non-negative integer.");
+        expect(() => ledger.rollbackLastPeriod()).toThrow("No closed period to roll back.");
+        expect(() => ledger.rollbackLastPeriod()).toThrow(GlickoValidationError);
+        ledger.closePeriod();
+        expect(() => ledger.rerateFrom(3)).toThrow("Period 3 is not a closed period.");
+    });
+
+    it('should not record events that fail to apply', () => {
+        const eventCount = ledger.getEvents().length;
+        expect(() => ledger.record(matches[0])).toThrow();
+        expect(ledger.getEvents()).toHaveLength(eventCount);
+    });
+});
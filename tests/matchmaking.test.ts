@@ -0,0 +1,125 @@
+import { Matchmaker } from '../src/matchmaking';
+import { Glicko } from '../src/glicko';
+import { Player } from '../src/interfaces/player';
+import { Match } from '../src/interfaces/match';
+import { GlickoValidationError, InvalidConfigError } from '../src/errors';
+
+describe('Matchmaker Class', () => {
+    let glicko: Glicko;
+    let matchmaker: Matchmaker;
+
+    beforeEach(() => {
+        glicko = new Glicko();
+        matchmaker = new Matchmaker(glicko);
+    });
+
+    describe('constructor', () => {
+        it('should reject invalid weights and search limits', () => {
+            expect(() => new Matchmaker(glicko, { closenessWeight: -1 })).toThrow("Matchmaking weights must be non-negative.");
+            expect(() => new Matchmaker(glicko, { closenessWeight: 0, informationWeight: 0 })).toThrow("At least one matchmaking weight must be positive.");
+            expect(() => new Matchmaker(glicko, { exactSearchLimit: 30 })).toThrow("exactSearchLimit must be an integer between 0 and 20.");
+            expect(() => new Matchmaker(glicko, { informationWeight: -1 })).toThrow(InvalidConfigError);
+        });
+    });
+
+    describe('projectRD', () => {
+        it('should match the RD produced by processGameResults regardless of score', () => {
+            const player: Player = { rating: 1500, rd: 200 };
+            const opponent: Player = { rating: 1400, rd: 30 };
+            const matches: Match[] = [{ player, opponent, score: 1, datePlayed: new Date() }];
+            const processed = glicko.processGameResults(player, matches, 0);
+            expect(glicko.projectRD(player, [opponent])).toBeCloseTo(processed.rd, 2);
+        });
+    });
+
+    describe('scorePairing', () => {
+        it('should rate evenly matched players as close', () => {
+            const score = matchmaker.scorePairing({ rating: 1500, rd: 100 }, { rating: 1500, rd: 100 });
+            expect(score.expectedScore).toBeCloseTo(0.5, 10);
+            expect(score.closeness).toBeCloseTo(1, 10);
+        });
+
+        it('should report larger information gain for uncertain players', () => {
+            const settled = matchmaker.scorePairing({ rating: 1500, rd: 40 }, { rating: 1500, rd: 40 });
+            const fresh = matchmaker.scorePairing({ rating: 1500, rd: 350 }, { rating: 1500, rd: 350 });
+            expect(fresh.informationGain).toBeGreaterThan(settled.informationGain);
+            expect(fresh.quality).toBeGreaterThan(settled.quality);
+        });
+
+        it('should score lopsided games lower', () => {
+            const even = matchmaker.scorePairing({ rating: 1500, rd: 80 }, { rating: 1520, rd: 80 });
+            const lopsided = matchmaker.scorePairing({ rating: 1500, rd: 80 }, { rating: 2100, rd: 80 });
+            expect(lopsided.closeness).toBeLessThan(even.closeness);
+            expect(lopsided.quality).toBeLessThan(even.quality);
+        });
+    });
+
+    describe('findPairings', () => {
+        const pool: Player[] = [
+            { id: 'a', rating: 1500, rd: 60 },
+            { id: 'b', rating: 1510, rd: 60 },
+            { id: 'c', rating: 1900, rd: 60 },
+            { id: 'd', rating: 1890, rd: 60 },
+        ];
+
+        const pairIds = (result: ReturnType<Matchmaker['findPairings']>) =>
+            result.pairings.map(p => [p.player.id, p.opponent.id].sort().join('-')).sort();
+
+        it('should pair players of similar strength', () => {
+            expect(pairIds(matchmaker.findPairings(pool))).toEqual(['a-b', 'c-d']);
+        });
+
+        it('should avoid recent rematches', () => {
+            const result = matchmaker.findPairings(pool, { recentOpponents: { a: ['b'] } });
+            expect(pairIds(result)).not.toContain('a-b');
+            expect(result.pairings).toHaveLength(2);
+        });
+
+        it('should leave players unpaired when the rating gap is too large', () => {
+            const result = matchmaker.findPairings(pool, { maxRatingGap: 50, recentOpponents: { c: ['d'] } });
+            expect(pairIds(result)).toEqual(['a-b']);
+            expect(result.unpaired.map(p => p.id).sort()).toEqual(['c', 'd']);
+        });
+
+        it('should respect a minimum quality', () => {
+            const result = matchmaker.findPairings(pool, { minQuality: 1.1 });
+            expect(result.pairings).toHaveLength(0);
+            expect(result.unpaired).toHaveLength(4);
+        });
+
+        it('should leave one player unpaired in an odd pool', () => {
+            const result = matchmaker.findPairings(pool.slice(0, 3));
+            expect(result.pairings).toHaveLength(1);
+            expect(result.unpaired).toHaveLength(1);
+        });
+
+        it('should find the same total quality with greedy search on larger pools', () => {
+            const large: Player[] = Array.from({ length: 12 }, (_, i) => ({ id: `p${i}`, rating: 1400 + ((i * 37) % 11) * 40, rd: 50 + (i % 4) * 60 }));
+            const exact = new Matchmaker(glicko).findPairings(large);
+            const greedy = new Matchmaker(glicko, { exactSearchLimit: 0 }).findPairings(large);
+            const total = (result: typeof exact) => result.pairings.reduce((sum, p) => sum + p.score.quality, 0);
+            expect(greedy.pairings).toHaveLength(6);
+            expect(total(greedy)).toBeLessThanOrEqual(total(exact) + 1e-9);
+            expect(total(greedy)).toBeGreaterThan(total(exact) * 0.95);
+        });
+
+        it('should pair left-over players through an existing pair in larger pools', () => {
+            // a-b is the best pair, but c and d can only play a or b.
+            const constrained: Player[] = [
+                { id: 'a', rating: 1500, rd: 100 },
+                { id: 'b', rating: 1500, rd: 100 },
+                { id: 'c', rating: 1400, rd: 100 },
+                { id: 'd', rating: 1600, rd: 100 },
+            ];
+            const result = new Matchmaker(glicko, { exactSearchLimit: 0 }).findPairings(constrained, { maxRatingGap: 100 });
+            expect(result.pairings).toHaveLength(2);
+            expect(result.unpaired).toEqual([]);
+        });
+
+        it('should require unique ids', () => {
+            expect(() => matchmaker.findPairings([{ rating: 1500, rd: 50 }])).toThrow("Every player in the pool must have an id.");
+            expect(() => matchmaker.findPairings([pool[0], pool[0]])).toThrow("Player a appears more than once in the pool.");
+            expect(() => matchmaker.findPairings([pool[0], pool[0]])).toThrow(GlickoValidationError);
+        });
+    });
+});
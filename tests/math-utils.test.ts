@@ -0,0 +1,52 @@
+import { MathUtils } from '../src/utils/math-utils';
+import { GlickoValidationError } from '../src/errors';
+
+describe('MathUtils', () => {
+    describe('roundToDecimalPlaces', () => {
+        it('should round ties away from zero by default', () => {
+            expect(MathUtils.roundToDecimalPlaces(2.5, 0)).toBe(3);
+            expect(MathUtils.roundToDecimalPlaces(-2.5, 0)).toBe(-3);
+            expect(MathUtils.roundToDecimalPlaces(1234.5678, 2)).toBe(1234.57);
+            expect(MathUtils.roundToDecimalPlaces(1234.5648, 2, 'half-up')).toBe(1234.56);
+        });
+
+        it('should round decimal ties as written despite binary representation', () => {
+            expect(MathUtils.roundToDecimalPlaces(1.005, 2)).toBe(1.01);
+            expect(MathUtils.roundToDecimalPlaces(1.005, 2, 'half-even')).toBe(1);
+            expect(MathUtils.roundToDecimalPlaces(0.1 + 0.2, 1, 'truncate')).toBe(0.3);
+        });
+
+        it('should round ties to even in half-even mode', () => {
+            expect([0.5, 1.5, 2.5, 3.5, -2.5].map(n => MathUtils.roundToDecimalPlaces(n, 0, 'half-even'))).toEqual([0, 2, 2, 4, -2]);
+            expect(MathUtils.roundToDecimalPlaces(1500.125, 2, 'half-even')).toBe(1500.12);
+            expect(MathUtils.roundToDecimalPlaces(1500.135, 2, 'half-even')).toBe(1500.14);
+            expect(MathUtils.roundToDecimalPlaces(1500.1251, 2, 'half-even')).toBe(1500.13);
+        });
+
+        it('should drop extra digits in truncate mode', () => {
+            expect(MathUtils.roundToDecimalPlaces(2.599, 1, 'truncate')).toBe(2.5);
+            expect(MathUtils.roundToDecimalPlaces(-2.599, 1, 'truncate')).toBe(-2.5);
+            expect(MathUtils.roundToDecimalPlaces(-0.4, 0, 'truncate')).toBe(0);
+            expect(Object.is(MathUtils.roundToDecimalPlaces(-0.4, 0, 'truncate'), -0)).toBe(false);
+        });
+
+        it('should pass non-finite values through', () => {
+            expect(MathUtils.roundToDecimalPlaces(NaN, 2)).toBeNaN();
+            expect(MathUtils.roundToDecimalPlaces(Infinity, 2)).toBe(Infinity);
+        });
+    });
+
+    describe('normalQuantile', () => {
+        it('should invert the standard normal CDF', () => {
+            expect(MathUtils.normalQuantile(0.5)).toBeCloseTo(0, 9);
+            expect(MathUtils.normalQuantile(0.975)).toBeCloseTo(1.959964, 6);
+            expect(MathUtils.normalQuantile(0.01)).toBeCloseTo(-2.326348, 6);
+        });
+
+        it('should reject probabilities outside (0, 1)', () => {
+            for (const p of [0, 1, -0.5, NaN]) {
+                expect(() => MathUtils.normalQuantile(p)).toThrow(GlickoValidationError);
+            }
+        });
+    });
+});
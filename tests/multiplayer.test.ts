@@ -0,0 +1,144 @@
+import { MultiplayerMatches } from '../src/multiplayer';
+import { Glicko } from '../src/glicko';
+import { Glicko2 } from '../src/glicko2';
+import { Player } from '../src/interfaces/player';
+import { Match } from '../src/interfaces/match';
+import { GlickoValidationError, InvalidScoreError } from '../src/errors';
+
+describe('MultiplayerMatches Class', () => {
+    const datePlayed = new Date('2025-02-01T00:00:00Z');
+    let glicko: Glicko;
+
+    beforeEach(() => {
+        glicko = new Glicko();
+    });
+
+    describe('match weights', () => {
+        it('should scale a match contribution by its weight', () => {
+            const player: Player = { rating: 1500, rd: 200 };
+            const opponent: Player = { rating: 1500, rd: 200 };
+            const half: Match[] = [{ player, opponent, score: 1, datePlayed, weight: 0.5 }];
+            const full: Match[] = [{ player, opponent, score: 1, datePlayed }];
+            const halfResult = glicko.processGameResults(player, half);
+            const fullResult = glicko.processGameResults(player, full);
+            expect(halfResult.rating - 1500).toBeLessThan(fullResult.rating - 1500);
+            expect(halfResult.rd).toBeGreaterThan(fullResult.rd);
+
+            const twoHalves: Match[] = [half[0], half[0]];
+            expect(glicko.processGameResults(player, twoHalves)).toEqual(fullResult);
+        });
+
+        it('should be honoured by the Glicko-2 engine', () => {
+            const glicko2 = new Glicko2();
+            const player: Player = { rating: 1500, rd: 200, volatility: 0.06 };
+            const opponent: Player = { rating: 1500, rd: 200 };
+            const half = glicko2.processGameResults(player, [{ player, opponent, score: 1, datePlayed, weight: 0.5 }]);
+            const full = glicko2.processGameResults(player, [{ player, opponent, score: 1, datePlayed }]);
+            expect(half.rating).toBeLessThan(full.rating);
+        });
+    });
+
+    describe('compositeRating', () => {
+        it('should average ratings and combine RDs', () => {
+            const composite = MultiplayerMatches.compositeRating([{ rating: 1400, rd: 60 }, { rating: 1600, rd: 80 }]);
+            expect(composite.rating).toBe(1500);
+            expect(composite.rd).toBeCloseTo(50, 10);
+        });
+
+        it('should reject an empty team', () => {
+            expect(() => MultiplayerMatches.compositeRating([])).toThrow("A team must have at least one member.");
+        });
+    });
+
+    describe('teamMatches', () => {
+        const home: Player[] = [{ id: 'h1', rating: 1400, rd: 100 }, { id: 'h2', rating: 1600, rd: 200 }];
+        const away: Player[] = [{ id: 'a1', rating: 1550, rd: 100 }, { id: 'a2', rating: 1550, rd: 100 }];
+
+        it('should give every member the team-vs-team expectation', () => {
+            const matches = MultiplayerMatches.teamMatches({ teams: [home, away], score: 1, datePlayed });
+            expect(Object.keys(matches).sort()).toEqual(['a1', 'a2', 'h1', 'h2']);
+            expect(matches.h1[0].opponent.rating - home[0].rating).toBeCloseTo(50, 10);
+            expect(matches.h2[0].opponent.rating - home[1].rating).toBeCloseTo(50, 10);
+            expect(matches.a1[0].score).toBe(0);
+            expect(matches.h1[0].weight).toBeCloseTo(1, 10);
+        });
+
+        it('should move winners up and losers down when processed', () => {
+            const matches = MultiplayerMatches.teamMatches({ teams: [home, away], score: 1, datePlayed });
+            for (const member of home) {
+                expect(glicko.processGameResults(member, matches[member.id as string]).rating).toBeGreaterThan(member.rating);
+            }
+            for (const member of away) {
+                expect(glicko.processGameResults(member, matches[member.id as string]).rating).toBeLessThan(member.rating);
+            }
+        });
+
+        it('should distribute credit by RD or by explicit shares', () => {
+            const byRd = MultiplayerMatches.teamMatches({ teams: [home, away], score: 1, datePlayed, credit: 'rd' });
+            expect(byRd.h2[0].weight as number).toBeGreaterThan(byRd.h1[0].weight as number);
+            expect((byRd.h1[0].weight as number) + (byRd.h2[0].weight as number)).toBeCloseTo(2, 10);
+
+            const explicit = MultiplayerMatches.teamMatches({
+                teams: [home, away], score: 0.5, datePlayed, credit: { h1: 3, h2: 1, a1: 1, a2: 1 },
+            });
+            expect(explicit.h1[0].weight).toBeCloseTo(1.5, 10);
+            expect(explicit.h2[0].weight).toBeCloseTo(0.5, 10);
+        });
+
+        it('should reject invalid games', () => {
+            expect(() => MultiplayerMatches.teamMatches({ teams: [home, away], score: 2, datePlayed })).toThrow("Team score must be between 0 and 1.");
+            expect(() => MultiplayerMatches.teamMatches({ teams: [home, home], score: 1, datePlayed })).toThrow("Player h1 appears more than once in the game.");
+            expect(() => MultiplayerMatches.teamMatches({ teams: [home, away], score: 1, datePlayed, credit: { h1: 1 } })).toThrow("No credit given for player h2.");
+            expect(() => MultiplayerMatches.teamMatches({ teams: [[{ rating: 1500, rd: 50 }], away], score: 1, datePlayed })).toThrow("Every player in a multiplayer game must have an id.");
+            expect(() => MultiplayerMatches.teamMatches({ teams: [home, away], score: 1, datePlayed, credit: { h1: 1, h2: -1 } })).toThrow(GlickoValidationError);
+            expect(() => MultiplayerMatches.teamMatches({ teams: [home, away], score: NaN, datePlayed })).toThrow(InvalidScoreError);
+            expect(() => MultiplayerMatches.teamMatches({ teams: [home, away], score: 1, datePlayed, credit: { h1: 1, h2: NaN } }))
+                .toThrow("Credit must be a non-negative finite number.");
+        });
+    });
+
+    describe('freeForAllMatches', () => {
+        const players: Player[] = Array.from({ length: 8 }, (_, i) => ({ id: `p${i}`, rating: 1500, rd: 150 }));
+
+        it('should decompose placements into weighted pairwise results', () => {
+            const matches = MultiplayerMatches.freeForAllMatches({ placements: players.map((player, i) => ({ player, place: i + 1 })), datePlayed });
+            expect(matches.p0).toHaveLength(7);
+            expect(matches.p0.every(m => m.score === 1)).toBe(true);
+            expect(matches.p7.every(m => m.score === 0)).toBe(true);
+            expect(matches.p3[0].weight).toBeCloseTo(1 / 7, 10);
+        });
+
+        it('should count one free-for-all game as a single game', () => {
+            const ffa = MultiplayerMatches.freeForAllMatches({ placements: players.map((player, i) => ({ player, place: i + 1 })), datePlayed });
+            const winner = glicko.processGameResults(players[0], ffa.p0);
+            const singleWin = glicko.processGameResults(players[0], [{ player: players[0], opponent: players[1], score: 1, datePlayed }]);
+            expect(winner.rating).toBeCloseTo(singleWin.rating, 2);
+            expect(winner.rd).toBeCloseTo(singleWin.rd, 2);
+        });
+
+        it('should score shared places as draws', () => {
+            const matches = MultiplayerMatches.freeForAllMatches({
+                placements: [{ player: players[0], place: 1 }, { player: players[1], place: 1 }, { player: players[2], place: 3 }],
+                datePlayed,
+            });
+            expect(matches.p0.map(m => m.score)).toEqual([0.5, 1]);
+        });
+
+        it('should reject games with fewer than two players or duplicates', () => {
+            expect(() => MultiplayerMatches.freeForAllMatches({ placements: [{ player: players[0], place: 1 }], datePlayed }))
+                .toThrow("A free-for-all game needs at least two players.");
+            expect(() => MultiplayerMatches.freeForAllMatches({ placements: [{ player: players[0], place: 1 }, { player: players[0], place: 2 }], datePlayed }))
+                .toThrow("Player p0 appears more than once in the game.");
+            expect(() => MultiplayerMatches.freeForAllMatches({ placements: [], datePlayed })).toThrow(GlickoValidationError);
+        });
+    });
+
+    describe('merge', () => {
+        it('should concatenate matches per player', () => {
+            const team = MultiplayerMatches.teamMatches({ teams: [[{ id: 'x', rating: 1500, rd: 50 }], [{ id: 'y', rating: 1500, rd: 50 }]], score: 1, datePlayed });
+            const merged = MultiplayerMatches.merge(team, team);
+            expect(merged.x).toHaveLength(2);
+            expect(merged.y).toHaveLength(2);
+        });
+    });
+});
@@ -0,0 +1,120 @@
+import { ParameterFitter } from '../src/parameter-fitting';
+import { HistoryReplay } from '../src/history-replay';
+import { Glicko } from '../src/glicko';
+import { RatingPeriodProcessor } from '../src/rating-period';
+import { Optimization } from '../src/utils/optimization';
+import { Player } from '../src/interfaces/player';
+import { GlickoValidationError, InvalidConfigError } from '../src/errors';
+import { syntheticGames } from './helpers/synthetic-games';
+
+describe('HistoryReplay Class', () => {
+    const games = syntheticGames(4, 10);
+
+    it('should predict every game in date order from start-of-period ratings', () => {
+        const { predictions, periods } = new HistoryReplay().run([...games].reverse());
+        expect(periods).toBe(4);
+        expect(predictions).toHaveLength(games.length);
+        const times = predictions.map(prediction => prediction.game.datePlayed.getTime());
+        expect(times).toEqual([...times].sort((a, b) => a - b));
+        for (const prediction of predictions.filter(p => p.period === 0)) {
+            expect(prediction.expectedScore).toBeCloseTo(0.5, 10);
+        }
+    });
+
+    it('should end with the same ratings as processing each period in turn', () => {
+        const glicko = new Glicko();
+        const processor = new RatingPeriodProcessor(glicko);
+        const { ratings, predictions } = new HistoryReplay(glicko).run(games);
+
+        let expected: Record<string, Player> = {};
+        for (let period = 0; period < 4; period++) {
+            expected = processor.process(expected, predictions.filter(p => p.period === period).map(p => p.game));
+        }
+        expect(ratings).toEqual(expected);
+    });
+
+    it('should reject games without a valid date', () => {
+        expect(() => new HistoryReplay().run([{ playerId: 'a', opponentId: 'b', score: 1, datePlayed: new Date(NaN) }]))
+            .toThrow("Game between a and b has no valid date.");
+    });
+});
+
+describe('ParameterFitter Class', () => {
+    const games = syntheticGames(8, 12);
+
+    it('should score a config by mean predictive log-loss', () => {
+        const fitter = new ParameterFitter();
+        const all = fitter.evaluate(games);
+        const afterBurnIn = fitter.evaluate(games, undefined, 2);
+        expect(all.gamesScored).toBe(games.length);
+        const { predictions } = new HistoryReplay().run(games);
+        expect(afterBurnIn.gamesScored).toBe(predictions.filter(p => p.period >= 2).length);
+        expect(all.logLoss).toBeGreaterThan(0);
+        expect(all.logLoss).toBeLessThan(Math.log(2));
+    });
+
+    it('should return the best point of a grid search', () => {
+        const fitter = new ParameterFitter({ inactivityConstant: 10 });
+        const result = fitter.fit(games, { method: 'grid', gridSteps: 3, parameters: { initialRD: [150, 350], rdCeiling: [300, 350] } });
+
+        expect(result.evaluations).toHaveLength(9);
+        expect(result.logLoss).toBe(Math.min(...result.evaluations.map(e => e.logLoss)));
+        expect(result.config).toEqual({ inactivityConstant: 10, ...result.parameters });
+        expect(result.gamesScored).toBe(games.length);
+    });
+
+    it('should improve on the starting point with Nelder-Mead while staying in range', () => {
+        const fitter = new ParameterFitter();
+        const result = fitter.fit(games, { parameters: { initialRD: [50, 350], inactivityConstant: [0, 100] }, maxIterations: 30 });
+
+        expect(result.logLoss).toBeLessThanOrEqual(result.evaluations[0].logLoss);
+        expect(result.logLoss).toBeLessThanOrEqual(result.baselineLogLoss);
+        for (const { parameters } of result.evaluations) {
+            expect(parameters.initialRD).toBeGreaterThanOrEqual(50);
+            expect(parameters.initialRD).toBeLessThanOrEqual(350);
+            expect(parameters.inactivityConstant).toBeGreaterThanOrEqual(0);
+            expect(parameters.inactivityConstant).toBeLessThanOrEqual(100);
+        }
+    });
+
+    it('should estimate the first-move advantage from games with sides', () => {
+        // The first-moving side plays 80 points above its strength.
+        const sided = syntheticGames(8, 60, { firstMoveAdvantage: 80 });
+        const fitter = new ParameterFitter();
+        const result = fitter.estimateFirstMoveAdvantage(sided, { maxIterations: 30 });
+
+        expect(result.parameters.firstMoveAdvantage).toBeGreaterThan(40);
+        expect(result.parameters.firstMoveAdvantage).toBeLessThan(120);
+        expect(result.logLoss).toBeLessThan(result.baselineLogLoss);
+        expect(result.config).toEqual({ firstMoveAdvantage: result.parameters.firstMoveAdvantage });
+        expect(() => fitter.estimateFirstMoveAdvantage(games)).toThrow("No game has a side; the first-move advantage cannot be estimated.");
+        expect(() => fitter.estimateFirstMoveAdvantage(games)).toThrow(GlickoValidationError);
+        expect(() => fitter.fit(sided, { parameters: { firstMoveAdvantage: [50, -50] } })).toThrow(InvalidConfigError);
+    });
+
+    it('should validate the search options', () => {
+        const fitter = new ParameterFitter();
+        expect(() => fitter.fit(games, { parameters: {} })).toThrow("At least one parameter must be fitted.");
+        expect(() => fitter.fit(games, { parameters: { initialRD: [300, 100] } })).toThrow(InvalidConfigError);
+        expect(() => fitter.fit(games, { parameters: { initialRD: [0, 100] } })).toThrow("Range for initialRD must satisfy 0 < min <= max.");
+        expect(() => fitter.fit(games, { parameters: { rdCeiling: [0, 400] } })).toThrow(InvalidConfigError);
+        expect(() => fitter.fit(games, { parameters: { initialRD: [100, 300] }, burnInPeriods: 8 })).toThrow("No games left to score after the burn-in periods.");
+        expect(() => fitter.fit(games, { parameters: { initialRD: [100, 300] }, burnInPeriods: 8 })).toThrow(GlickoValidationError);
+    });
+});
+
+describe('Optimization.nelderMead', () => {
+    it('should find the minimum of a quadratic inside the box', () => {
+        const { point, value } = Optimization.nelderMead(([x, y]) => Math.pow(x - 2, 2) + Math.pow(y + 1, 2), [0, 0], {
+            lowerBounds: [-5, -5], upperBounds: [5, 5], maxIterations: 200, tolerance: 1e-12,
+        });
+        expect(point[0]).toBeCloseTo(2, 3);
+        expect(point[1]).toBeCloseTo(-1, 3);
+        expect(value).toBeCloseTo(0, 6);
+    });
+
+    it('should stop at the boundary when the minimum lies outside the box', () => {
+        const { point } = Optimization.nelderMead(([x]) => Math.pow(x - 10, 2), [0], { lowerBounds: [-1], upperBounds: [3], maxIterations: 100 });
+        expect(point[0]).toBeCloseTo(3, 6);
+    });
+});
@@ -0,0 +1,95 @@
+import { RatingHistory } from '../src/rating-history';
+import { RatingPeriodProcessor } from '../src/rating-period';
+import { Player } from '../src/interfaces/player';
+import { GameResult } from '../src/interfaces/game-result';
+
+describe('RatingHistory Class', () => {
+    const day = (n: number) => new Date(Date.UTC(2025, 0, n));
+    const periods: GameResult[][] = [
+        [
+            { playerId: 'alice', opponentId: 'bob', score: 1, datePlayed: day(2) },
+            { playerId: 'carol', opponentId: 'alice', score: 0, datePlayed: day(3) },
+        ],
+        [
+            { playerId: 'alice', opponentId: 'bob', score: 1, datePlayed: day(10) },
+            { playerId: 'bob', opponentId: 'carol', score: 0.5, datePlayed: day(11) },
+        ],
+        [
+            { playerId: 'bob', opponentId: 'alice', score: 1, datePlayed: day(20) },
+            { playerId: 'alice', opponentId: 'carol', score: 1, datePlayed: day(21) },
+        ],
+    ];
+    let history: RatingHistory;
+    let snapshots: Record<string, Player>[];
+
+    beforeEach(() => {
+        history = new RatingHistory();
+        snapshots = [];
+        const processor = new RatingPeriodProcessor();
+        let ratings: Record<string, Player> = {};
+        periods.forEach((games, index) => {
+            ratings = processor.process(ratings, games);
+            snapshots.push(ratings);
+            history.recordPeriod(ratings, games, day(7 * (index + 1)));
+        });
+    });
+
+    it('should record a state per player and period', () => {
+        expect(history.getPlayerIds().sort()).toEqual(['alice', 'bob', 'carol']);
+        const alice = history.getHistory('alice');
+        expect(alice.map(entry => entry.rating)).toEqual(snapshots.map(s => s.alice.rating));
+        expect(alice[0].games).toEqual([
+            { opponentId: 'bob', score: 1, datePlayed: day(2) },
+            { opponentId: 'carol', score: 1, datePlayed: day(3) },
+        ]);
+    });
+
+    it('should look up the rating in effect at a date', () => {
+        expect(history.ratingAt('alice', day(1))).toBeUndefined();
+        expect(history.ratingAt('alice', day(7))?.rating).toBe(snapshots[0].alice.rating);
+        expect(history.ratingAt('alice', day(14))?.rating).toBe(snapshots[1].alice.rating);
+        expect(history.ratingAt('alice', day(100))?.rating).toBe(snapshots[2].alice.rating);
+    });
+
+    it('should find peak and lowest ratings', () => {
+        const ratings = snapshots.map(s => s.alice.rating);
+        expect(history.peak('alice')?.rating).toBe(Math.max(...ratings));
+        expect(history.lowest('bob')?.rating).toBe(Math.min(...snapshots.map(s => s.bob.rating)));
+        expect(history.peak('nobody')).toBeUndefined();
+    });
+
+    it('should compute the longest win streak across periods', () => {
+        expect(history.longestWinStreak('alice')).toBe(3); // wins on days 2, 3 and 10; loss on day 20
+        expect(history.longestWinStreak('carol')).toBe(0);
+    });
+
+    it('should report the record against an opponent', () => {
+        expect(history.recordAgainst('alice', 'bob')).toEqual({ opponentId: 'bob', games: 3, wins: 2, draws: 0, losses: 1, score: 2 });
+        expect(history.recordAgainst('carol', 'bob')).toEqual({ opponentId: 'bob', games: 1, wins: 0, draws: 1, losses: 0, score: 0.5 });
+    });
+
+    it('should measure change over a date range', () => {
+        const change = history.changeBetween('alice', day(8), day(30));
+        expect(change?.from.rating).toBe(snapshots[0].alice.rating);
+        expect(change?.to.rating).toBe(snapshots[2].alice.rating);
+        expect(change?.ratingChange).toBeCloseTo(snapshots[2].alice.rating - snapshots[0].alice.rating, 10);
+        expect(history.changeBetween('alice', day(1), day(10))?.from.date).toEqual(day(7));
+        expect(history.changeBetween('alice', day(1), day(2))).toBeUndefined();
+    });
+
+    it('should export a JSON-friendly time series', () => {
+        const series = history.toTimeSeries(['bob', 'alice']);
+        expect(series).toHaveLength(6);
+        expect(series[0]).toEqual({ playerId: 'alice', date: day(7).toISOString(), rating: snapshots[0].alice.rating, rd: snapshots[0].alice.rd, games: 2 });
+        expect(series[1].playerId).toBe('bob');
+        expect(JSON.parse(JSON.stringify(series))).toEqual(series);
+    });
+
+    it('should keep entries in date order when recorded out of order', () => {
+        const manual = new RatingHistory();
+        manual.record('x', { rating: 1600, rd: 80 }, day(20));
+        manual.record('x', { rating: 1550, rd: 90 }, day(10));
+        expect(manual.getHistory('x').map(entry => entry.rating)).toEqual([1550, 1600]);
+        expect(() => manual.record('x', { rating: 1500, rd: 90 }, new Date(NaN))).toThrow("History entries need a valid date.");
+    });
+});
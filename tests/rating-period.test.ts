@@ -0,0 +1,184 @@
+import { RatingPeriodProcessor } from '../src/rating-period';
+import { Glicko } from '../src/glicko';
+import { Glicko2 } from '../src/glicko2';
+import { Player } from '../src/interfaces/player';
+import { GameResult } from '../src/interfaces/game-result';
+import { Match } from '../src/interfaces/match';
+import { GlickoValidationError } from '../src/errors';
+
+describe('RatingPeriodProcessor Class', () => {
+    const playedAt = new Date('2025-01-15T00:00:00Z');
+    let glicko: Glicko;
+    let processor: RatingPeriodProcessor;
+
+    beforeEach(() => {
+        glicko = new Glicko();
+        processor = new RatingPeriodProcessor(glicko);
+    });
+
+    it('should update both sides of a game from a single record', () => {
+        const players: Record<string, Player> = {
+            a: { rating: 224, rd: 350 },
+            b: { rating: 406, rd: 350 },
+        };
+        const games: GameResult[] = [{ playerId: 'b', opponentId: 'a', score: 1, datePlayed: playedAt }];
+
+        const updated = processor.process(players, games, { elapsedDays: 0 });
+        expect(updated.a.rating).toBeCloseTo(112.47, 2);
+        expect(updated.a.rd).toBeCloseTo(295.51, 2);
+        expect(updated.b.rating).toBeCloseTo(517.53, 2);
+        expect(updated.b.rd).toBeCloseTo(295.51, 2);
+    });
+
+    it('should rate every player against start-of-period opponent states regardless of game order', () => {
+        const players: Record<string, Player> = {
+            a: { rating: 1500, rd: 200 },
+            b: { rating: 1400, rd: 30 },
+            c: { rating: 1550, rd: 100 },
+        };
+        const games: GameResult[] = [
+            { playerId: 'a', opponentId: 'b', score: 1, datePlayed: playedAt },
+            { playerId: 'a', opponentId: 'c', score: 0, datePlayed: playedAt },
+            { playerId: 'b', opponentId: 'c', score: 0.5, datePlayed: playedAt },
+        ];
+
+        const forward = processor.process(players, games, { elapsedDays: 0 });
+        const reversed = processor.process(players, [...games].reverse(), { elapsedDays: 0 });
+        expect(reversed).toEqual(forward);
+
+        const expectedA = glicko.processGameResults(players.a, [
+            { player: players.a, opponent: players.b, score: 1, datePlayed: playedAt },
+            { player: players.a, opponent: players.c, score: 0, datePlayed: playedAt },
+        ]);
+        expect(forward.a.rating).toBe(expectedA.rating);
+        expect(forward.a.rd).toBe(expectedA.rd);
+    });
+
+    it('should apply inactivity RD growth to players who sat out', () => {
+        const lastPlayed = new Date('2024-12-01T00:00:00Z');
+        const players: Record<string, Player> = {
+            a: { rating: 1500, rd: 100, lastPlayedMatch: lastPlayed },
+            b: { rating: 1500, rd: 100, lastPlayedMatch: lastPlayed },
+            idle: { rating: 1600, rd: 100, lastPlayedMatch: lastPlayed },
+        };
+        const games: GameResult[] = [{ playerId: 'a', opponentId: 'b', score: 1, datePlayed: playedAt }];
+
+        const updated = processor.process(players, games);
+        const expectedIdle = glicko.updateRDForInactivity(players.idle, 30);
+        expect(updated.idle.rating).toBe(1600);
+        expect(updated.idle.rd).toBe(expectedIdle.rd);
+        expect(updated.idle.lastPlayedMatch).toEqual(lastPlayed);
+    });
+
+    it('should initialize players that appear for the first time', () => {
+        const games: GameResult[] = [{ playerId: 'new1', opponentId: 'new2', score: 0.5, datePlayed: playedAt }];
+        const updated = processor.process({}, games);
+        expect(Object.keys(updated).sort()).toEqual(['new1', 'new2']);
+        expect(updated.new1.rating).toBeCloseTo(1500, 2);
+        expect(updated.new1.rd).toBeLessThan(350);
+    });
+
+    it('should return only the inactivity update when no games are provided', () => {
+        const players: Record<string, Player> = { a: { rating: 1500, rd: 80 } };
+        expect(processor.process(players, [])).toEqual(players);
+    });
+
+    it('should throw if a player faces themselves', () => {
+        const games: GameResult[] = [{ playerId: 'a', opponentId: 'a', score: 1, datePlayed: playedAt }];
+        expect(() => processor.process({}, games)).toThrow("Player a cannot play against themselves.");
+        expect(() => processor.process({}, games)).toThrow(GlickoValidationError);
+    });
+
+    it('should rate matches between identified players, seeding newcomers from the match', () => {
+        const players: Record<string, Player> = { a: { id: 'a', rating: 1500, rd: 200 } };
+        const b: Player = { id: 'b', rating: 1400, rd: 30 };
+        const matches: Match[] = [
+            { player: { id: 'a', rating: 1700, rd: 50 }, opponent: b, score: 1, datePlayed: playedAt, side: 'first', weight: 0.5 },
+            { player: { id: 'c' } as Player, opponent: { ...players.a }, score: 0.5, datePlayed: playedAt },
+        ];
+
+        // Known players keep their stored state; b is seeded from the match and c is initialized.
+        expect(processor.processMatches(players, matches, { elapsedDays: 0 })).toEqual(processor.process({ ...players, b }, [
+            { playerId: 'a', opponentId: 'b', score: 1, datePlayed: playedAt, side: 'first', weight: 0.5 },
+            { playerId: 'c', opponentId: 'a', score: 0.5, datePlayed: playedAt },
+        ], { elapsedDays: 0 }));
+
+        expect(() => processor.processMatches(players, [{ player: players.a, opponent: { rating: 1400, rd: 30 }, score: 1, datePlayed: playedAt }]))
+            .toThrow(GlickoValidationError);
+    });
+
+    it('should give the opponent the other side of the game', () => {
+        const engine = new Glicko({ firstMoveAdvantage: 50 });
+        const players: Record<string, Player> = { a: { rating: 1500, rd: 100 }, b: { rating: 1500, rd: 100 } };
+        const updated = new RatingPeriodProcessor(engine).process(players, [
+            { playerId: 'a', opponentId: 'b', score: 0.5, datePlayed: playedAt, side: 'first' },
+        ], { elapsedDays: 0 });
+
+        const expectedB = engine.processGameResults(players.b, [{ player: players.b, opponent: players.a, score: 0.5, datePlayed: playedAt, side: 'second' }], 0);
+        expect(updated.a.rating).toBeLessThan(1500);
+        expect(updated.b).toEqual(expectedB);
+        expect(RatingPeriodProcessor.otherSide('second')).toBe('first');
+        expect(RatingPeriodProcessor.otherSide(undefined)).toBeUndefined();
+    });
+
+    it('should report each game skipped in lenient mode once, by its index', () => {
+        const players: Record<string, Player> = { a: { rating: 1500, rd: 200 }, b: { rating: 1400, rd: 30 } };
+        const games: GameResult[] = [
+            { playerId: 'a', opponentId: 'b', score: 1, datePlayed: playedAt },
+            { playerId: 'b', opponentId: 'a', score: 7, datePlayed: playedAt },
+        ];
+        const { players: updated, warnings } = processor.processWithWarnings(players, games, { elapsedDays: 0 });
+        // Both sides of the game are invalid; the warning reads as the game was recorded, from b's side.
+        expect(warnings).toEqual([expect.objectContaining({ code: 'INVALID_SCORE', value: 7, matchIndex: 1 })]);
+        expect(warnings[0].message).toMatch(/: 7$/);
+        expect(updated).toEqual(processor.process(players, [games[0]], { elapsedDays: 0 }));
+    });
+
+    it('should throw if elapsedDays is negative', () => {
+        expect(() => processor.process({}, [], { elapsedDays: -1 })).toThrow("elapsedDays cannot be negative.");
+    });
+
+    it('should work with the Glicko-2 engine', () => {
+        const glicko2Processor = new RatingPeriodProcessor(new Glicko2());
+        const players: Record<string, Player> = {
+            a: { rating: 1500, rd: 200, volatility: 0.06 },
+            b: { rating: 1400, rd: 30, volatility: 0.06 },
+        };
+        const updated = glicko2Processor.process(players, [{ playerId: 'a', opponentId: 'b', score: 1, datePlayed: playedAt }]);
+        expect(updated.a.rating).toBeGreaterThan(1500);
+        expect(updated.b.rating).toBeLessThan(1400);
+        expect(updated.a.volatility).toBeDefined();
+    });
+
+    it("should reproduce Glickman's Glicko-2 example without inflating the deviation of competing players twice", () => {
+        const glicko2 = new Glicko2({ tau: 0.5 });
+        const lastPlayedMatch = new Date('2024-12-15T00:00:00Z');
+        const players: Record<string, Player> = {
+            p: { rating: 1500, rd: 200, volatility: 0.06, lastPlayedMatch },
+            o1: { rating: 1400, rd: 30, volatility: 0.06, lastPlayedMatch },
+            o2: { rating: 1550, rd: 100, volatility: 0.06, lastPlayedMatch },
+            o3: { rating: 1700, rd: 300, volatility: 0.06, lastPlayedMatch },
+            idle: { rating: 1500, rd: 200, volatility: 0.06, lastPlayedMatch },
+        };
+        const games: GameResult[] = [
+            { playerId: 'p', opponentId: 'o1', score: 1, datePlayed: playedAt },
+            { playerId: 'p', opponentId: 'o2', score: 0, datePlayed: playedAt },
+            { playerId: 'p', opponentId: 'o3', score: 0, datePlayed: playedAt },
+        ];
+
+        // The default elapsedDays is one rating period.
+        const updated = new RatingPeriodProcessor(glicko2).process(players, games);
+        expect(updated.p.rating).toBeCloseTo(1464.05, 2);
+        expect(updated.p.rd).toBeCloseTo(151.52, 2);
+        expect(updated.p.volatility).toBeCloseTo(0.059996, 6);
+        // Players who sit out still receive one period of volatility.
+        expect(updated.idle.rd).toBe(glicko2.updateRDForInactivity(players.idle, 30).rd);
+
+        // Longer gaps inflate competing players for the idle periods only.
+        const afterGap = new RatingPeriodProcessor(glicko2).process(players, games, { elapsedDays: 90 });
+        const expected = glicko2.processGameResults(glicko2.updateRDForInactivity(players.p, 60),
+            games.map(game => ({ player: players.p, opponent: glicko2.updateRDForInactivity(players[game.opponentId], 60), score: game.score, datePlayed: playedAt })),
+            { daysSinceLastActive: 0 });
+        expect(afterGap.p).toEqual(expected);
+    });
+});
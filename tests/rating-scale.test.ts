@@ -0,0 +1,109 @@
+import { RatingScale } from '../src/rating-scale';
+import { Glicko } from '../src/glicko';
+import { Glicko2 } from '../src/glicko2';
+import { InvalidConfigError, InvalidRatingError, GlickoValidationError } from '../src/errors';
+
+describe('RatingScale Class', () => {
+    const standard = new RatingScale();
+    const house = new RatingScale(1500, 600);
+
+    it('should default to the classic 1500 / 400 scale', () => {
+        expect(standard.center).toBe(1500);
+        expect(standard.spread).toBe(400);
+        expect(standard.q).toBeCloseTo(Math.log(10) / 400, 12);
+    });
+
+    it('should convert ratings and RDs between scales and back', () => {
+        expect(standard.convertRating(1900, house)).toBe(2100);
+        expect(standard.convertRD(100, house)).toBe(150);
+        expect(house.convertRating(standard.convertRating(1234.5, house), standard)).toBeCloseTo(1234.5, 10);
+
+        const converted = standard.convert({ id: 'a', rating: 1700, rd: 80 }, house);
+        expect(converted).toEqual({ id: 'a', rating: 1800, rd: 120 });
+    });
+
+    it('should preserve expected scores across scales', () => {
+        const standardEngine = new Glicko();
+        const houseEngine = new Glicko({ scaleSpread: 600 });
+        const a = { rating: 1700, rd: 80 };
+        const b = { rating: 1450, rd: 120 };
+        expect(houseEngine.predict(standard.convert(a, house), standard.convert(b, house)).expectedScore)
+            .toBeCloseTo(standardEngine.predict(a, b).expectedScore, 12);
+    });
+
+    it('should match the Glicko-2 engine conversion on the default scale', () => {
+        const glicko2 = new Glicko2();
+        const player = { rating: 1720, rd: 95 };
+        const internal = standard.toGlicko2(player);
+        const expected = glicko2.toGlicko2Scale(player);
+        expect(internal.mu).toBeCloseTo(expected.mu, 5);
+        expect(internal.phi).toBeCloseTo(expected.phi, 5);
+        expect(standard.fromGlicko2(internal).rating).toBeCloseTo(1720, 10);
+        expect(house.toGlicko2(standard.convert(player, house)).mu).toBeCloseTo(internal.mu, 12);
+    });
+
+    it('should reject invalid scales', () => {
+        expect(() => new RatingScale(NaN)).toThrow(InvalidConfigError);
+        expect(() => new RatingScale(1500, 0)).toThrow("Scale spread must be a positive number.");
+    });
+});
+
+describe('Glicko rating scale', () => {
+    it('should derive q and the rating-point defaults from the scale', () => {
+        const glicko = new Glicko({ scaleCenter: 1500, scaleSpread: 600 });
+        const config = glicko.getConfig();
+        expect(config.q).toBeCloseTo(Math.log(10) / 600, 12);
+        expect(config.initialRating).toBe(1500);
+        expect(config.initialRD).toBeCloseTo(525, 10);
+        expect(config.rdCeiling).toBeCloseTo(525, 10);
+        expect(config.inactivityConstant).toBeCloseTo(0.75, 10);
+        expect(glicko.getScale()).toEqual(new RatingScale(1500, 600));
+    });
+
+    it('should start new players at the scale center unless overridden', () => {
+        expect(new Glicko({ scaleCenter: 1000 }).initializeNewPlayer().rating).toBe(1000);
+        expect(new Glicko({ scaleCenter: 1000, initialRating: 1200 }).initializeNewPlayer().rating).toBe(1200);
+    });
+
+    it('should rate equivalently on any scale', () => {
+        const standard = new Glicko();
+        const house = new Glicko({ scaleSpread: 600, roundingPrecision: 8 });
+        const toHouse = (r: { rating: number; rd: number }) => standard.getScale().convert(r, house.getScale());
+        const player = { rating: 1600, rd: 120 };
+        const opponents = [{ rating: 1500, rd: 60 }, { rating: 1800, rd: 200 }];
+        const datePlayed = new Date('2025-01-01');
+
+        const updated = new Glicko({ roundingPrecision: 8 }).processGameResults(player, opponents.map((opponent, i) => ({ player, opponent, score: i, datePlayed })), 0);
+        const houseUpdated = house.processGameResults(toHouse(player), opponents.map((opponent, i) => ({ player, opponent: toHouse(opponent), score: i, datePlayed })), 0);
+        expect(houseUpdated.rating).toBeCloseTo(toHouse(updated).rating, 5);
+        expect(houseUpdated.rd).toBeCloseTo(toHouse(updated).rd, 5);
+    });
+
+    it('should accept q on its own, but not a q that contradicts the spread', () => {
+        expect(new Glicko({ q: Math.log(10) / 600 }).getConfig().scaleSpread).toBeCloseTo(600, 8);
+        expect(new Glicko({ q: Math.log(10) / 400, scaleSpread: 400 }).getConfig().scaleSpread).toBe(400);
+        expect(() => new Glicko({ q: 0.01, scaleSpread: 400 })).toThrow("q must equal ln(10) / scaleSpread; set only one of them.");
+        expect(() => new Glicko({ q: -1 })).toThrow(InvalidConfigError);
+        expect(() => new Glicko({ scaleSpread: 0 })).toThrow("scaleSpread must be a positive number.");
+    });
+
+    it('should seed players from Elo ratings with RDs shrinking with games played', () => {
+        const glicko = new Glicko({ scaleCenter: 1500, scaleSpread: 600, minRD: 60 });
+        const newcomer = glicko.seedFromElo({ id: 'a', rating: 1500, gamesPlayed: 0 });
+        const regular = glicko.seedFromElo({ id: 'b', rating: 1900, gamesPlayed: 10 });
+        const veteran = glicko.seedFromElo({ id: 'c', rating: 1100, gamesPlayed: 2000 });
+
+        expect(newcomer).toEqual({ id: 'a', rating: 1500, rd: 525, precise: { rating: 1500, rd: 525 }, lastPlayedMatch: undefined });
+        expect(regular.rating).toBe(2100);
+        expect(regular.rd).toBeCloseTo(1.5 / Math.sqrt(1 / 350 ** 2 + 10 * (Math.log(10) / 400) ** 2 / 4), 1);
+        expect(veteran.rating).toBe(900);
+        expect(veteran.rd).toBe(60);
+        expect(glicko.seedFromElo({ rating: 1300, gamesPlayed: 0 }, { center: 1200 }).rating).toBe(1650);
+    });
+
+    it('should reject invalid Elo seeds', () => {
+        const glicko = new Glicko();
+        expect(() => glicko.seedFromElo({ rating: NaN, gamesPlayed: 1 })).toThrow(InvalidRatingError);
+        expect(() => glicko.seedFromElo({ rating: 1500, gamesPlayed: -1 })).toThrow(GlickoValidationError);
+    });
+});
@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryRatingStore } from '../src/store/in-memory-rating-store';
+import { JsonFileRatingStore } from '../src/store/json-file-rating-store';
+import { Glicko } from '../src/glicko';
+import { RatingPeriodProcessor } from '../src/rating-period';
+import { Player } from '../src/interfaces/player';
+import { GlickoValidationError, SnapshotError } from '../src/errors';
+
+describe('InMemoryRatingStore Class', () => {
+    let store: InMemoryRatingStore;
+
+    beforeEach(() => {
+        store = new InMemoryRatingStore([{ id: 'a', rating: 1500, rd: 200 }]);
+    });
+
+    it('should get, put and list players by id', async () => {
+        await store.put({ id: 'b', rating: 1600, rd: 100 });
+        expect(await store.get('a')).toEqual({ id: 'a', rating: 1500, rd: 200 });
+        expect(await store.get('missing')).toBeUndefined();
+        expect((await store.list()).map(p => p.id).sort()).toEqual(['a', 'b']);
+    });
+
+    it('should throw when storing a player without an id', async () => {
+        await expect(store.put({ rating: 1500, rd: 350 })).rejects.toThrow("Player must have an id to be stored.");
+        await expect(store.put({ rating: 1500, rd: 350 })).rejects.toThrow(GlickoValidationError);
+    });
+
+    it('should return copies so callers cannot mutate stored players', async () => {
+        const player = await store.get('a') as Player;
+        player.rating = 0;
+        expect((await store.get('a'))?.rating).toBe(1500);
+    });
+
+    it('should commit transaction writes together', async () => {
+        await store.transaction(async tx => {
+            await tx.put({ id: 'a', rating: 1510, rd: 190 });
+            await tx.put({ id: 'c', rating: 1400, rd: 300 });
+            expect((await tx.get('a'))?.rating).toBe(1510);
+            expect(await tx.list()).toHaveLength(2);
+            expect((await store.get('a'))?.rating).toBe(1500);
+        });
+        expect((await store.get('a'))?.rating).toBe(1510);
+        expect((await store.get('c'))?.rating).toBe(1400);
+    });
+
+    it('should discard transaction writes when the work throws', async () => {
+        await expect(store.transaction(async tx => {
+            await tx.put({ id: 'a', rating: 9999, rd: 1 });
+            throw new Error("boom");
+        })).rejects.toThrow("boom");
+        expect((await store.get('a'))?.rating).toBe(1500);
+
+        await store.transaction(tx => tx.put({ id: 'b', rating: 1, rd: 1 }));
+        expect(await store.get('b')).toBeDefined();
+    });
+});
+
+describe('JsonFileRatingStore Class', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'glicko-store-'));
+        filePath = path.join(dir, 'players.json');
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should start empty when the file does not exist', async () => {
+        const store = await JsonFileRatingStore.open(filePath);
+        expect(await store.list()).toEqual([]);
+    });
+
+    it('should persist players and restore lastPlayedMatch as a Date', async () => {
+        const lastPlayedMatch = new Date('2025-03-01T12:00:00Z');
+        const store = await JsonFileRatingStore.open(filePath);
+        await store.put({ id: 'a', rating: 1500, rd: 200, lastPlayedMatch });
+
+        const reopened = await JsonFileRatingStore.open(filePath);
+        const player = await reopened.get('a');
+        expect(player?.rating).toBe(1500);
+        expect(player?.lastPlayedMatch).toBeInstanceOf(Date);
+        expect(player?.lastPlayedMatch?.getTime()).toBe(lastPlayedMatch.getTime());
+    });
+
+    it('should serialize concurrent puts and transactions', async () => {
+        const store = await JsonFileRatingStore.open(filePath);
+        await Promise.all([
+            store.put({ id: 'a', rating: 1500, rd: 200 }),
+            store.put({ id: 'b', rating: 1600, rd: 150 }),
+            store.transaction(tx => tx.put({ id: 'c', rating: 1700, rd: 100 })),
+            store.put({ id: 'd', rating: 1800, rd: 50 }),
+        ]);
+
+        const reopened = await JsonFileRatingStore.open(filePath);
+        expect((await reopened.list()).map(player => player.id).sort()).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('should reject files that are not a JSON array', async () => {
+        await fs.writeFile(filePath, '{"a": 1}', 'utf8');
+        await expect(JsonFileRatingStore.open(filePath)).rejects.toThrow("must contain a JSON array of players");
+        await expect(JsonFileRatingStore.open(filePath)).rejects.toThrow(SnapshotError);
+        await fs.writeFile(filePath, '[{', 'utf8');
+        await expect(JsonFileRatingStore.open(filePath)).rejects.toThrow(SnapshotError);
+    });
+
+    it('should keep the previous state in memory when the file cannot be written', async () => {
+        const store = await JsonFileRatingStore.open(filePath);
+        await store.put({ id: 'a', rating: 1500, rd: 200 });
+        // A directory in place of the temporary file makes the write fail.
+        await fs.mkdir(`${filePath}.tmp`);
+
+        await expect(store.transaction(async tx => {
+            await tx.put({ id: 'a', rating: 1600, rd: 150 });
+            await tx.put({ id: 'b', rating: 1700, rd: 100 });
+        })).rejects.toThrow();
+        expect(await store.list()).toEqual([{ id: 'a', rating: 1500, rd: 200 }]);
+
+        await fs.rmdir(`${filePath}.tmp`);
+        await store.put({ id: 'b', rating: 1700, rd: 100 });
+        const reopened = await JsonFileRatingStore.open(filePath);
+        expect((await reopened.list()).map(player => player.id)).toEqual(['a', 'b']);
+    });
+});
+
+describe('Store helpers', () => {
+    const playedAt = new Date('2025-01-15T00:00:00Z');
+
+    it('should load a stored player or initialize a new one with the id', async () => {
+        const glicko = new Glicko();
+        const store = new InMemoryRatingStore([{ id: 'a', rating: 1700, rd: 60 }]);
+        expect((await glicko.loadPlayer(store, 'a')).rating).toBe(1700);
+        expect(await glicko.loadPlayer(store, 'new')).toEqual(glicko.initializeNewPlayer({ id: 'new' }));
+    });
+
+    it('should process a player from the store and write the result back', async () => {
+        const glicko = new Glicko();
+        const store = new InMemoryRatingStore([{ id: 'a', rating: 224, rd: 350 }]);
+        const updated = await glicko.processGameResultsInStore(store, 'a', [
+            { player: { rating: 224, rd: 350 }, opponent: { rating: 406, rd: 350 }, score: 0, datePlayed: playedAt },
+        ]);
+        expect(updated.id).toBe('a');
+        expect(updated.rating).toBeCloseTo(112.47, 2);
+        expect((await store.get('a'))?.rating).toBe(updated.rating);
+    });
+
+    it('should process a rating period for every stored player', async () => {
+        const store = new InMemoryRatingStore([
+            { id: 'a', rating: 224, rd: 350 },
+            { id: 'b', rating: 406, rd: 350 },
+        ]);
+        const processor = new RatingPeriodProcessor();
+        await processor.processStore(store, [
+            { playerId: 'b', opponentId: 'a', score: 1, datePlayed: playedAt },
+            { playerId: 'b', opponentId: 'newcomer', score: 0.5, datePlayed: playedAt },
+        ], { elapsedDays: 0 });
+
+        expect((await store.list()).map(p => p.id).sort()).toEqual(['a', 'b', 'newcomer']);
+        expect((await store.get('a'))?.rating).toBeCloseTo(112.47, 2);
+    });
+});
@@ -0,0 +1,98 @@
+import { SnapshotSerializer } from '../src/serialization';
+import { Glicko } from '../src/glicko';
+import { Player } from '../src/interfaces/player';
+import { MatchRecord } from '../src/interfaces/match-record';
+import { SnapshotError } from '../src/errors';
+
+describe('SnapshotSerializer Class', () => {
+    const serializer = new SnapshotSerializer();
+    const lastPlayedMatch = new Date('2025-02-01T12:00:00Z');
+    const player: Player = { id: 'alice', rating: 1612.5, rd: 74.2, volatility: 0.058, peakRating: 1650, precise: { rating: 1612.4987, rd: 74.2031 }, lastPlayedMatch };
+
+    it('should round-trip a player through JSON with its date revived', () => {
+        const text = serializer.stringify('player', player);
+        expect(JSON.parse(text)).toEqual({
+            schema: 'glicko-ts',
+            kind: 'player',
+            version: 1,
+            data: { id: 'alice', rating: 1612.5, rd: 74.2, volatility: 0.058, peakRating: 1650, precise: { rating: 1612.4987, rd: 74.2031 }, lastPlayedMatch: '2025-02-01T12:00:00.000Z' },
+        });
+
+        const loaded = serializer.deserialize('player', text);
+        expect(loaded).toEqual(player);
+        expect(new Glicko({ inactivityConstant: 30 }).updateRDForInactivity(loaded, 30).rd).toBeGreaterThan(player.rd);
+    });
+
+    it('should round-trip player maps, configuration and match records', () => {
+        const players = { alice: player, bob: { id: 'bob', rating: 1500, rd: 350 } };
+        expect(serializer.deserialize('players', serializer.stringify('players', players))).toEqual(players);
+
+        const config = { initialRD: 300, inactivityConstant: 40, firstMoveAdvantage: 35, validationMode: 'strict' as const };
+        const serializedConfig = serializer.serialize('config', { ...new Glicko(config).getConfig() });
+        const loadedConfig = serializer.deserialize('config', JSON.stringify(serializedConfig));
+        expect(loadedConfig).toMatchObject(config);
+        expect(loadedConfig).not.toHaveProperty('clock');
+        expect(loadedConfig).not.toHaveProperty('q');
+        expect(new Glicko(loadedConfig).getConfig().initialRD).toBe(300);
+
+        const records: MatchRecord[] = [{ id: 'm1', period: 0, playerId: 'alice', opponentId: 'bob', score: 1, datePlayed: lastPlayedMatch }];
+        expect(serializer.deserialize('matchRecords', serializer.stringify('matchRecords', records))).toEqual(records);
+    });
+
+    it('should round-trip the side and weight of match records', () => {
+        const records: MatchRecord[] = [
+            { id: 'm1', period: 0, playerId: 'alice', opponentId: 'bob', score: 1, datePlayed: lastPlayedMatch, side: 'first' },
+            { id: 'm2', period: 0, playerId: 'bob', opponentId: 'alice', score: 0.5, datePlayed: lastPlayedMatch, side: 'second', weight: 0.5 },
+        ];
+        expect(serializer.deserialize('matchRecords', serializer.stringify('matchRecords', records))).toEqual(records);
+
+        const record = { id: 'm', period: 0, playerId: 'a', opponentId: 'b', score: 1, datePlayed: '2025-01-01' };
+        expect(() => serializer.deserialize('matchRecords', [{ ...record, side: 'white' }])).toThrow("data[0].side must be 'first' or 'second'.");
+        expect(() => serializer.deserialize('matchRecords', [{ ...record, weight: -1 }])).toThrow("data[0].weight must be non-negative.");
+        expect(() => serializer.deserialize('matchRecords', [{ ...record, weight: 'heavy' }])).toThrow("data[0].weight must be a finite number.");
+    });
+
+    it('should load bare values written by JSON.stringify as version 0', () => {
+        expect(serializer.deserialize('player', JSON.stringify(player))).toEqual(player);
+        expect(serializer.deserialize('player', { rating: 1500, rd: 100, lastPlayedMatch })).toEqual({ rating: 1500, rd: 100, lastPlayedMatch });
+    });
+
+    it('should run custom migrations for older snapshot formats', () => {
+        const legacy = { schema: 'glicko-ts', kind: 'player', version: 0, data: { name: 'carol', elo: 1700, deviation: 90 } };
+        const migrating = new SnapshotSerializer({
+            migrations: [{
+                kind: 'player',
+                fromVersion: 0,
+                migrate: data => {
+                    const old = data as { name: string; elo: number; deviation: number };
+                    return { id: old.name, rating: old.elo, rd: old.deviation };
+                },
+            }],
+        });
+        expect(migrating.deserialize('player', legacy)).toEqual({ id: 'carol', rating: 1700, rd: 90 });
+    });
+
+    it('should validate snapshots on load', () => {
+        const envelope = (data: unknown, extra: object = {}) => ({ schema: 'glicko-ts', kind: 'player', version: 1, data, ...extra });
+        expect(() => serializer.deserialize('player', envelope({ rating: 'high', rd: 50 }))).toThrow("data.rating must be a finite number.");
+        expect(() => serializer.deserialize('player', envelope({ rating: 1500, rd: 0 }))).toThrow("data.rd must be a positive number.");
+        expect(() => serializer.deserialize('player', envelope({ rating: 1500, rd: 50, lastPlayedMatch: 'yesterday' })))
+            .toThrow("data.lastPlayedMatch must be an ISO 8601 date string.");
+        expect(() => serializer.deserialize('players', envelope({ bob: { rating: 1500 } }, { kind: 'players' }))).toThrow("data.bob.rd must be a positive number.");
+        expect(() => serializer.deserialize('config', { initialRD: 300, tau: 0.5 })).toThrow('Unknown configuration key "tau".');
+        expect(() => serializer.deserialize('matchRecords', [{ id: 'm', period: 0, playerId: 'a', opponentId: 'b', score: 2, datePlayed: '2025-01-01' }]))
+            .toThrow("data[0].score must be between 0 and 1.");
+        expect(() => serializer.deserialize('player', '{not json')).toThrow(SnapshotError);
+    });
+
+    it('should reject snapshots of another kind or a newer version', () => {
+        const snapshot = serializer.serialize('player', player);
+        expect(() => serializer.deserialize('players', snapshot)).toThrow('Expected a "players" snapshot but found "player".');
+        expect(() => serializer.deserialize('player', { ...snapshot, version: 2 })).toThrow("Snapshot version 2 is newer than the supported version 1.");
+        try {
+            serializer.deserialize('player', { ...snapshot, version: 2 });
+        } catch (error) {
+            expect(error).toMatchObject({ code: 'INVALID_SNAPSHOT', field: 'version', value: 2 });
+        }
+    });
+});
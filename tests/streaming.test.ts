@@ -0,0 +1,253 @@
+import { StreamingRatingProcessor } from '../src/streaming';
+import { RatingPeriodProcessor } from '../src/rating-period';
+import { Glicko } from '../src/glicko';
+import { Player } from '../src/interfaces/player';
+import { Match } from '../src/interfaces/match';
+import { GameResult } from '../src/interfaces/game-result';
+import { ClosedPeriod, LateMatch } from '../src/interfaces/streaming';
+import { FixedClock } from '../src/utils/clock';
+import { GlickoValidationError, InvalidConfigError, LateMatchError } from '../src/errors';
+import { syntheticGames } from './helpers/synthetic-games';
+
+describe('StreamingRatingProcessor Class', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const origin = new Date('2024-01-01T00:00:00Z');
+    const day = (n: number) => new Date(origin.getTime() + n * DAY);
+    const player = (id: string, rating = 1500, rd = 350): Player => ({ id, rating, rd });
+    const match = (playerId: string, opponentId: string, score: number, datePlayed: Date, extra?: Partial<Match>): Match => ({
+        player: player(playerId),
+        opponent: player(opponentId),
+        score,
+        datePlayed,
+        ...extra,
+    });
+    const toMatch = (game: GameResult): Match => match(game.playerId, game.opponentId, game.score, game.datePlayed);
+
+    async function* feed(matches: Match[]): AsyncGenerator<Match> {
+        for (const m of matches) {
+            await Promise.resolve();
+            yield m;
+        }
+    }
+
+    const collect = async (source: AsyncIterable<ClosedPeriod>): Promise<ClosedPeriod[]> => {
+        const periods: ClosedPeriod[] = [];
+        for await (const period of source) {
+            periods.push(period);
+        }
+        return periods;
+    };
+
+    it('should match chained RatingPeriodProcessor runs for an async feed', async () => {
+        const glicko = new Glicko();
+        const games = syntheticGames(6, 20);
+        const streaming = new StreamingRatingProcessor(glicko, { origin });
+
+        const periods = await collect(streaming.process(feed(games.map(toMatch))));
+
+        const processor = new RatingPeriodProcessor(glicko);
+        let expected: Record<string, Player> = {};
+        for (let period = 0; period < 6; period++) {
+            const periodGames = games.filter(game => Math.floor((game.datePlayed.getTime() - origin.getTime()) / (30 * DAY)) === period);
+            expected = processor.process(expected, periodGames, period === 0 ? { elapsedDays: 0 } : undefined);
+        }
+
+        expect(periods.map(p => p.period)).toEqual([0, 1, 2, 3, 4, 5]);
+        expect(periods[1].start).toEqual(day(30));
+        expect(periods[1].end).toEqual(day(60));
+        expect(periods.reduce((total, p) => total + p.games.length, 0)).toBe(games.length);
+        expect(streaming.getPlayers()).toEqual(expected);
+        expect(periods[5].players).toEqual(expected);
+    });
+
+    it('should close a period once a match arrives past its end and the allowed lateness', () => {
+        const streaming = new StreamingRatingProcessor(new Glicko(), { origin, allowedLatenessDays: 5 });
+
+        expect(streaming.push(match('a', 'b', 1, day(10)))).toEqual([]);
+        expect(streaming.push(match('a', 'c', 1, day(33)))).toEqual([]);
+        // A match inside the lateness window is still rated in its own period.
+        expect(streaming.push(match('b', 'c', 0, day(29)))).toEqual([]);
+
+        const closed = streaming.push(match('b', 'c', 1, day(35)));
+        expect(closed).toHaveLength(1);
+        expect(closed[0].period).toBe(0);
+        expect(closed[0].games.map(game => game.datePlayed)).toEqual([day(10), day(29)]);
+        expect(Object.keys(closed[0].players).sort()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should close empty periods in between and apply inactivity for them', () => {
+        const glicko = new Glicko();
+        const streaming = new StreamingRatingProcessor(glicko, { origin });
+        streaming.push(match('a', 'b', 1, day(1)));
+
+        const closed = streaming.push(match('a', 'b', 1, day(95)));
+        expect(closed.map(p => p.period)).toEqual([0, 1, 2]);
+        expect(closed[1].games).toEqual([]);
+        expect(closed[1].players.a.precise?.rd).toBeGreaterThan(closed[0].players.a.precise?.rd as number);
+        expect(closed[2].players.a.precise?.rd).toBeGreaterThan(closed[1].players.a.precise?.rd as number);
+    });
+
+    it('should drop late matches by default and report them', () => {
+        const reported: LateMatch[] = [];
+        const streaming = new StreamingRatingProcessor(new Glicko(), { origin, onLateMatch: late => reported.push(late) });
+        streaming.push(match('a', 'b', 1, day(1)));
+        streaming.push(match('a', 'b', 1, day(31)));
+
+        const late = match('a', 'c', 0, day(2));
+        expect(streaming.push(late)).toEqual([]);
+        expect(reported).toEqual([{ match: late, period: 0, action: 'dropped' }]);
+
+        const [closed] = streaming.flush();
+        expect(closed.period).toBe(1);
+        expect(closed.games).toHaveLength(1);
+        expect(closed.lateMatches).toEqual(reported);
+        expect(closed.players.c).toBeUndefined();
+    });
+
+    it('should rate late matches in the earliest open period with the next-period policy', () => {
+        const streaming = new StreamingRatingProcessor(new Glicko(), { origin, lateMatchPolicy: 'next-period' });
+        streaming.push(match('a', 'b', 1, day(1)));
+        streaming.push(match('a', 'b', 1, day(31)));
+        streaming.push(match('a', 'c', 0, day(2)));
+
+        const [closed] = streaming.flush();
+        expect(closed.period).toBe(1);
+        expect(closed.games.map(game => game.opponentId)).toEqual(['b', 'c']);
+        expect(closed.lateMatches).toEqual([expect.objectContaining({ period: 0, action: 'moved', ratedInPeriod: 1 })]);
+        expect(closed.players.c).toBeDefined();
+    });
+
+    it('should throw for late matches with the error policy', () => {
+        const streaming = new StreamingRatingProcessor(new Glicko(), { origin, lateMatchPolicy: 'error' });
+        streaming.push(match('a', 'b', 1, day(1)));
+        streaming.push(match('a', 'b', 1, day(31)));
+
+        expect(() => streaming.push(match('a', 'c', 0, day(2)))).toThrow(LateMatchError);
+    });
+
+    it('should reject matches dated before the origin instead of treating them as late', () => {
+        const reported: LateMatch[] = [];
+        const explicit = new StreamingRatingProcessor(new Glicko(), { origin, onLateMatch: late => reported.push(late) });
+        expect(() => explicit.push(match('a', 'b', 1, day(-1)))).toThrow("dated before the stream's origin");
+
+        // Without an origin, period 0 starts at the first match, so an earlier one has no period either.
+        const implicit = new StreamingRatingProcessor(new Glicko(), { onLateMatch: late => reported.push(late) });
+        implicit.push(match('a', 'b', 1, day(10)));
+        expect(() => implicit.push(match('a', 'c', 0, day(9)))).toThrow(GlickoValidationError);
+        expect(() => implicit.push(match('a', 'c', 0, day(9)))).not.toThrow(LateMatchError);
+        expect(reported).toEqual([]);
+        expect(implicit.flush()[0].games).toHaveLength(1);
+    });
+
+    it('should close periods on the clock with the schedule policy', () => {
+        let now = day(20);
+        const glicko = new Glicko({ clock: { now: () => now } });
+        const streaming = new StreamingRatingProcessor(glicko, { origin, closeOn: 'schedule', allowedLatenessDays: 2 });
+
+        streaming.push(match('a', 'b', 1, day(1)));
+        // Later match dates do not close anything on a schedule.
+        expect(streaming.push(match('a', 'b', 0, day(45)))).toEqual([]);
+        expect(streaming.closeDuePeriods()).toEqual([]);
+
+        now = day(31);
+        expect(streaming.closeDuePeriods()).toEqual([]);
+        now = day(32);
+        expect(streaming.closeDuePeriods().map(p => p.period)).toEqual([0]);
+        expect(streaming.closeDuePeriods(day(100)).map(p => p.period)).toEqual([1]);
+    });
+
+    it('should check the schedule after each match of a feed', async () => {
+        const glicko = new Glicko({ clock: new FixedClock(day(40)) });
+        const streaming = new StreamingRatingProcessor(glicko, { origin, closeOn: 'schedule' });
+
+        const periods: ClosedPeriod[] = [];
+        for await (const period of streaming.process([match('a', 'b', 1, day(1)), match('a', 'b', 1, day(35))], { flushOnEnd: false })) {
+            periods.push(period);
+        }
+        expect(periods.map(p => p.period)).toEqual([0]);
+        expect(streaming.flush().map(p => p.period)).toEqual([1]);
+    });
+
+    it('should leave skipped games out of a period and report them as warnings', () => {
+        const streaming = new StreamingRatingProcessor(new Glicko(), { origin });
+        streaming.push(match('a', 'b', 2, day(1)));
+        streaming.push(match('c', 'd', 1, day(2)));
+
+        const [closed] = streaming.flush();
+        expect(closed.games.map(game => game.playerId)).toEqual(['c']);
+        expect(closed.warnings).toEqual([expect.objectContaining({ code: 'INVALID_SCORE', matchIndex: 0 })]);
+        expect(closed.players.a).toMatchObject({ rating: 1500, rd: 350 });
+    });
+
+    it('should rate each period as of its end rather than the clock', () => {
+        const glicko = new Glicko({ clock: new FixedClock(day(-100)) });
+        const streaming = new StreamingRatingProcessor(glicko, { origin });
+        streaming.push(match('a', 'b', 1, day(1)));
+
+        const [closed] = streaming.flush();
+        expect(closed.warnings).toEqual([]);
+        expect(closed.games).toHaveLength(1);
+        expect(closed.players.a.rating).toBeGreaterThan(1500);
+    });
+
+    it('should not return matches dropped after the last open period closed', () => {
+        const reported: LateMatch[] = [];
+        const glicko = new Glicko({ clock: new FixedClock(day(40)) });
+        const streaming = new StreamingRatingProcessor(glicko, { origin, closeOn: 'schedule', onLateMatch: late => reported.push(late) });
+        streaming.push(match('a', 'b', 1, day(1)));
+        expect(streaming.closeDuePeriods().map(p => p.period)).toEqual([0]);
+
+        streaming.push(match('a', 'b', 1, day(2)));
+        expect(streaming.flush()).toEqual([]);
+        expect(reported).toEqual([expect.objectContaining({ period: 0, action: 'dropped' })]);
+    });
+
+    it('should seed new players from the match and keep initial players', () => {
+        const streaming = new StreamingRatingProcessor(new Glicko(), { origin, players: { a: { rating: 1700, rd: 50 } } });
+        streaming.push({ player: player('a', 1000, 300), opponent: player('b', 1600, 80), score: 0.5, datePlayed: day(1) });
+        streaming.push({ player: { id: 'c' } as Player, opponent: player('a', 1000, 300), score: 0, datePlayed: day(2) });
+
+        const expected = new RatingPeriodProcessor(new Glicko()).process(
+            { a: { rating: 1700, rd: 50 }, b: { id: 'b', rating: 1600, rd: 80 } },
+            [
+                { playerId: 'a', opponentId: 'b', score: 0.5, datePlayed: day(1) },
+                { playerId: 'c', opponentId: 'a', score: 0, datePlayed: day(2) },
+            ],
+            { elapsedDays: 0 });
+        expect(streaming.flush()[0].players).toEqual(expected);
+    });
+
+    it('should pass weights and sides through to the rating period', () => {
+        const glicko = new Glicko({ firstMoveAdvantage: 40 });
+        const streaming = new StreamingRatingProcessor(glicko, { origin });
+        streaming.push(match('a', 'b', 1, day(1), { weight: 0.5, side: 'first' }));
+
+        const [closed] = streaming.flush();
+        expect(closed.games[0]).toEqual({ playerId: 'a', opponentId: 'b', score: 1, datePlayed: day(1), weight: 0.5, side: 'first' });
+        const expected = new RatingPeriodProcessor(glicko).process({}, closed.games, { elapsedDays: 0 });
+        expect(closed.players).toEqual(expected);
+        const unweighted = new RatingPeriodProcessor(glicko).process({}, [{ ...closed.games[0], weight: undefined }], { elapsedDays: 0 });
+        expect(closed.players.a.rating).toBeLessThan(unweighted.a.rating);
+    });
+
+    it('should start period 0 at the first match when no origin is given', () => {
+        const streaming = new StreamingRatingProcessor();
+        streaming.push(match('a', 'b', 1, day(10)));
+        const [closed] = streaming.push(match('a', 'b', 1, day(40)));
+        expect(closed.start).toEqual(day(10));
+        expect(closed.end).toEqual(day(40));
+    });
+
+    it('should reject invalid matches and options', () => {
+        const streaming = new StreamingRatingProcessor();
+        expect(() => streaming.push({ player: { rating: 1500, rd: 350 }, opponent: player('b'), score: 1, datePlayed: day(1) }))
+            .toThrow(GlickoValidationError);
+        expect(() => streaming.push(match('a', 'a', 1, day(1)))).toThrow(GlickoValidationError);
+        expect(() => streaming.push(match('a', 'b', 1, new Date('invalid')))).toThrow(GlickoValidationError);
+
+        expect(() => new StreamingRatingProcessor(undefined, { allowedLatenessDays: -1 })).toThrow(InvalidConfigError);
+        expect(() => new StreamingRatingProcessor(undefined, { closeOn: 'hourly' as never })).toThrow(InvalidConfigError);
+        expect(() => new StreamingRatingProcessor(undefined, { lateMatchPolicy: 'ignore' as never })).toThrow(InvalidConfigError);
+        expect(() => new StreamingRatingProcessor(undefined, { origin: new Date('invalid') })).toThrow(InvalidConfigError);
+    });
+});
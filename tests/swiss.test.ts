@@ -0,0 +1,181 @@
+import { SwissTournament } from '../src/swiss';
+import { Glicko } from '../src/glicko';
+import { RatingPeriodProcessor } from '../src/rating-period';
+import { Player } from '../src/interfaces/player';
+import { FixedClock } from '../src/utils/clock';
+import { GlickoValidationError, InvalidConfigError, InvalidScoreError } from '../src/errors';
+
+const field = (count: number): Player[] =>
+    Array.from({ length: count }, (_, index) => ({ id: `p${index + 1}`, rating: 2000 - index * 50, rd: 60 }));
+
+/** Plays every board of the latest round, the higher-rated player winning unless `score` says otherwise. */
+const playRound = (event: SwissTournament, score?: (board: number) => number) => {
+    const rounds = event.getRounds();
+    const round = rounds[rounds.length - 1];
+    for (const pairing of round.pairings) {
+        event.recordResult(pairing.board, score ? score(pairing.board) : pairing.white.rating > pairing.black.rating ? 1 : 0);
+    }
+};
+
+describe('SwissTournament Class', () => {
+    const date = new Date('2025-05-01');
+
+    it('should pair round 1 top half against bottom half with alternating colors', () => {
+        const event = new SwissTournament(field(8), { clock: new FixedClock(date) });
+        const round = event.pairNextRound();
+
+        expect(round.round).toBe(1);
+        expect(round.datePlayed).toEqual(date);
+        expect(round.pairings.map(p => [p.board, p.white.id, p.black.id])).toEqual([
+            [1, 'p1', 'p5'],
+            [2, 'p6', 'p2'],
+            [3, 'p3', 'p7'],
+            [4, 'p8', 'p4'],
+        ]);
+        expect(round.bye).toBeUndefined();
+    });
+
+    it('should pair by score group and never repeat a pairing', () => {
+        const event = new SwissTournament(field(8));
+        const seen = new Set<string>();
+        for (let r = 0; r < 5; r++) {
+            const round = event.pairNextRound();
+            for (const { white, black } of round.pairings) {
+                const key = [white.id, black.id].sort().join('-');
+                expect(seen.has(key)).toBe(false);
+                seen.add(key);
+            }
+            playRound(event);
+        }
+
+        // After round 1 every winner (1 point) plays another winner.
+        const second = event.getRounds()[1];
+        const pointsAfterFirst = new Map(event.getRounds()[0].pairings.flatMap(p => [[p.white.id, p.score!], [p.black.id, 1 - p.score!]]));
+        for (const { white, black } of second.pairings) {
+            expect(pointsAfterFirst.get(white.id as string)).toBe(pointsAfterFirst.get(black.id as string));
+        }
+    });
+
+    it('should keep color balance within 2 and avoid three of the same color in a row', () => {
+        const event = new SwissTournament(field(10));
+        for (let r = 0; r < 7; r++) {
+            event.pairNextRound();
+            playRound(event, board => [1, 0.5, 0, 1, 0][board % 5]);
+        }
+        const colors = new Map<string, string[]>();
+        for (const round of event.getRounds()) {
+            for (const { white, black } of round.pairings) {
+                colors.set(white.id as string, [...(colors.get(white.id as string) ?? []), 'w']);
+                colors.set(black.id as string, [...(colors.get(black.id as string) ?? []), 'b']);
+            }
+        }
+        for (const history of colors.values()) {
+            expect(history.join('')).not.toMatch(/www|bbb/);
+        }
+        for (const standing of event.standings()) {
+            expect(Math.abs(standing.colorBalance)).toBeLessThanOrEqual(2);
+        }
+    });
+
+    it('should give the bye to the lowest-ranked entrant without one', () => {
+        const event = new SwissTournament(field(5), { byeScore: 1 });
+        const byes: string[] = [];
+        for (let r = 0; r < 3; r++) {
+            const round = event.pairNextRound();
+            byes.push(round.bye!.id as string);
+            playRound(event);
+        }
+        expect(byes[0]).toBe('p5');
+        expect(new Set(byes).size).toBe(3);
+
+        const standing = event.standings().find(row => row.player.id === 'p5')!;
+        expect(standing.byes).toBe(1);
+        expect(standing.gamesPlayed).toBe(2);
+    });
+
+    it('should compute Buchholz and Sonneborn-Berger tiebreaks', () => {
+        const players = field(4);
+        const event = new SwissTournament(players);
+        // Round 1: p1-p3 and p4-p2 (p1 and p2 win). Round 2: p1-p2 drawn, p3-p4 won by p4.
+        event.pairNextRound();
+        event.recordResult(1, 1);
+        event.recordResult(2, 0);
+        const second = event.pairNextRound();
+        for (const pairing of second.pairings) {
+            const pair = [pairing.white.id, pairing.black.id].sort().join('-');
+            event.recordResult(pairing.board, pair === 'p1-p2' ? 0.5 : pairing.white.id === 'p4' ? 1 : 0);
+        }
+
+        const rows = Object.fromEntries(event.standings().map(row => [row.player.id, row]));
+        expect(rows.p1.points).toBe(1.5);
+        expect(rows.p2.points).toBe(1.5);
+        expect(rows.p4.points).toBe(1);
+        expect(rows.p3.points).toBe(0);
+        // p1 faced p3 (0) and p2 (1.5); p2 faced p4 (1) and p1 (1.5).
+        expect(rows.p1.buchholz).toBe(1.5);
+        expect(rows.p2.buchholz).toBe(2.5);
+        expect(rows.p1.sonnebornBerger).toBe(0.75);
+        expect(rows.p2.sonnebornBerger).toBe(1.75);
+        expect(event.standings().map(row => [row.rank, row.player.id])).toEqual([[1, 'p2'], [2, 'p1'], [3, 'p4'], [4, 'p3']]);
+    });
+
+    it('should emit matches ready for rating updates', () => {
+        const players = field(4);
+        const event = new SwissTournament(players, { clock: new FixedClock(date) });
+        event.pairNextRound();
+        playRound(event);
+        event.pairNextRound();
+        playRound(event);
+
+        const games = event.toGameResults();
+        expect(games).toHaveLength(4);
+        const matches = event.toMatches();
+        expect(Object.keys(matches).sort()).toEqual(['p1', 'p2', 'p3', 'p4']);
+        expect(matches.p1.map(m => m.score)).toEqual([1, 1]);
+        expect(matches.p1[0].player).toBe(players[0]);
+
+        const glicko = new Glicko({ clock: new FixedClock(date) });
+        const updated = glicko.processGameResults(players[0], matches.p1, 0);
+        const periodStates = new RatingPeriodProcessor(glicko).process(
+            Object.fromEntries(players.map(p => [p.id, p])), games, { elapsedDays: 0 });
+        expect(updated.rating).toBeGreaterThan(players[0].rating);
+        expect(periodStates.p1.rating).toBeCloseTo(updated.rating, 6);
+    });
+
+    it('should refuse to pair while results are missing or when no pairing without rematches remains', () => {
+        const event = new SwissTournament(field(2));
+        event.pairNextRound();
+        expect(() => event.pairNextRound()).toThrow('Round 1 still has unrecorded results.');
+        event.recordResult(1, 0.5);
+        expect(() => event.pairNextRound()).toThrow('Round 2 cannot be paired without rematches.');
+        expect(() => event.pairNextRound()).toThrow(GlickoValidationError);
+    });
+
+    it('should relax color constraints rather than fail when they alone block a late round', () => {
+        const event = new SwissTournament(field(6));
+        for (let round = 1; round <= 4; round++) {
+            event.pairNextRound(date);
+            playRound(event, () => 0);
+        }
+
+        const last = event.pairNextRound(date);
+        expect(last.pairings).toHaveLength(3);
+        const earlier = new Set(event.getRounds().slice(0, 4).flatMap(round => round.pairings.map(p => [p.white.id, p.black.id].sort().join('-'))));
+        for (const pairing of last.pairings) {
+            expect(earlier.has([pairing.white.id, pairing.black.id].sort().join('-'))).toBe(false);
+        }
+    });
+
+    it('should validate entrants, options and results', () => {
+        expect(() => new SwissTournament(field(1))).toThrow(GlickoValidationError);
+        expect(() => new SwissTournament([...field(2), field(2)[0]])).toThrow(/more than once/);
+        expect(() => new SwissTournament(field(4), { byeScore: 2 })).toThrow(InvalidConfigError);
+
+        const event = new SwissTournament(field(4));
+        expect(() => event.recordResult(1, 1)).toThrow('Round 0 has not been paired.');
+        expect(() => event.recordResult(1, 1)).toThrow(GlickoValidationError);
+        event.pairNextRound();
+        expect(() => event.recordResult(3, 1)).toThrow('Round 1 has no board 3.');
+        expect(() => event.recordResult(1, 1.5)).toThrow(InvalidScoreError);
+    });
+});
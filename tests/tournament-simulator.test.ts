@@ -0,0 +1,137 @@
+import { TournamentSimulator } from '../src/tournament-simulator';
+import { SeededRandom } from '../src/utils/random';
+import { Glicko } from '../src/glicko';
+import { Player } from '../src/interfaces/player';
+import { GlickoValidationError, InvalidConfigError } from '../src/errors';
+
+const field = (ratings: number[], rd = 50): Player[] =>
+    ratings.map((rating, index) => ({ id: `p${index + 1}`, rating, rd, lastPlayedMatch: undefined }));
+
+const reachedPlaces = (probabilities: number[]) =>
+    probabilities.map((p, index) => p > 0 ? index + 1 : 0).filter(place => place > 0);
+
+describe('TournamentSimulator Class', () => {
+    const simulator = new TournamentSimulator();
+    const eight = field([1900, 1800, 1700, 1600, 1500, 1400, 1300, 1200]);
+
+    it('should reproduce results for the same seed', () => {
+        const first = simulator.simulate(eight, { format: 'single-elimination', runs: 500, seed: 7 });
+        const second = simulator.simulate(eight, { format: 'single-elimination', runs: 500, seed: 7 });
+        const other = simulator.simulate(eight, { format: 'single-elimination', runs: 500, seed: 8 });
+
+        expect(second).toEqual(first);
+        expect(other.entrants).not.toEqual(first.entrants);
+        expect(first.seed).toBe(7);
+    });
+
+    it('should report a seed that reproduces a run without one', () => {
+        const result = simulator.simulate(eight, { format: 'round-robin', runs: 100 });
+        expect(simulator.simulate(eight, { format: 'round-robin', runs: 100, seed: result.seed })).toEqual(result);
+    });
+
+    it.each(['single-elimination', 'double-elimination', 'round-robin'] as const)('should produce placement distributions summing to 1 (%s)', format => {
+        const result = simulator.simulate(eight, { format, runs: 1000, seed: 1, sampleSkill: format === 'round-robin' });
+
+        for (const entrant of result.entrants) {
+            expect(entrant.placementProbabilities).toHaveLength(8);
+            expect(entrant.placementProbabilities.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 10);
+            expect(entrant.winProbability).toBe(entrant.placementProbabilities[0]);
+            expect(entrant.top[8]).toBeCloseTo(1, 10);
+        }
+        const wins = result.entrants.map(entrant => entrant.winProbability);
+        expect(wins.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 10);
+        expect(wins[0]).toBe(Math.max(...wins));
+        expect(result.entrants[0].expectedPlacement).toBeLessThan(result.entrants[7].expectedPlacement);
+    });
+
+    it('should share places within an elimination tier', () => {
+        const single = simulator.simulate(eight, { format: 'single-elimination', runs: 2000, seed: 3 });
+        const double = simulator.simulate(eight, { format: 'double-elimination', runs: 2000, seed: 3 });
+        const union = (result: typeof single) => [...new Set(result.entrants.flatMap(e => reachedPlaces(e.placementProbabilities)))].sort((a, b) => a - b);
+
+        expect(union(single)).toEqual([1, 2, 3, 5]);
+        expect(union(double)).toEqual([1, 2, 3, 4, 5, 7]);
+    });
+
+    it('should give byes to the top seeds in fields that are not a power of two', () => {
+        const six = field([1500, 1500, 1500, 1500, 1500, 1500]);
+        const result = simulator.simulate(six, { format: 'single-elimination', runs: 2000, seed: 11 });
+
+        // Seeds 1 and 2 skip the first round, so they can never finish in the first-round tier (5th).
+        expect(result.entrants[0].placementProbabilities[4]).toBe(0);
+        expect(result.entrants[1].placementProbabilities[4]).toBe(0);
+        expect(result.entrants[5].placementProbabilities[4]).toBeGreaterThan(0.3);
+        expect(result.entrants[0].winProbability).toBeGreaterThan(result.entrants[5].winProbability);
+    });
+
+    it('should let a second chance help the favourite in double elimination', () => {
+        const options = { runs: 4000, seed: 5 };
+        const single = simulator.simulate(eight, { ...options, format: 'single-elimination' });
+        const double = simulator.simulate(eight, { ...options, format: 'double-elimination' });
+        expect(double.entrants[0].winProbability).toBeGreaterThan(single.entrants[0].winProbability);
+    });
+
+    it('should match the expected score for a two-player final', () => {
+        const pair = field([1700, 1500]);
+        const expected = new Glicko().predict(pair[0], pair[1]).expectedScore;
+        const result = simulator.simulate(pair, { format: 'single-elimination', runs: 20000, seed: 2 });
+        expect(result.entrants[0].winProbability).toBeCloseTo(expected, 1);
+    });
+
+    it('should widen outcomes when sampling skill from the RD', () => {
+        const uncertain = field([1800, 1500, 1500, 1500], 350);
+        const fixed = simulator.simulate(uncertain, { format: 'round-robin', runs: 3000, seed: 4 });
+        const sampled = simulator.simulate(uncertain, { format: 'round-robin', runs: 3000, seed: 4, sampleSkill: true });
+        expect(sampled.entrants[0].winProbability).toBeLessThan(fixed.entrants[0].winProbability);
+    });
+
+    it('should count draws as half points in a round robin', () => {
+        const equal = field([1500, 1500, 1500]);
+        const result = simulator.simulate(equal, { format: 'round-robin', runs: 3000, seed: 9, drawRate: 0.5, roundRobinCycles: 2 });
+        for (const entrant of result.entrants) {
+            expect(entrant.winProbability).toBeCloseTo(1 / 3, 1);
+        }
+    });
+
+    it('should cap top cuts at the field size', () => {
+        const result = simulator.simulate(field([1600, 1500, 1400]), { format: 'round-robin', runs: 10, seed: 1, topCuts: [1, 2, 4] });
+        expect(Object.keys(result.entrants[0].top)).toEqual(['1', '2']);
+    });
+
+    it('should reject invalid entrants and options', () => {
+        expect(() => simulator.simulate(field([1500]), { format: 'round-robin' })).toThrow(GlickoValidationError);
+        expect(() => simulator.simulate([...eight, eight[0]], { format: 'round-robin' })).toThrow(/more than once/);
+        expect(() => simulator.simulate([{ ...eight[0], id: undefined }, eight[1]], { format: 'round-robin' })).toThrow(/must have an id/);
+        expect(() => simulator.simulate(eight, { format: 'round-robin', runs: 0 })).toThrow(InvalidConfigError);
+        expect(() => simulator.simulate(eight, { format: 'round-robin', drawRate: 1 })).toThrow(InvalidConfigError);
+        expect(() => simulator.simulate(eight, { format: 'round-robin', roundRobinCycles: 1.5 })).toThrow(InvalidConfigError);
+        expect(() => simulator.simulate(eight, { format: 'swiss' as never })).toThrow(InvalidConfigError);
+    });
+});
+
+describe('SeededRandom Class', () => {
+    it('should produce the same sequence for the same seed', () => {
+        const a = new SeededRandom(42);
+        const b = new SeededRandom(42);
+        const values = Array.from({ length: 5 }, () => a.next());
+        expect(Array.from({ length: 5 }, () => b.next())).toEqual(values);
+        values.forEach(value => {
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1);
+        });
+    });
+
+    it('should draw normal samples with the requested mean and spread', () => {
+        const random = new SeededRandom(1);
+        const samples = Array.from({ length: 20000 }, () => random.normal(10, 2));
+        const mean = samples.reduce((sum, x) => sum + x, 0) / samples.length;
+        const variance = samples.reduce((sum, x) => sum + Math.pow(x - mean, 2), 0) / samples.length;
+        expect(mean).toBeCloseTo(10, 1);
+        expect(Math.sqrt(variance)).toBeCloseTo(2, 1);
+    });
+
+    it('should shuffle without losing items', () => {
+        const items = new SeededRandom(3).shuffle([1, 2, 3, 4, 5, 6]);
+        expect([...items].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+});